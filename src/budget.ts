@@ -0,0 +1,305 @@
+// src/budget.ts
+// budget limits - evaluates merged report spend against daily/weekly/monthly caps
+
+import { readFile } from "node:fs/promises";
+import Table from "cli-table3";
+import {
+  BudgetConfigSchema,
+  type BudgetConfig,
+  type BudgetLimits,
+  type BudgetOverage,
+  type BudgetPeriod,
+  type BudgetProjection,
+  type BudgetReport,
+  type BudgetStatus,
+  type MergedDailyOutput,
+  type MergedEntry,
+  type ReportGrid,
+} from "./types.js";
+import { formatCurrency, formatLocalDate, getErrorMessage } from "./utils.js";
+
+// scope label for overall (all-source) limits
+export const ALL_SOURCES = "All sources";
+
+const BUDGET_PERIODS: readonly BudgetPeriod[] = ["daily", "weekly", "monthly"];
+
+const colors = {
+  red: "\x1b[31m",
+  green: "\x1b[32m",
+  yellow: "\x1b[33m",
+  cyan: "\x1b[36m",
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+};
+
+// * load & validate budget config file
+export async function loadBudgetConfig(filePath: string): Promise<BudgetConfig> {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (err) {
+    throw new Error(`Cannot read budget file ${filePath}: ${getErrorMessage(err)}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error(`Budget file ${filePath} is not valid JSON`);
+  }
+
+  const parsed = BudgetConfigSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.join(".") || "budget";
+    throw new Error(`Invalid budget file ${filePath}: ${field}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+// apply --budget-daily/--budget-weekly/--budget-monthly over file limits
+export function mergeBudgetLimits(
+  config: BudgetConfig | undefined,
+  overrides: BudgetLimits
+): BudgetConfig | undefined {
+  const defined = Object.fromEntries(
+    Object.entries(overrides).filter(([, value]) => value !== undefined)
+  );
+  if (!config && Object.keys(defined).length === 0) {
+    return undefined;
+  }
+  return { ...config, ...defined };
+}
+
+// get budget period containing YYYY-MM-DD date (day, week start (Sunday), or month)
+export function getBudgetPeriodKey(date: string, period: BudgetPeriod): string {
+  switch (period) {
+    case "daily":
+      return date;
+    case "weekly": {
+      const [year, month, day] = date.split("-").map(Number);
+      const local = new Date(year, month - 1, day);
+      local.setDate(local.getDate() - local.getDay());
+      return formatLocalDate(local);
+    }
+    case "monthly":
+      return date.slice(0, 7);
+  }
+}
+
+// cost per day & source (aggregated entries carry per-source usage)
+function getDailyCosts(
+  output: MergedDailyOutput
+): { date: string; source: string; cost: number }[] {
+  return output.daily.flatMap((entry) => {
+    const usage = entry.sourceUsage ?? [
+      { source: entry.source ?? "unknown", totalCost: entry.totalCost },
+    ];
+    return usage.map((item) => ({ date: entry.date, source: item.source, cost: item.totalCost }));
+  });
+}
+
+// * evaluate budget against merged daily output (current periods are relative to `now`)
+export function evaluateBudget(
+  output: MergedDailyOutput,
+  config: BudgetConfig,
+  now: Date = new Date()
+): BudgetReport {
+  const costs = getDailyCosts(output);
+  const today = formatLocalDate(now);
+  const month = getBudgetPeriodKey(today, "monthly");
+  const daysInMonth = new Date(now.getFullYear(), now.getMonth() + 1, 0).getDate();
+
+  const scopes: { scope: string; source?: string; limits: BudgetLimits }[] = [
+    { scope: ALL_SOURCES, limits: config },
+    ...Object.entries(config.sources ?? {}).map(([source, limits]) => ({
+      scope: source,
+      source,
+      limits,
+    })),
+  ];
+
+  const statuses: BudgetStatus[] = [];
+  const overBudgetDays: BudgetOverage[] = [];
+  const projections: BudgetProjection[] = [];
+
+  for (const { scope, source, limits } of scopes) {
+    const scoped = source ? costs.filter((c) => c.source === source) : costs;
+    const spentIn = (period: BudgetPeriod, key: string) =>
+      scoped
+        .filter((c) => getBudgetPeriodKey(c.date, period) === key)
+        .reduce((sum, c) => sum + c.cost, 0);
+
+    // current period status for each configured limit
+    for (const period of BUDGET_PERIODS) {
+      const limit = limits[period];
+      if (limit === undefined) continue;
+      const periodKey = getBudgetPeriodKey(today, period);
+      const spent = spentIn(period, periodKey);
+      statuses.push({
+        scope,
+        period,
+        periodKey,
+        spent,
+        limit,
+        remaining: limit - spent,
+        exceeded: spent > limit,
+      });
+    }
+
+    // every reported day over the daily limit
+    if (limits.daily !== undefined) {
+      for (const date of new Set(scoped.map((c) => c.date))) {
+        const spent = spentIn("daily", date);
+        if (spent > limits.daily) {
+          overBudgetDays.push({ date, ...(source && { source }), spent, limit: limits.daily });
+        }
+      }
+    }
+
+    // month-end projection (overall always, sources only w/ a monthly limit)
+    if (!source || limits.monthly !== undefined) {
+      const spent = spentIn("monthly", month);
+      projections.push({
+        scope,
+        month,
+        spent,
+        projected: (spent / now.getDate()) * daysInMonth,
+        ...(limits.monthly !== undefined && { limit: limits.monthly }),
+      });
+    }
+  }
+
+  overBudgetDays.sort((a, b) => b.date.localeCompare(a.date));
+
+  return {
+    statuses,
+    overBudgetDays,
+    projections,
+    exceeded: statuses.some((status) => status.exceeded),
+  };
+}
+
+// check if merged entry's day is over a daily limit (overall, or for one of its sources)
+export function isOverBudget(entry: MergedEntry, budget?: BudgetReport): boolean {
+  if (!budget) return false;
+  // aggregated entries list their sources in sourceUsage; per-source rows carry one label
+  const sources =
+    entry.sourceUsage?.map((usage) => usage.source) ?? (entry.source ? [entry.source] : []);
+  return budget.overBudgetDays.some(
+    (day) => day.date === entry.date && (!day.source || sources.includes(day.source))
+  );
+}
+
+// format percent of limit used
+function formatUsed(spent: number, limit: number): string {
+  return `${((spent / limit) * 100).toFixed(1)}%`;
+}
+
+// * render budget section for terminal (current periods, projections & days over budget)
+export function renderBudgetTable(budget: BudgetReport): string {
+  const lines: string[] = [`${colors.bold}Budget${colors.reset}`, ""];
+
+  if (budget.statuses.length > 0) {
+    const head = ["Scope", "Period", "Spent", "Limit", "Remaining", "Used"];
+    const table = new Table({
+      head: head.map((label) => `${colors.cyan}${label}${colors.reset}`),
+      colAligns: ["left", "left", "right", "right", "right", "right"],
+    });
+    for (const status of budget.statuses) {
+      const color = status.exceeded ? colors.red : colors.green;
+      table.push([
+        status.scope,
+        `${status.period} (${status.periodKey})`,
+        formatCurrency(status.spent),
+        formatCurrency(status.limit),
+        `${color}${status.exceeded ? "-" : ""}` +
+          `${formatCurrency(Math.abs(status.remaining))}${colors.reset}`,
+        `${color}${formatUsed(status.spent, status.limit)}${colors.reset}`,
+      ]);
+    }
+    lines.push(table.toString(), "");
+  }
+
+  for (const projection of budget.projections) {
+    const over = projection.limit !== undefined && projection.projected > projection.limit;
+    const limit =
+      projection.limit !== undefined ? ` of ${formatCurrency(projection.limit)}` : "";
+    const projected = over
+      ? `${colors.yellow}${formatCurrency(projection.projected)}${colors.reset}`
+      : formatCurrency(projection.projected);
+    lines.push(
+      `Projected ${projection.month} (${projection.scope}): ${projected}${limit} ` +
+        `(${formatCurrency(projection.spent)} so far)`
+    );
+  }
+
+  if (budget.overBudgetDays.length > 0) {
+    lines.push("", `${colors.red}Days over budget:${colors.reset}`);
+    for (const day of budget.overBudgetDays) {
+      const scope = day.source ?? ALL_SOURCES;
+      lines.push(
+        `  ${day.date}  ${scope}: ${formatCurrency(day.spent)} > ${formatCurrency(day.limit)}`
+      );
+    }
+  }
+
+  if (budget.exceeded) {
+    lines.push("", `${colors.red}${colors.bold}Budget exceeded${colors.reset}`);
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+// build format-neutral budget status rows (markdown & HTML)
+export function buildBudgetGrid(budget: BudgetReport): ReportGrid {
+  return {
+    columns: [
+      { head: "Scope", kind: "text" },
+      { head: "Period", kind: "text" },
+      { head: "Spent", kind: "cost" },
+      { head: "Limit", kind: "cost" },
+      { head: "Remaining", kind: "cost" },
+      { head: "Used", kind: "share" },
+      { head: "Status", kind: "text" },
+    ],
+    rows: budget.statuses.map((status) => ({
+      cells: [
+        status.scope,
+        `${status.period} (${status.periodKey})`,
+        status.spent,
+        status.limit,
+        status.remaining,
+        status.spent / status.limit,
+        status.exceeded ? "OVER" : "OK",
+      ],
+      overBudget: status.exceeded,
+    })),
+    totals: [],
+  };
+}
+
+// build format-neutral month-end projection rows (markdown & HTML)
+export function buildProjectionGrid(budget: BudgetReport): ReportGrid {
+  return {
+    columns: [
+      { head: "Scope", kind: "text" },
+      { head: "Month", kind: "text" },
+      { head: "Spent", kind: "cost" },
+      { head: "Projected", kind: "cost" },
+      { head: "Limit", kind: "cost" },
+    ],
+    rows: budget.projections.map((projection) => ({
+      cells: [
+        projection.scope,
+        projection.month,
+        projection.spent,
+        projection.projected,
+        projection.limit ?? null,
+      ],
+      overBudget: projection.limit !== undefined && projection.projected > projection.limit,
+    })),
+    totals: [],
+  };
+}
@@ -0,0 +1,191 @@
+// src/ccusage-cli.ts
+// ccusage process runner - resolves the installed ccusage binary & runs it w/o a shell
+
+import { spawn } from "node:child_process";
+import { readFile } from "node:fs/promises";
+import { createRequire } from "node:module";
+import os from "node:os";
+import path from "node:path";
+import {
+  CCUSAGE_MAX_MAJOR_VERSION,
+  CCUSAGE_MIN_MAJOR_VERSION,
+  MAX_BUFFER,
+} from "./constants.js";
+import { execCommand, type ExecResult } from "./utils.js";
+
+export interface CcusageBinary {
+  /** Executable (node for the bundled package, or ccusage from PATH) */
+  command: string;
+  /** Leading args (bin script for the bundled package) */
+  args: string[];
+  version: string;
+  /** Where ccusage was found */
+  origin: "package" | "path";
+}
+
+export interface CcusageRunOptions {
+  /** CLAUDE_CONFIG_DIR for ccusage (undefined = ccusage defaults) */
+  configDir?: string;
+  /** Stop ccusage after this many ms (undefined = no limit) */
+  timeoutMs?: number;
+  /** Inherit stdio (ccusage prints its own output) instead of capturing it */
+  inherit?: boolean;
+}
+
+// resolution is cached (several sources run ccusage per report)
+let resolved: Promise<CcusageBinary | null> | undefined;
+
+// bundled ccusage dependency (bin script run w/ the current node)
+async function resolvePackageBinary(): Promise<CcusageBinary | null> {
+  try {
+    const require = createRequire(import.meta.url);
+    const packageJsonPath = require.resolve("ccusage/package.json");
+    const packageJson = JSON.parse(await readFile(packageJsonPath, "utf-8")) as {
+      version?: string;
+      bin?: string | Record<string, string>;
+    };
+    const bin = typeof packageJson.bin === "string" ? packageJson.bin : packageJson.bin?.ccusage;
+    if (!bin || !packageJson.version) return null;
+
+    return {
+      command: process.execPath,
+      args: [path.join(path.dirname(packageJsonPath), bin)],
+      version: packageJson.version,
+      origin: "package",
+    };
+  } catch {
+    return null;
+  }
+}
+
+// globally installed ccusage on PATH
+async function resolvePathBinary(): Promise<CcusageBinary | null> {
+  try {
+    const result = await execCommand("ccusage", ["--version"]);
+    const version = result.stdout.match(/\d+\.\d+\.\d+/)?.[0];
+    if (result.exitCode !== 0 || !version) return null;
+    return { command: "ccusage", args: [], version, origin: "path" };
+  } catch {
+    return null;
+  }
+}
+
+// * find ccusage (bundled dependency first, then PATH); null if not installed
+export function resolveCcusage(): Promise<CcusageBinary | null> {
+  resolved ??= resolvePackageBinary().then((binary) => binary ?? resolvePathBinary());
+  return resolved;
+}
+
+// explain why ccusage version can't be used (null = compatible)
+export function getCcusageVersionError(binary: CcusageBinary): string | null {
+  const major = Number(binary.version.split(".")[0]);
+  if (major >= CCUSAGE_MIN_MAJOR_VERSION && major <= CCUSAGE_MAX_MAJOR_VERSION) {
+    return null;
+  }
+  const where = binary.origin === "package" ? "bundled dependency" : "on PATH";
+  return (
+    `ccusage ${binary.version} (${where}) is not supported; ` +
+    `expected ${CCUSAGE_MIN_MAJOR_VERSION}.x to ${CCUSAGE_MAX_MAJOR_VERSION}.x.\n` +
+    `Install a supported version: npm install ccusage@${CCUSAGE_MAX_MAJOR_VERSION}`
+  );
+}
+
+// resolve compatible ccusage or throw w/ install instructions
+export async function getCcusage(): Promise<CcusageBinary> {
+  const binary = await resolveCcusage();
+  if (!binary) {
+    throw new Error(
+      "ccusage is not installed or not available.\n\n" +
+        "Please install ccusage first:\n" +
+        "  npm install ccusage\n\n" +
+        "Or use the built-in engine: --engine native"
+    );
+  }
+  const versionError = getCcusageVersionError(binary);
+  if (versionError) {
+    throw new Error(versionError);
+  }
+  return binary;
+}
+
+// describe ccusage invocation for verbose logs
+export function formatCcusageCommand(args: string[], configDir?: string): string {
+  const env = configDir ? `CLAUDE_CONFIG_DIR=${JSON.stringify(configDir)} ` : "";
+  return `${env}ccusage ${args.join(" ")}`.trimEnd();
+}
+
+// * run ccusage w/ argument array & explicit env (captured output unless inherit)
+export async function execCcusage(
+  args: string[],
+  options: CcusageRunOptions = {}
+): Promise<ExecResult> {
+  const binary = await getCcusage();
+  const env = { ...process.env };
+  if (options.configDir) {
+    env.CLAUDE_CONFIG_DIR = options.configDir;
+  }
+
+  const { timeoutMs } = options;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(binary.command, [...binary.args, ...args], {
+      env,
+      stdio: options.inherit ? "inherit" : ["ignore", "pipe", "pipe"],
+    });
+
+    // stdout is parsed as JSON, so a cut-off document is an error (stderr is only shown)
+    let stdout = "";
+    let stderr = "";
+    let tooLarge = false;
+    child.stdout?.on("data", (data: Buffer) => {
+      if (tooLarge) return;
+      stdout += data.toString();
+      if (stdout.length > MAX_BUFFER) {
+        tooLarge = true;
+        stdout = "";
+        child.kill("SIGTERM");
+      }
+    });
+    child.stderr?.on("data", (data: Buffer) => {
+      if (stderr.length <= MAX_BUFFER) stderr += data.toString();
+    });
+
+    // limit that stopped ccusage (undefined = still within it, or no limit)
+    let timedOutAfterMs: number | undefined;
+    const timer =
+      timeoutMs !== undefined
+        ? setTimeout(() => {
+            timedOutAfterMs = timeoutMs;
+            child.kill("SIGTERM");
+          }, timeoutMs)
+        : undefined;
+
+    child.on("close", (code, signal) => {
+      clearTimeout(timer);
+      if (timedOutAfterMs !== undefined) {
+        reject(
+          new Error(
+            `ccusage timed out after ${timedOutAfterMs / 1000}s (raise --ccusage-timeout)`
+          )
+        );
+      } else if (tooLarge) {
+        reject(
+          new Error(
+            `ccusage output too large (over ${MAX_BUFFER / 1024 / 1024} MB); ` +
+              "narrow the report, e.g. with --since"
+          )
+        );
+      } else if (signal) {
+        // killed from outside (e.g. Ctrl+C): shell convention 128 + signal number
+        resolve({ stdout, stderr, exitCode: 128 + (os.constants.signals[signal] ?? 0) });
+      } else {
+        resolve({ stdout, stderr, exitCode: code ?? 1 });
+      }
+    });
+
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to run ccusage: ${err.message}`));
+    });
+  });
+}
@@ -1,43 +1,65 @@
 // src/ccusage-merge.ts
 // ccusage merge utilities - combines ccusage JSON outputs from multiple sources
 
-import { exec } from "node:child_process";
-import { readFile } from "node:fs/promises";
-import { promisify } from "node:util";
+import { readdir, readFile } from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import Table from "cli-table3";
+import { isOverBudget } from "./budget.js";
+import { execCcusage, formatCcusageCommand } from "./ccusage-cli.js";
+import { CCUSAGE_TIMEOUT_MS } from "./constants.js";
+import { globToRegExp } from "./filters.js";
 import {
+  CcusageBlocksOutputSchema,
   CcusageDailyOutputSchema,
+  CcusageMonthlyOutputSchema,
+  CcusageSessionOutputSchema,
+  CcusageWeeklyOutputSchema,
+  type BlockEntry,
   type CcusageDailyOutput,
+  type CcusageInput,
+  type CcusageView,
   type DailyEntry,
   type MergedDailyOutput,
+  type MergedEntry,
   type ModelBreakdown,
-  type Totals,
+  type ModelTotal,
+  type ReportCell,
+  type ReportColumn,
+  type ReportGrid,
+  type ReportRow,
+  type SourceUsage,
 } from "./types.js";
-import { formatCurrency, formatNumber, getErrorMessage, verboseLog } from "./utils.js";
-
-const execAsync = promisify(exec);
+import {
+  calculateTotals,
+  formatCurrency,
+  formatNumber,
+  getErrorMessage,
+  verboseLog,
+} from "./utils.js";
 
 // run ccusage & capture JSON output
 export async function runCcusageJson(
   configDir: string | undefined,
   args: string[] = [],
-  verbose = false
+  verbose = false,
+  timeoutMs = CCUSAGE_TIMEOUT_MS
 ): Promise<CcusageDailyOutput | null> {
-  // build command - only set CLAUDE_CONFIG_DIR if configDir is provided
-  const envPrefix = configDir ? `CLAUDE_CONFIG_DIR="${configDir}" ` : "";
-  const command = `${envPrefix}npx ccusage ${args.join(" ")} --json`;
-
-  verboseLog(verbose, `Running: ${command}`);
+  const ccusageArgs = [...args, "--json"];
+  verboseLog(verbose, `Running: ${formatCcusageCommand(ccusageArgs, configDir)}`);
 
   try {
-    const { stdout, stderr } = await execAsync(command, {
-      timeout: 60000,
-      maxBuffer: 10 * 1024 * 1024,
-    });
+    const { stdout, stderr, exitCode } = await execCcusage(ccusageArgs, { configDir, timeoutMs });
 
     if (stderr && verbose) {
       console.error(`ccusage stderr: ${stderr}`);
     }
+    if (exitCode !== 0) {
+      if (verbose) {
+        console.error(`ccusage exited with code ${exitCode}`);
+      }
+      return null;
+    }
 
     // parse & validate JSON output
     let jsonData: unknown;
@@ -49,14 +71,13 @@ export async function runCcusageJson(
       }
       return null;
     }
-    const parsed = CcusageDailyOutputSchema.safeParse(jsonData);
-    if (!parsed.success) {
-      if (verbose) {
-        console.error(`Invalid ccusage output: ${parsed.error.message}`);
-      }
-      return null;
+    const parsed = parseCcusageOutput(jsonData);
+    if (!parsed && verbose) {
+      console.error(
+        "Invalid ccusage output: expected daily, weekly, monthly, session or blocks JSON"
+      );
     }
-    return parsed.data;
+    return parsed;
   } catch (err) {
     if (verbose) {
       console.error(`Failed to run ccusage: ${getErrorMessage(err)}`);
@@ -77,16 +98,169 @@ export async function loadCcusageJson(
     } catch {
       return null;
     }
-    const parsed = CcusageDailyOutputSchema.safeParse(jsonData);
-    if (!parsed.success) {
-      return null;
-    }
-    return parsed.data;
+    return parseCcusageOutput(jsonData);
   } catch {
     return null;
   }
 }
 
+// expand file glob (* within segment, ** across segments) to sorted matching files
+async function expandGlob(pattern: string): Promise<string[]> {
+  const expanded = pattern.startsWith("~/") ? os.homedir() + pattern.slice(1) : pattern;
+  const resolved = path.resolve(expanded).split(path.sep).join("/");
+  const segments = resolved.split("/");
+  const first = segments.findIndex((segment) => /[*?]/.test(segment));
+  const base = segments.slice(0, first).join("/") || "/";
+  const maxDepth = segments.slice(first).includes("**") ? Infinity : segments.length - first;
+  const regex = globToRegExp(resolved);
+
+  const matches: string[] = [];
+  const walk = async (dir: string, depth: number): Promise<void> => {
+    let entries;
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    for (const entry of entries) {
+      const full = `${dir === "/" ? "" : dir}/${entry.name}`;
+      if (entry.isDirectory() && depth < maxDepth) {
+        await walk(full, depth + 1);
+      } else if (entry.isFile() && regex.test(full)) {
+        matches.push(full);
+      }
+    }
+  };
+  await walk(base, 1);
+  return matches.sort();
+}
+
+// label glob matches by the path segments that tell them apart (common prefix & suffix dropped)
+// e.g. team/alice/usage.json & team/bob/usage.json -> "alice" & "bob"
+function getGlobLabels(files: string[]): string[] {
+  const segments = files.map((file) => {
+    const parts = file.split("/");
+    parts[parts.length - 1] = path.basename(file, path.extname(file));
+    return parts;
+  });
+  const shortest = Math.min(...segments.map((parts) => parts.length));
+  const isShared = (index: (parts: string[]) => string) =>
+    segments.every((parts) => index(parts) === index(segments[0]));
+
+  let prefix = 0;
+  while (prefix < shortest - 1 && isShared((parts) => parts[prefix])) prefix++;
+  let suffix = 0;
+  while (
+    suffix < shortest - prefix - 1 &&
+    isShared((parts) => parts[parts.length - 1 - suffix])
+  ) {
+    suffix++;
+  }
+  return segments.map((parts) => parts.slice(prefix, parts.length - suffix).join("/"));
+}
+
+// * resolve --input values ("<label>=<path>", "<path>" or glob) to labeled ccusage JSON files
+export async function resolveCcusageInputs(values: string[]): Promise<CcusageInput[]> {
+  const inputs: CcusageInput[] = [];
+  const fileLabel = (file: string) => path.basename(file, path.extname(file));
+
+  for (const value of values) {
+    const match = value.match(/^([^=/\\]+)=(.+)$/);
+    const label = match?.[1].trim();
+    const target = match ? match[2] : value;
+
+    if (/[*?]/.test(target)) {
+      const files = await expandGlob(target);
+      if (files.length === 0) {
+        throw new Error(`No files match --input ${target}`);
+      }
+      // a label names the whole glob (prefixes each match when there are several)
+      const labels = getGlobLabels(files).map((match) =>
+        !label ? match : files.length > 1 ? `${label}/${match}` : label
+      );
+      inputs.push(...files.map((file, i) => ({ label: labels[i], path: file })));
+    } else {
+      inputs.push({ label: label || fileLabel(target), path: target });
+    }
+  }
+
+  const seen = new Set<string>();
+  for (const input of inputs) {
+    if (seen.has(input.label)) {
+      throw new Error(`Duplicate --input label "${input.label}" (use <label>=<path> to rename)`);
+    }
+    seen.add(input.label);
+  }
+  return inputs;
+}
+
+// convert ccusage billing block to entry keyed by block start (gaps are dropped by caller)
+function blockToEntry(block: BlockEntry): DailyEntry {
+  const tokens = block.tokenCounts;
+  return {
+    date: block.startTime,
+    inputTokens: tokens.inputTokens,
+    outputTokens: tokens.outputTokens,
+    cacheCreationTokens: tokens.cacheCreationInputTokens,
+    cacheReadTokens: tokens.cacheReadInputTokens,
+    totalTokens: block.totalTokens,
+    totalCost: block.costUSD,
+    modelsUsed: block.models,
+    modelBreakdowns: [],
+    endTime: block.actualEndTime ?? block.endTime,
+    isActive: block.isActive,
+  };
+}
+
+// * parse ccusage JSON of any supported view into daily-shaped output (`date` = period key)
+export function parseCcusageOutput(json: unknown): CcusageDailyOutput | null {
+  if (typeof json !== "object" || json === null) return null;
+
+  if ("daily" in json) {
+    const parsed = CcusageDailyOutputSchema.safeParse(json);
+    return parsed.success ? parsed.data : null;
+  }
+
+  if ("weekly" in json) {
+    const parsed = CcusageWeeklyOutputSchema.safeParse(json);
+    if (!parsed.success) return null;
+    const daily = parsed.data.weekly.map(({ week, ...entry }) => ({ date: week, ...entry }));
+    return { daily, totals: parsed.data.totals, view: "weekly" };
+  }
+
+  if ("monthly" in json) {
+    const parsed = CcusageMonthlyOutputSchema.safeParse(json);
+    if (!parsed.success) return null;
+    const daily = parsed.data.monthly.map(({ month, ...entry }) => ({ date: month, ...entry }));
+    return { daily, totals: parsed.data.totals, view: "monthly" };
+  }
+
+  if ("sessions" in json) {
+    const parsed = CcusageSessionOutputSchema.safeParse(json);
+    if (!parsed.success) return null;
+    const daily = parsed.data.sessions.map(({ sessionId, ...entry }) => ({
+      date: sessionId,
+      ...entry,
+    }));
+    return { daily, totals: parsed.data.totals, view: "session" };
+  }
+
+  if ("blocks" in json) {
+    const parsed = CcusageBlocksOutputSchema.safeParse(json);
+    if (!parsed.success) return null;
+    // ccusage reports no totals for blocks
+    const daily = parsed.data.blocks.filter((block) => !block.isGap).map(blockToEntry);
+    return { daily, totals: calculateTotals(daily), view: "blocks" };
+  }
+
+  return null;
+}
+
+// get sort key for entry (sessions by last activity, everything else by period)
+function getSortKey(entry: DailyEntry): string {
+  return entry.lastActivity ?? entry.date;
+}
+
 // merge model breakdowns from multiple sources
 function mergeModelBreakdowns(breakdowns: ModelBreakdown[]): ModelBreakdown[] {
   const byModel = new Map<string, ModelBreakdown>();
@@ -108,7 +282,21 @@ function mergeModelBreakdowns(breakdowns: ModelBreakdown[]): ModelBreakdown[] {
   return Array.from(byModel.values()).sort((a, b) => b.cost - a.cost);
 }
 
-// * merge daily entries from multiple sources (keep separate to show source info)
+// * sum model breakdowns across entries w/ each model's share of total cost
+export function getModelTotals(entries: DailyEntry[]): ModelTotal[] {
+  const merged = mergeModelBreakdowns(entries.flatMap((entry) => entry.modelBreakdowns));
+  const totalCost = merged.reduce((sum, model) => sum + model.cost, 0);
+
+  return merged.map((model) => ({
+    ...model,
+    totalTokens:
+      model.inputTokens + model.outputTokens + model.cacheCreationTokens + model.cacheReadTokens,
+    costShare: totalCost > 0 ? model.cost / totalCost : 0,
+  }));
+}
+
+// * merge entries from multiple sources (keep separate to show source info)
+// all reports must share one view; the first report's view is used
 export function mergeDailyReports(
   reports: { data: CcusageDailyOutput; source: string }[]
 ): MergedDailyOutput {
@@ -125,36 +313,46 @@ export function mergeDailyReports(
     }
   }
 
-  // sort by date descending (most recent first)
-  allEntries.sort((a, b) => b.date.localeCompare(a.date));
-
-  // calculate combined totals
-  const totals: Totals = {
-    inputTokens: 0,
-    outputTokens: 0,
-    cacheCreationTokens: 0,
-    cacheReadTokens: 0,
-    totalTokens: 0,
-    totalCost: 0,
-  };
-
-  for (const entry of allEntries) {
-    totals.inputTokens += entry.inputTokens;
-    totals.outputTokens += entry.outputTokens;
-    totals.cacheCreationTokens += entry.cacheCreationTokens;
-    totals.cacheReadTokens += entry.cacheReadTokens;
-    totals.totalTokens += entry.totalTokens;
-    totals.totalCost += entry.totalCost;
-  }
+  // sort by period descending (most recent first)
+  allEntries.sort((a, b) => getSortKey(b).localeCompare(getSortKey(a)));
 
   return {
     daily: allEntries,
-    totals,
+    totals: calculateTotals(allEntries),
     sources,
+    view: reports[0]?.data.view ?? "daily",
   };
 }
 
-// merge daily entries aggregated by date (combines entries w/ same date)
+// add entry tokens & cost to source's usage
+function addSourceUsage(
+  usage: Map<string, SourceUsage>,
+  source: string,
+  entry: { totalTokens: number; totalCost: number }
+): void {
+  const existing = usage.get(source) ?? {
+    source,
+    totalTokens: 0,
+    totalCost: 0,
+    costShare: 0,
+  };
+  existing.totalTokens += entry.totalTokens;
+  existing.totalCost += entry.totalCost;
+  usage.set(source, existing);
+}
+
+// fill in cost shares (relative to summed cost of all sources)
+function withCostShares(usage: Map<string, SourceUsage>): SourceUsage[] {
+  const sources = Array.from(usage.values());
+  const totalCost = sources.reduce((sum, item) => sum + item.totalCost, 0);
+  return sources.map((item) => ({
+    ...item,
+    costShare: totalCost > 0 ? item.totalCost / totalCost : 0,
+  }));
+}
+
+// merge entries aggregated by period (combines entries w/ same date, week, month, session or block)
+// each entry keeps per-source tokens, cost & cost share in `sourceUsage`
 export function mergeDailyReportsAggregated(
   reports: { data: CcusageDailyOutput; source: string }[]
 ): MergedDailyOutput {
@@ -162,14 +360,16 @@ export function mergeDailyReportsAggregated(
     string,
     {
       entry: DailyEntry;
-      sources: Set<string>;
+      sources: Map<string, SourceUsage>;
     }
   >();
   const sources: string[] = [];
+  const sourceTotals = new Map<string, SourceUsage>();
 
   for (const { data, source } of reports) {
     sources.push(source);
     for (const entry of data.daily) {
+      addSourceUsage(sourceTotals, source, entry);
       const existing = byDate.get(entry.date);
       if (existing) {
         // aggregate entry
@@ -186,54 +386,40 @@ export function mergeDailyReportsAggregated(
           ...existing.entry.modelBreakdowns,
           ...entry.modelBreakdowns,
         ]);
-        existing.sources.add(source);
+        if (entry.lastActivity && entry.lastActivity > (existing.entry.lastActivity ?? "")) {
+          existing.entry.lastActivity = entry.lastActivity;
+        }
+        addSourceUsage(existing.sources, source, entry);
       } else {
+        const entrySources = new Map<string, SourceUsage>();
+        addSourceUsage(entrySources, source, entry);
         byDate.set(entry.date, {
           entry: { ...entry },
-          sources: new Set([source]),
+          sources: entrySources,
         });
       }
     }
   }
 
   // convert to array & add source info
-  const allEntries: DailyEntry[] = [];
+  const allEntries: MergedEntry[] = [];
   for (const [, { entry, sources: entrySources }] of byDate) {
     allEntries.push({
       ...entry,
-      source:
-        entrySources.size > 1
-          ? Array.from(entrySources).join(" + ")
-          : Array.from(entrySources)[0],
+      source: Array.from(entrySources.keys()).join(" + "),
+      sourceUsage: withCostShares(entrySources),
     });
   }
 
-  // sort by date descending
-  allEntries.sort((a, b) => b.date.localeCompare(a.date));
-
-  // calculate combined totals
-  const totals: Totals = {
-    inputTokens: 0,
-    outputTokens: 0,
-    cacheCreationTokens: 0,
-    cacheReadTokens: 0,
-    totalTokens: 0,
-    totalCost: 0,
-  };
-
-  for (const entry of allEntries) {
-    totals.inputTokens += entry.inputTokens;
-    totals.outputTokens += entry.outputTokens;
-    totals.cacheCreationTokens += entry.cacheCreationTokens;
-    totals.cacheReadTokens += entry.cacheReadTokens;
-    totals.totalTokens += entry.totalTokens;
-    totals.totalCost += entry.totalCost;
-  }
+  // sort by period descending
+  allEntries.sort((a, b) => getSortKey(b).localeCompare(getSortKey(a)));
 
   return {
     daily: allEntries,
-    totals,
+    totals: calculateTotals(allEntries),
     sources: [...new Set(sources)],
+    view: reports[0]?.data.view ?? "daily",
+    sourceTotals: withCostShares(sourceTotals),
   };
 }
 
@@ -259,49 +445,262 @@ function formatModelsDisplay(models: string[], maxLength?: number): string {
   return joined;
 }
 
+// short names for built-in sources
+const SOURCE_ALIASES: Record<string, string> = {
+  "Claude Code": "Claude",
+  OpenCode: "OC",
+};
+
+// max compact source label length
+const COMPACT_LABEL_LENGTH = 10;
+
+// compact arbitrary label: first word + initials of the rest ("alice.smith" -> "aliceS")
+function compactLabel(label: string): string {
+  if (label.length <= COMPACT_LABEL_LENGTH) return label;
+
+  const words = label
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .split(/[\s._-]+/)
+    .filter(Boolean);
+  if (words.length > 1) {
+    const initials = words
+      .slice(1)
+      .map((word) => word[0].toUpperCase())
+      .join("")
+      .slice(0, 3);
+    return words[0].slice(0, COMPACT_LABEL_LENGTH - initials.length) + initials;
+  }
+  return label.slice(0, COMPACT_LABEL_LENGTH - 3) + "...";
+}
+
 // format source label w/ optional shortening for compact mode
-function formatSourceLabel(source: string, compact: boolean): string {
+export function formatSourceLabel(source: string, compact: boolean): string {
   if (!compact) return source;
 
-  // shorten labels for narrow terminals
-  switch (source) {
-    case "Claude Code":
-      return "Claude";
-    case "OpenCode":
-      return "OC";
-    case "Claude Code + OpenCode":
-      return "Claude+OC";
+  // shorten labels for narrow terminals (merged sources as "A+B")
+  return source
+    .split(" + ")
+    .map((part) => SOURCE_ALIASES[part] ?? compactLabel(part))
+    .join("+");
+}
+
+// report title & period column heading for each view
+const VIEW_LABELS: Record<CcusageView, { title: string; column: string }> = {
+  daily: { title: "Combined Usage Report", column: "Date" },
+  weekly: { title: "Combined Weekly Usage Report", column: "Week" },
+  monthly: { title: "Combined Monthly Usage Report", column: "Month" },
+  session: { title: "Combined Session Usage Report", column: "Session" },
+  blocks: { title: "Combined Billing Blocks Report", column: "Block Start" },
+};
+
+// format ISO timestamp as local "YYYY-MM-DD HH:MM" (block start/end)
+function formatBlockTime(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return iso;
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  );
+}
+
+// format period column value for view (long session IDs are shortened)
+function formatPeriod(entry: DailyEntry, view: CcusageView, compact: boolean): string {
+  switch (view) {
+    case "blocks":
+      return formatBlockTime(entry.date);
+    case "session": {
+      const maxLength = compact ? 16 : 32;
+      return entry.date.length > maxLength
+        ? entry.date.slice(0, maxLength - 3) + "..."
+        : entry.date;
+    }
     default:
-      return source.length > 10 ? source.slice(0, 7) + "..." : source;
+      return entry.date;
+  }
+}
+
+// view-specific extra column (session last activity, block end/status) for full table
+function getDetailColumn(
+  view: CcusageView
+): { head: string; value: (entry: DailyEntry) => string } | undefined {
+  switch (view) {
+    case "session":
+      return { head: "Last Activity", value: (entry) => entry.lastActivity ?? "" };
+    case "blocks":
+      return {
+        head: "Block End",
+        value: (entry) =>
+          entry.isActive ? "ACTIVE" : entry.endTime ? formatBlockTime(entry.endTime) : "",
+      };
+    default:
+      return undefined;
   }
 }
 
 const colors = {
   cyan: "\x1b[36m",
   yellow: "\x1b[33m",
+  gray: "\x1b[90m",
+  red: "\x1b[31m",
   reset: "\x1b[0m",
   bold: "\x1b[1m",
 };
 
-// * render merged output as table using cli-table3
+// color text red for days over a daily budget
+function highlightOver(text: string, over: boolean): string {
+  return over ? `${colors.red}${text}${colors.reset}` : text;
+}
+
+// format cost share as percentage
+function formatShare(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
+
+// render model totals section (--breakdown)
+function renderModelTotals(models: ModelTotal[], compact: boolean): string {
+  const head = compact
+    ? ["Model", "Total", "Cost", "Share"]
+    : ["Model", "Input", "Output", "Cache Create", "Cache Read", "Total", "Cost", "Share"];
+  const table = new Table({
+    head: head.map((label) => `${colors.cyan}${label}${colors.reset}`),
+    colAligns: ["left", ...head.slice(1).map(() => "right" as const)],
+  });
+
+  for (const model of models) {
+    const tokens = compact
+      ? [formatNumber(model.totalTokens)]
+      : [
+          formatNumber(model.inputTokens),
+          formatNumber(model.outputTokens),
+          formatNumber(model.cacheCreationTokens),
+          formatNumber(model.cacheReadTokens),
+          formatNumber(model.totalTokens),
+        ];
+    table.push([
+      formatModelName(model.modelName),
+      ...tokens,
+      formatCurrency(model.cost),
+      formatShare(model.costShare),
+    ]);
+  }
+
+  return `${colors.bold}Models${colors.reset}\n\n${table.toString()}`;
+}
+
+// format per-source cost shares, largest first (e.g. "Claude 66.7%, OC 33.3%")
+function formatSourceShares(usage: SourceUsage[] = []): string {
+  return [...usage]
+    .sort((a, b) => b.costShare - a.costShare)
+    .map((item) => `${formatSourceLabel(item.source, true)} ${formatShare(item.costShare)}`)
+    .join(", ");
+}
+
+// render aggregated table - one row per period w/ per-source tokens & cost + cost share
+function renderAggregatedTable(
+  output: MergedDailyOutput,
+  compact: boolean,
+  breakdown: boolean
+): string {
+  const view = output.view ?? "daily";
+  const sourceHead = output.sources.flatMap((source) => {
+    const label = formatSourceLabel(source, true);
+    return compact ? [`${label} Cost`] : [`${label} Tokens`, `${label} Cost`];
+  });
+  const head = [
+    VIEW_LABELS[view].column,
+    ...(compact ? [] : ["Models"]),
+    ...sourceHead,
+    ...(compact ? [] : ["Total"]),
+    "Cost",
+    "Share",
+  ];
+  const leftColumns = compact ? 1 : 2;
+  const table = new Table({
+    head: head.map((label) => `${colors.cyan}${label}${colors.reset}`),
+    colAligns: head.map((_, i) =>
+      i < leftColumns || i === head.length - 1 ? ("left" as const) : ("right" as const)
+    ),
+  });
+
+  // per-source cells (missing source = "-")
+  const sourceCells = (usage: SourceUsage[] = []): string[] =>
+    output.sources.flatMap((source) => {
+      const item = usage.find((u) => u.source === source);
+      const cost = item ? formatCurrency(item.totalCost) : "-";
+      return compact ? [cost] : [item ? formatNumber(item.totalTokens) : "-", cost];
+    });
+
+  for (const entry of output.daily) {
+    const over = isOverBudget(entry, output.budget);
+    table.push([
+      highlightOver(formatPeriod(entry, view, compact), over),
+      ...(compact ? [] : [formatModelsDisplay(entry.modelsUsed, 20)]),
+      ...sourceCells(entry.sourceUsage),
+      ...(compact ? [] : [formatNumber(entry.totalTokens)]),
+      highlightOver(formatCurrency(entry.totalCost), over),
+      formatSourceShares(entry.sourceUsage),
+    ]);
+
+    if (breakdown) {
+      for (const model of entry.modelBreakdowns) {
+        const label = `└─ ${formatModelName(model.modelName)}`;
+        const tokens =
+          model.inputTokens + model.outputTokens + model.cacheCreationTokens + model.cacheReadTokens;
+        table.push(
+          [
+            compact ? label : "",
+            ...(compact ? [] : [label]),
+            ...sourceHead.map(() => ""),
+            ...(compact ? [] : [formatNumber(tokens)]),
+            formatCurrency(model.cost),
+            "",
+          ].map((cell) => `${colors.gray}${cell}${colors.reset}`)
+        );
+      }
+    }
+  }
+
+  // totals row
+  table.push(
+    [
+      "Total",
+      ...(compact ? [] : [""]),
+      ...sourceCells(output.sourceTotals),
+      ...(compact ? [] : [formatNumber(output.totals.totalTokens)]),
+      formatCurrency(output.totals.totalCost),
+      formatSourceShares(output.sourceTotals),
+    ].map((cell) => (cell ? `${colors.yellow}${cell}${colors.reset}` : cell))
+  );
+
+  return table.toString();
+}
+
+// * render merged output as table using cli-table3 (breakdown adds per-model sub-rows & totals)
+// aggregated output (w/ sourceTotals) gets per-source columns instead of a Source column
 export function renderMergedTable(
   output: MergedDailyOutput,
-  compact = false
+  compact = false,
+  breakdown = false
 ): string {
   const lines: string[] = [];
+  const view = output.view ?? "daily";
+  const labels = VIEW_LABELS[view];
 
   // header
   lines.push("");
   lines.push(
-    `${colors.bold}Combined Usage Report${colors.reset} (${output.sources.join(" + ")})`
+    `${colors.bold}${labels.title}${colors.reset} (${output.sources.join(" + ")})`
   );
   lines.push("");
 
-  if (compact) {
+  if (output.sourceTotals) {
+    lines.push(renderAggregatedTable(output, compact, breakdown));
+  } else if (compact) {
     // compact table - fewer columns
     const table = new Table({
       head: [
-        `${colors.cyan}Date${colors.reset}`,
+        `${colors.cyan}${labels.column}${colors.reset}`,
         `${colors.cyan}Source${colors.reset}`,
         `${colors.cyan}Input${colors.reset}`,
         `${colors.cyan}Output${colors.reset}`,
@@ -312,13 +711,28 @@ export function renderMergedTable(
 
     // data rows
     for (const entry of output.daily) {
+      const over = isOverBudget(entry, output.budget);
       table.push([
-        entry.date,
+        highlightOver(formatPeriod(entry, view, true), over),
         formatSourceLabel(entry.source ?? "unknown", true),
         formatNumber(entry.inputTokens),
         formatNumber(entry.outputTokens),
-        formatCurrency(entry.totalCost),
+        highlightOver(formatCurrency(entry.totalCost), over),
       ]);
+
+      if (breakdown) {
+        for (const model of entry.modelBreakdowns) {
+          table.push(
+            [
+              "",
+              `└─ ${formatModelName(model.modelName)}`,
+              formatNumber(model.inputTokens),
+              formatNumber(model.outputTokens),
+              formatCurrency(model.cost),
+            ].map((cell) => `${colors.gray}${cell}${colors.reset}`)
+          );
+        }
+      }
     }
 
     // totals row
@@ -332,10 +746,12 @@ export function renderMergedTable(
 
     lines.push(table.toString());
   } else {
-    // full table - all columns
+    // full table - all columns (+ view-specific detail column after period)
+    const detail = getDetailColumn(view);
     const table = new Table({
       head: [
-        `${colors.cyan}Date${colors.reset}`,
+        `${colors.cyan}${labels.column}${colors.reset}`,
+        ...(detail ? [`${colors.cyan}${detail.head}${colors.reset}`] : []),
         `${colors.cyan}Source${colors.reset}`,
         `${colors.cyan}Models${colors.reset}`,
         `${colors.cyan}Input${colors.reset}`,
@@ -347,6 +763,7 @@ export function renderMergedTable(
       ],
       colAligns: [
         "left",
+        ...(detail ? (["left"] as const) : []),
         "left",
         "left",
         "right",
@@ -360,8 +777,10 @@ export function renderMergedTable(
 
     // data rows
     for (const entry of output.daily) {
+      const over = isOverBudget(entry, output.budget);
       table.push([
-        entry.date,
+        highlightOver(formatPeriod(entry, view, false), over),
+        ...(detail ? [detail.value(entry)] : []),
         formatSourceLabel(entry.source ?? "unknown", false),
         formatModelsDisplay(entry.modelsUsed, 20),
         formatNumber(entry.inputTokens),
@@ -369,13 +788,38 @@ export function renderMergedTable(
         formatNumber(entry.cacheCreationTokens),
         formatNumber(entry.cacheReadTokens),
         formatNumber(entry.totalTokens),
-        formatCurrency(entry.totalCost),
+        highlightOver(formatCurrency(entry.totalCost), over),
       ]);
+
+      if (breakdown) {
+        for (const model of entry.modelBreakdowns) {
+          table.push(
+            [
+              "",
+              ...(detail ? [""] : []),
+              "",
+              `└─ ${formatModelName(model.modelName)}`,
+              formatNumber(model.inputTokens),
+              formatNumber(model.outputTokens),
+              formatNumber(model.cacheCreationTokens),
+              formatNumber(model.cacheReadTokens),
+              formatNumber(
+                model.inputTokens +
+                  model.outputTokens +
+                  model.cacheCreationTokens +
+                  model.cacheReadTokens
+              ),
+              formatCurrency(model.cost),
+            ].map((cell) => `${colors.gray}${cell}${colors.reset}`)
+          );
+        }
+      }
     }
 
     // totals row
     table.push([
       `${colors.yellow}Total${colors.reset}`,
+      ...(detail ? [""] : []),
       "",
       "",
       `${colors.yellow}${formatNumber(output.totals.inputTokens)}${colors.reset}`,
@@ -389,11 +833,207 @@ export function renderMergedTable(
     lines.push(table.toString());
   }
 
+  // model totals section (blocks output has no per-model data)
+  if (breakdown) {
+    const models = output.models ?? getModelTotals(output.daily);
+    if (models.length > 0) {
+      lines.push("");
+      lines.push(renderModelTotals(models, compact));
+    }
+  }
+
   lines.push("");
 
   return lines.join("\n");
 }
 
+// report title w/ sources (e.g. "Combined Monthly Usage Report (Claude Code + OpenCode)")
+export function getReportTitle(output: MergedDailyOutput): string {
+  return `${VIEW_LABELS[output.view ?? "daily"].title} (${output.sources.join(" + ")})`;
+}
+
+// per-model sub-rows for entry (token & cost columns filled via callback)
+function buildModelRows(
+  entry: DailyEntry,
+  cells: (model: ModelBreakdown, tokens: number) => ReportCell[]
+): ReportRow[] {
+  return entry.modelBreakdowns.map((model) => ({
+    cells: cells(
+      model,
+      model.inputTokens + model.outputTokens + model.cacheCreationTokens + model.cacheReadTokens
+    ),
+    model: true,
+  }));
+}
+
+// * build format-neutral rows for merged output (same columns as the full terminal table)
+// aggregated output gets per-source tokens, cost & share columns instead of Source
+export function buildReportGrid(output: MergedDailyOutput, breakdown = false): ReportGrid {
+  const view = output.view ?? "daily";
+  const period: ReportColumn = { head: VIEW_LABELS[view].column, kind: "text" };
+  const rows: ReportRow[] = [];
+
+  if (output.sourceTotals) {
+    const sourceColumns = output.sources.flatMap((source): ReportColumn[] => [
+      { head: `${source} Tokens`, kind: "tokens" },
+      { head: `${source} Cost`, kind: "cost" },
+      { head: `${source} Share`, kind: "share" },
+    ]);
+    const sourceCells = (usage: SourceUsage[] = []): ReportCell[] =>
+      output.sources.flatMap((source) => {
+        const item = usage.find((u) => u.source === source);
+        return item ? [item.totalTokens, item.totalCost, item.costShare] : [null, null, null];
+      });
+    const emptySources = output.sources.flatMap(() => [null, null, null]);
+
+    for (const entry of output.daily) {
+      rows.push({
+        overBudget: isOverBudget(entry, output.budget),
+        cells: [
+          formatPeriod(entry, view, false),
+          formatModelsDisplay(entry.modelsUsed),
+          ...sourceCells(entry.sourceUsage),
+          entry.totalTokens,
+          entry.totalCost,
+        ],
+      });
+      if (breakdown) {
+        rows.push(
+          ...buildModelRows(entry, (model, tokens) => [
+            "",
+            formatModelName(model.modelName),
+            ...emptySources,
+            tokens,
+            model.cost,
+          ])
+        );
+      }
+    }
+
+    return {
+      columns: [
+        period,
+        { head: "Models", kind: "text" },
+        ...sourceColumns,
+        { head: "Total", kind: "tokens" },
+        { head: "Cost", kind: "cost" },
+      ],
+      rows,
+      totals: [
+        "Total",
+        "",
+        ...sourceCells(output.sourceTotals),
+        output.totals.totalTokens,
+        output.totals.totalCost,
+      ],
+    };
+  }
+
+  const detail = getDetailColumn(view);
+  for (const entry of output.daily) {
+    rows.push({
+      overBudget: isOverBudget(entry, output.budget),
+      cells: [
+        formatPeriod(entry, view, false),
+        ...(detail ? [detail.value(entry)] : []),
+        entry.source ?? "unknown",
+        formatModelsDisplay(entry.modelsUsed),
+        entry.inputTokens,
+        entry.outputTokens,
+        entry.cacheCreationTokens,
+        entry.cacheReadTokens,
+        entry.totalTokens,
+        entry.totalCost,
+      ],
+    });
+    if (breakdown) {
+      rows.push(
+        ...buildModelRows(entry, (model, tokens) => [
+          "",
+          ...(detail ? [""] : []),
+          "",
+          formatModelName(model.modelName),
+          model.inputTokens,
+          model.outputTokens,
+          model.cacheCreationTokens,
+          model.cacheReadTokens,
+          tokens,
+          model.cost,
+        ])
+      );
+    }
+  }
+
+  const totals = output.totals;
+  return {
+    columns: [
+      period,
+      ...(detail ? [{ head: detail.head, kind: "text" as const }] : []),
+      { head: "Source", kind: "text" },
+      { head: "Models", kind: "text" },
+      { head: "Input", kind: "tokens" },
+      { head: "Output", kind: "tokens" },
+      { head: "Cache Create", kind: "tokens" },
+      { head: "Cache Read", kind: "tokens" },
+      { head: "Total", kind: "tokens" },
+      { head: "Cost", kind: "cost" },
+    ],
+    rows,
+    totals: [
+      "Total",
+      ...(detail ? [""] : []),
+      "",
+      "",
+      totals.inputTokens,
+      totals.outputTokens,
+      totals.cacheCreationTokens,
+      totals.cacheReadTokens,
+      totals.totalTokens,
+      totals.totalCost,
+    ],
+  };
+}
+
+// build format-neutral model totals section (--breakdown)
+export function buildModelGrid(models: ModelTotal[]): ReportGrid {
+  const sum = (pick: (model: ModelTotal) => number): number =>
+    models.reduce((total, model) => total + pick(model), 0);
+  return {
+    columns: [
+      { head: "Model", kind: "text" },
+      { head: "Input", kind: "tokens" },
+      { head: "Output", kind: "tokens" },
+      { head: "Cache Create", kind: "tokens" },
+      { head: "Cache Read", kind: "tokens" },
+      { head: "Total", kind: "tokens" },
+      { head: "Cost", kind: "cost" },
+      { head: "Share", kind: "share" },
+    ],
+    rows: models.map((model) => ({
+      cells: [
+        formatModelName(model.modelName),
+        model.inputTokens,
+        model.outputTokens,
+        model.cacheCreationTokens,
+        model.cacheReadTokens,
+        model.totalTokens,
+        model.cost,
+        model.costShare,
+      ],
+    })),
+    totals: [
+      "Total",
+      sum((m) => m.inputTokens),
+      sum((m) => m.outputTokens),
+      sum((m) => m.cacheCreationTokens),
+      sum((m) => m.cacheReadTokens),
+      sum((m) => m.totalTokens),
+      sum((m) => m.cost),
+      models.length > 0 ? 1 : 0,
+    ],
+  };
+}
+
 // render merged output as compact table (convenience wrapper)
 export function renderMergedTableCompact(output: MergedDailyOutput): string {
   return renderMergedTable(output, true);
@@ -0,0 +1,53 @@
+// src/commands/config.ts
+// config command - shows effective settings & where each value came from
+
+import { Command } from "commander";
+import {
+  getCliSettings,
+  loadConfigFile,
+  renderResolvedSettings,
+  resolveSettings,
+} from "../config.js";
+import { collect, getErrorMessage } from "../utils.js";
+
+// setting flags have no defaults here, so unset ones show their env, profile or default origin
+export const configCommand = new Command("config")
+  .description("Show effective settings (flags > env > config profile > defaults) & their source")
+  .option("--out <dir>", "Output directory")
+  .option("--group-by <strategy>", "Group output files: flat, project, or directory")
+  .option(
+    "--opencode-dir <[label=]path>",
+    "OpenCode data directory, repeatable w/ optional label",
+    collect
+  )
+  .option("--since <value>", "Only export sessions after cutoff (ISO date or number of days)")
+  .option("-c, --concurrency <number>", "Number of parallel exports", (val) =>
+    parseInt(val, 10)
+  )
+  .option("--include-reasoning-in-output", "Fold reasoning tokens into output_tokens")
+  .option("--no-include-reasoning-in-output", "Exclude reasoning tokens from output_tokens")
+  .option("--cost-mode <mode>", "Write OpenCode's recorded cost: auto, opencode, or calculate")
+  .option("--granularity <level>", "Usage lines per assistant message or per step")
+  .option("--source <type>", "Read sessions from: auto, storage, or cli")
+  .option("--profile <name>", "Settings profile from the config file")
+  .option(
+    "--config <file>",
+    "Config file w/ settings profiles (default: ~/.config/opencode-to-ccusage/config.json)"
+  )
+  .option("--json", "Print settings & their sources as JSON", false)
+  .action(async (opts, command: Command) => {
+    try {
+      const config = await loadConfigFile(opts.config);
+      const resolved = resolveSettings({
+        cli: getCliSettings(command),
+        config,
+        profile: opts.profile,
+      });
+      console.log(
+        opts.json ? JSON.stringify(resolved, null, 2) : renderResolvedSettings(resolved)
+      );
+    } catch (err) {
+      console.error(`Error: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,94 @@
+// src/commands/convert.ts
+// convert command - converts saved `opencode export` JSON files offline
+
+import { Command } from "commander";
+import {
+  COST_MODE_CHOICES,
+  GRANULARITY_CHOICES,
+  GROUP_BY_CHOICES,
+  OPENCODE_CONFIG_DIR,
+} from "../constants.js";
+import { readConvertInputs, runConvert, STDIN_INPUT } from "../convert-runner.js";
+import { createExportOptions, printSummary } from "../exporter.js";
+import { getErrorMessage, parseChoiceOrExit, pluralize } from "../utils.js";
+
+export const convertCommand = new Command("convert")
+  .description("Convert saved `opencode export` JSON files to ccusage-compatible JSONL")
+  .argument(
+    "[inputs...]",
+    `Export JSON files or directories of them ("${STDIN_INPUT}" or none to read stdin)`
+  )
+  .option(
+    "--out <dir>",
+    "Output directory (default: ~/.config/claude-opencode)",
+    OPENCODE_CONFIG_DIR
+  )
+  .option(
+    "--group-by <strategy>",
+    "Group output files: flat (default), project, or directory",
+    "flat"
+  )
+  .option(
+    "--no-include-reasoning-in-output",
+    "Exclude reasoning tokens from output_tokens"
+  )
+  .option(
+    "--cost-mode <mode>",
+    "Write OpenCode's recorded cost: auto (when recorded), opencode (always), or calculate (never)",
+    "auto"
+  )
+  .option(
+    "--granularity <level>",
+    "Usage lines per assistant message (default) or per step (model call): message or step",
+    "message"
+  )
+  .option("--skip-validation", "Skip schema validation for faster processing", false)
+  .option("--dry-run", "Preview without writing files", false)
+  .option("-v, --verbose", "Show detailed progress", false)
+  .action(async (inputs: string[], opts) => {
+    // validate choice options
+    const groupBy = parseChoiceOrExit("--group-by", opts.groupBy, GROUP_BY_CHOICES);
+    const costMode = parseChoiceOrExit("--cost-mode", opts.costMode, COST_MODE_CHOICES);
+    const granularity = parseChoiceOrExit("--granularity", opts.granularity, GRANULARITY_CHOICES);
+
+    // default to stdin when piped
+    if (inputs.length === 0) {
+      if (process.stdin.isTTY) {
+        console.error(
+          `Error: No input files given. Pass export JSON files, a directory, or "${STDIN_INPUT}" for stdin.`
+        );
+        process.exit(1);
+      }
+      inputs = [STDIN_INPUT];
+    }
+
+    const exportOptions = createExportOptions(opts.out, {
+      groupBy,
+      costMode,
+      granularity,
+      includeReasoningInOutput: opts.includeReasoningInOutput,
+      skipValidation: opts.skipValidation,
+      dryRun: opts.dryRun,
+      verbose: opts.verbose,
+    });
+
+    try {
+      const convertInputs = await readConvertInputs(inputs);
+      const stats = await runConvert(convertInputs, exportOptions);
+
+      if (opts.verbose || stats.errors.length > 0) {
+        printSummary(stats);
+      } else if (stats.sessionsExported > 0) {
+        console.log(`Converted ${pluralize(stats.sessionsExported, "session")} to ${opts.out}`);
+      } else {
+        console.log("No sessions converted.");
+      }
+
+      if (stats.errors.length > 0) {
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(`Error: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,56 @@
+// src/commands/doctor.ts
+// doctor command - checks OpenCode, Claude Code, ccusage & export setup
+
+import { Command } from "commander";
+import { resolveCommandSettingsOrExit } from "../config.js";
+import { OPENCODE_CONFIG_DIR } from "../constants.js";
+import { renderDoctorReport, runDoctor } from "../doctor.js";
+import { collect, getErrorMessage, resolveOpenCodeDirOptions, warn } from "../utils.js";
+
+export const doctorCommand = new Command("doctor")
+  .description("Diagnose why usage is missing: OpenCode storage, sessions, Claude dirs & ccusage")
+  .option(
+    "--opencode-dir <[label=]path>",
+    "OpenCode data directory (default: auto-detected; only the first is checked)",
+    collect
+  )
+  .option(
+    "--out <dir>",
+    "Export directory ccusage reads (default: ~/.config/claude-opencode)",
+    OPENCODE_CONFIG_DIR
+  )
+  .option("--json", "Print checks as JSON", false)
+  .option("--profile <name>", "Settings profile from the config file")
+  .option(
+    "--config <file>",
+    "Config file w/ settings profiles (default: ~/.config/opencode-to-ccusage/config.json)"
+  )
+  .action(async (opts, command: Command) => {
+    // flags > env > config profile > defaults
+    const settings = await resolveCommandSettingsOrExit(command);
+    // OPENCODE_DATA_DIR is left to the storage check, so it is named as the reason
+    const fromEnv =
+      command.getOptionValueSource("opencodeDir") !== "cli" && !!process.env.OPENCODE_DATA_DIR;
+    const { openCodeDir, openCodeRoots } = resolveOpenCodeDirOptions(
+      fromEnv ? [] : settings.opencodeDir
+    );
+    if (openCodeRoots && openCodeRoots.length > 1) {
+      warn(`doctor checks one OpenCode data directory; using ${openCodeRoots[0].dir}`);
+    }
+
+    try {
+      const report = await runDoctor({
+        openCodeDir: openCodeDir ?? openCodeRoots?.[0].dir,
+        outDir: settings.out,
+      });
+      console.log(opts.json ? JSON.stringify(report, null, 2) : renderDoctorReport(report));
+
+      // failed checks exit non-zero (warnings don't)
+      if (report.summary.fail > 0) {
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(`Error: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+  });
@@ -2,9 +2,12 @@
 // export command - exports OpenCode sessions to ccusage-compatible JSONL
 
 import { Command } from "commander";
+import { getExportSettingsOrExit, resolveCommandSettingsOrExit } from "../config.js";
 import { OPENCODE_CONFIG_DIR } from "../constants.js";
 import { createExportOptions, printSummary, runExport } from "../exporter.js";
-import { getErrorMessage, parseSinceOrExit, pluralize } from "../utils.js";
+import type { ExportOptions } from "../types.js";
+import { collect, getErrorMessage, parseSinceOrExit, pluralize } from "../utils.js";
+import { DEFAULT_WATCH_DEBOUNCE_MS, watchExport } from "../watcher.js";
 
 export const exportCommand = new Command("export")
   .description("Export OpenCode sessions to ccusage-compatible JSONL format")
@@ -17,8 +20,23 @@ export const exportCommand = new Command("export")
     "--since <value>",
     "Only export sessions after cutoff (ISO date or number of days)"
   )
+  .option(
+    "--until <value>",
+    "Only export sessions created before cutoff (ISO date or number of days)"
+  )
+  .option("--project <id>", "Only export sessions of this OpenCode project ID")
+  .option("--directory <glob>", "Only export sessions whose directory matches glob")
+  .option("--title <regex>", "Only export sessions whose title matches regex (case-insensitive)")
+  .option("--model <glob>", "Only export messages whose model ID matches glob")
+  .option("--provider <glob>", "Only export messages whose provider ID matches glob")
+  .option(
+    "--opencode-dir <[label=]path>",
+    "OpenCode data directory, repeatable w/ optional label (default: auto-detected)",
+    collect
+  )
   .option("--dry-run", "Preview without writing files", false)
   .option("-v, --verbose", "Show detailed progress", false)
+  .option("--json", "Print structured result (stats & per-session records) as JSON", false)
   .option(
     "-c, --concurrency <number>",
     "Number of parallel exports (default: auto-detected based on CPU)",
@@ -26,7 +44,7 @@ export const exportCommand = new Command("export")
   )
   .option(
     "--incremental",
-    "Only re-export sessions updated since last export",
+    "Only re-export sessions changed since last export (per export manifest)",
     false
   )
   .option(
@@ -34,28 +52,75 @@ export const exportCommand = new Command("export")
     "Skip schema validation for faster processing",
     false
   )
-  .action(async (opts) => {
-    const since = parseSinceOrExit(opts.since);
+  .option(
+    "--source <type>",
+    "Read sessions from: auto (storage w/ CLI fallback), storage, or cli",
+    "auto"
+  )
+  .option(
+    "--cost-mode <mode>",
+    "Write OpenCode's recorded cost: auto (when recorded), opencode (always), or calculate (never)",
+    "auto"
+  )
+  .option(
+    "--granularity <level>",
+    "Usage lines per assistant message (default) or per step (model call): message or step",
+    "message"
+  )
+  .option("--prune", "Remove orphaned & duplicate session files after export", false)
+  .option("--profile <name>", "Settings profile from the config file")
+  .option(
+    "--config <file>",
+    "Config file w/ settings profiles (default: ~/.config/opencode-to-ccusage/config.json)"
+  )
+  .option("-w, --watch", "Keep running & re-export sessions as they change", false)
+  .option(
+    "--debounce <ms>",
+    `Delay before re-exporting a changed session in watch mode (default: ${DEFAULT_WATCH_DEBOUNCE_MS})`,
+    (val) => parseInt(val, 10)
+  )
+  .action(async (opts, command: Command) => {
+    // flags > env > config profile > defaults
+    const settings = await resolveCommandSettingsOrExit(command);
+    const outDir = settings.out;
+
+    if (opts.json && opts.watch) {
+      console.error("Error: --json cannot be combined with --watch");
+      process.exit(1);
+    }
+    if (opts.debounce !== undefined && !(Number.isInteger(opts.debounce) && opts.debounce > 0)) {
+      console.error("Error: --debounce must be a positive number of milliseconds");
+      process.exit(1);
+    }
 
-    const exportOptions = createExportOptions(opts.out, {
-      since,
+    const exportOptions = createExportOptions(outDir, {
+      ...getExportSettingsOrExit(settings),
+      until: parseSinceOrExit(opts.until, "--until"),
+      project: opts.project,
+      directory: opts.directory,
+      title: opts.title,
+      model: opts.model,
+      provider: opts.provider,
       dryRun: opts.dryRun,
-      verbose: opts.verbose,
-      concurrency: opts.concurrency,
+      verbose: opts.verbose && !opts.json,
+      quiet: opts.json,
       incremental: opts.incremental,
       skipValidation: opts.skipValidation,
+      prune: opts.prune,
     });
 
     try {
       const stats = await runExport(exportOptions);
 
-      // only print summary in verbose mode or if there were errors
-      if (opts.verbose || stats.errors.length > 0) {
+      // JSON result, otherwise summary only in verbose mode or if there were errors
+      if (opts.json) {
+        console.log(JSON.stringify(stats, null, 2));
+      } else if (opts.verbose || stats.errors.length > 0) {
         printSummary(stats);
       } else {
         // minimal output
         if (stats.sessionsExported > 0) {
-          console.log(`Exported ${pluralize(stats.sessionsExported, "session")} to ${opts.out}`);
+          console.log(`Exported ${pluralize(stats.sessionsExported, "session")} to ${outDir}`);
         } else if (stats.sessionsDiscovered === 0) {
           console.log("No sessions found.");
         } else {
@@ -63,11 +128,33 @@ export const exportCommand = new Command("export")
         }
       }
 
-      if (stats.errors.length > 0) {
+      if (stats.errors.length > 0 && !opts.watch) {
         process.exit(1);
       }
     } catch (err) {
       console.error(`Error: ${getErrorMessage(err)}`);
       process.exit(1);
     }
+
+    if (opts.watch) {
+      await startWatch(exportOptions, opts.debounce);
+    }
   });
+
+// watch storage until SIGINT, then exit cleanly
+async function startWatch(exportOptions: ExportOptions, debounceMs?: number): Promise<void> {
+  try {
+    const handle = await watchExport(exportOptions, { debounceMs });
+    console.log("Watching for OpenCode changes... (Ctrl+C to stop)");
+
+    process.once("SIGINT", () => {
+      void handle.close().then(() => {
+        console.log("\nStopped watching.");
+        process.exit(0);
+      });
+    });
+  } catch (err) {
+    console.error(`Error: ${getErrorMessage(err)}`);
+    process.exit(1);
+  }
+}
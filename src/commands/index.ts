@@ -1,5 +1,12 @@
 // src/commands/index.ts
 // export commands for CLI
 
+export { configCommand } from "./config.js";
+export { convertCommand } from "./convert.js";
+export { doctorCommand } from "./doctor.js";
 export { exportCommand } from "./export.js";
+export { pruneCommand } from "./prune.js";
 export { reportCommand } from "./report.js";
+export { sessionsCommand } from "./sessions.js";
+export { showCommand } from "./show.js";
+export { verifyCommand } from "./verify.js";
@@ -0,0 +1,106 @@
+// src/commands/prune.ts
+// prune command - removes orphaned & stale JSONL files from the export directory
+
+import { createInterface } from "node:readline/promises";
+import { Command } from "commander";
+import { resolveCommandSettingsOrExit } from "../config.js";
+import { GROUP_BY_CHOICES, OPENCODE_CONFIG_DIR } from "../constants.js";
+import { discoverSessions } from "../exporter.js";
+import { loadManifest } from "../manifest.js";
+import { applyPrune, formatPruneCandidate, planPrune } from "../pruner.js";
+import {
+  collect,
+  getErrorMessage,
+  parseChoiceOrExit,
+  pluralize,
+  resolveOpenCodeDirOptions,
+} from "../utils.js";
+
+// ask for y/N confirmation on the terminal
+async function confirm(question: string): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await rl.question(`${question} [y/N] `);
+    return /^y(es)?$/i.test(answer.trim());
+  } finally {
+    rl.close();
+  }
+}
+
+export const pruneCommand = new Command("prune")
+  .description("Remove orphaned & duplicate session files from the export directory")
+  .option(
+    "--out <dir>",
+    "Export directory to prune (default: ~/.config/claude-opencode)",
+    OPENCODE_CONFIG_DIR
+  )
+  .option(
+    "--opencode-dir <[label=]path>",
+    "OpenCode data directory, repeatable w/ optional label (default: auto-detected)",
+    collect
+  )
+  .option(
+    "--group-by <strategy>",
+    "Layout to keep when a session was exported to several subdirectories (default: flat)",
+    "flat"
+  )
+  .option("--dry-run", "List what would be removed without deleting anything", false)
+  .option("-y, --yes", "Skip confirmation prompt", false)
+  .option("-v, --verbose", "Show detailed progress", false)
+  .option("--profile <name>", "Settings profile from the config file")
+  .option(
+    "--config <file>",
+    "Config file w/ settings profiles (default: ~/.config/opencode-to-ccusage/config.json)"
+  )
+  .action(async (opts, command: Command) => {
+    const settings = await resolveCommandSettingsOrExit(command);
+    const groupBy = parseChoiceOrExit("--group-by", settings.groupBy, GROUP_BY_CHOICES);
+    const outDir = settings.out;
+    const dirOptions = resolveOpenCodeDirOptions(settings.opencodeDir);
+    const pruneOptions = { outDir, groupBy, verbose: opts.verbose, ...dirOptions };
+
+    try {
+      const sessions = await discoverSessions(dirOptions);
+      const manifest = await loadManifest(outDir);
+      const candidates = await planPrune(sessions, manifest, pruneOptions);
+
+      if (candidates.length === 0) {
+        console.log("Nothing to prune.");
+        return;
+      }
+
+      const prefix = opts.dryRun ? "[dry-run] Would remove " : "";
+      for (const candidate of candidates) {
+        console.log(`${prefix}${formatPruneCandidate(candidate, outDir)}`);
+      }
+      if (opts.dryRun) {
+        return;
+      }
+
+      if (!opts.yes) {
+        if (!process.stdin.isTTY) {
+          console.error(
+            "Error: Refusing to prune without confirmation. Pass --yes to skip the prompt."
+          );
+          process.exit(1);
+        }
+        if (!(await confirm(`Remove ${pluralize(candidates.length, "entry", "entries")}?`))) {
+          console.log("Aborted.");
+          return;
+        }
+      }
+
+      const result = await applyPrune(candidates, manifest, pruneOptions);
+      console.log(`Removed ${pluralize(result.removed, "entry", "entries")} from ${outDir}`);
+
+      if (result.errors.length > 0) {
+        for (const err of result.errors) {
+          console.error(`  - ${err}`);
+        }
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(`Error: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+  });
@@ -2,15 +2,30 @@
 // report command - exports OpenCode sessions & runs ccusage
 
 import { Command } from "commander";
+import { loadBudgetConfig, mergeBudgetLimits } from "../budget.js";
+import { resolveCcusageInputs } from "../ccusage-merge.js";
+import {
+  getExportSettingsOrExit,
+  loadConfigFile,
+  resolveCommandSettingsOrExit,
+} from "../config.js";
+import { REPORT_ENGINE_CHOICES, REPORT_FORMAT_CHOICES } from "../constants.js";
 import { createExportOptions, printSummary, runExport } from "../exporter.js";
 import {
-  checkCcusageAvailable,
   findClaudeConfigDirs,
-  OPENCODE_CONFIG_DIR,
+  resolveReportEngine,
   runCcusage,
   runCombinedReport,
 } from "../report-runner.js";
-import { getErrorMessage, parseSinceOrExit, pluralize, verboseLog } from "../utils.js";
+import type { BudgetConfig, CcusageInput, UsageSource } from "../types.js";
+import { loadRegisteredSources } from "../usage-sources.js";
+import {
+  collect,
+  getErrorMessage,
+  parseChoiceOrExit,
+  pluralize,
+  verboseLog,
+} from "../utils.js";
 
 export const reportCommand = new Command("report")
   .description("Export OpenCode sessions and generate usage report with ccusage")
@@ -25,25 +40,145 @@ export const reportCommand = new Command("report")
     "--combine [file]",
     "Run separate ccusage for Claude Code and OpenCode, merge outputs. Optionally provide a ccusage JSON file to merge with instead of running live."
   )
-  .option("--json", "Output combined report as JSON (only with --combine)", false)
+  .option(
+    "--input <[label=]path>",
+    "Merge ccusage JSON file(s) instead of live usage (repeatable; glob = one source per file)",
+    collect
+  )
+  .option(
+    "--engine <engine>",
+    "Report engine: auto (ccusage when available), native (built-in, offline), or ccusage",
+    "auto"
+  )
+  .option(
+    "--breakdown",
+    "Show per-model rows & model totals (passed to ccusage when not combining)",
+    false
+  )
+  .option(
+    "--aggregate",
+    "With --combine: one row per period w/ per-source cost, tokens & share",
+    false
+  )
+  .option(
+    "--format <format>",
+    "Output format w/ --combine or the native engine: table, json, markdown, csv, or html",
+    "table"
+  )
+  .option("--output <path>", "Write report to file instead of stdout (w/ --format)")
+  .option("--json", "Output report as JSON (shorthand for --format json)", false)
+  .option("--budget <file>", "Budget limits JSON (daily/weekly/monthly USD, overall & per source)")
+  .option(
+    "--budget-daily <usd>",
+    "Overall daily budget in USD (overrides --budget file)",
+    parseFloat
+  )
+  .option(
+    "--budget-weekly <usd>",
+    "Overall weekly budget in USD (overrides --budget file)",
+    parseFloat
+  )
+  .option(
+    "--budget-monthly <usd>",
+    "Overall monthly budget in USD (overrides --budget file)",
+    parseFloat
+  )
+  .option(
+    "--ccusage-timeout <seconds>",
+    "Stop ccusage after this many seconds (default: 60 for combined reports, none otherwise)",
+    parseFloat
+  )
+  .option("--profile <name>", "Settings profile from the config file")
+  .option(
+    "--config <file>",
+    "Config file w/ settings profiles & extra usage sources " +
+      "(default: ~/.config/opencode-to-ccusage/config.json)"
+  )
   .option("-v, --verbose", "Show detailed progress", false)
   .allowUnknownOption(true)
-  .action(async (opts, command) => {
-    // check if ccusage is available
-    const ccusageAvailable = await checkCcusageAvailable();
-    if (!ccusageAvailable) {
-      console.error(
-        "Error: ccusage is not installed or not available.\n\n" +
-          "Please install ccusage first:\n" +
-          "  npm install -g ccusage\n\n" +
-          "Or run with npx:\n" +
-          "  npx ccusage --help"
+  .action(async (opts, command: Command) => {
+    // resolve --input files (merged as-is, so no engine is needed)
+    let inputs: CcusageInput[] | undefined;
+    if (opts.input) {
+      if (typeof opts.combine === "string") {
+        console.error("Error: --input conflicts with --combine <file>");
+        process.exit(1);
+      }
+      // files are merged as saved, so options that pick or filter live usage don't apply
+      const liveOnly = [
+        command.getOptionValueSource("engine") === "cli" && "--engine",
+        opts.since !== undefined && "--since",
+        opts.claudeOnly && "--claude-only",
+        opts.opencodeOnly && "--opencode-only",
+      ].find(Boolean);
+      if (liveOnly) {
+        console.error(`Error: --input conflicts with ${liveOnly}`);
+        process.exit(1);
+      }
+      try {
+        inputs = await resolveCcusageInputs(opts.input);
+      } catch (err) {
+        console.error(`Error: ${getErrorMessage(err)}`);
+        process.exit(1);
+      }
+    }
+
+    // pick ccusage or the native engine
+    const engineChoice = parseChoiceOrExit("--engine", opts.engine, REPORT_ENGINE_CHOICES);
+    let engine: "native" | "ccusage" = "ccusage";
+    try {
+      if (!inputs) {
+        engine = await resolveReportEngine(engineChoice, opts.verbose);
+      }
+    } catch (err) {
+      console.error(`Error: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+
+    // --json is shorthand for --format json
+    const format = parseChoiceOrExit("--format", opts.format, REPORT_FORMAT_CHOICES);
+    if (opts.json && format !== "table" && format !== "json") {
+      console.error(`Error: --json conflicts with --format ${format}`);
+      process.exit(1);
+    }
+
+    // load budget file & apply --budget-* overrides
+    const limits = {
+      daily: opts.budgetDaily,
+      weekly: opts.budgetWeekly,
+      monthly: opts.budgetMonthly,
+    };
+    for (const [period, value] of Object.entries(limits)) {
+      if (value !== undefined && !(value > 0)) {
+        console.error(`Error: --budget-${period} must be a positive amount in USD`);
+        process.exit(1);
+      }
+    }
+    let budget: BudgetConfig | undefined;
+    try {
+      budget = mergeBudgetLimits(
+        opts.budget ? await loadBudgetConfig(opts.budget) : undefined,
+        limits
       );
+    } catch (err) {
+      console.error(`Error: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+
+    const ccusageTimeoutMs =
+      opts.ccusageTimeout !== undefined ? opts.ccusageTimeout * 1000 : undefined;
+    if (ccusageTimeoutMs !== undefined && !(ccusageTimeoutMs > 0)) {
+      console.error("Error: --ccusage-timeout must be a positive number of seconds");
       process.exit(1);
     }
 
-    // parse --since if provided
-    const since = parseSinceOrExit(opts.since);
+    // flags > env > config profile > defaults (OpenCode export & where its usage is read)
+    const settings = await resolveCommandSettingsOrExit(command);
+    const exportOptions = createExportOptions(settings.out, {
+      ...getExportSettingsOrExit(settings),
+      verbose: opts.verbose,
+    });
+    const { since } = exportOptions;
 
     // get pass-through args for ccusage
     const ccusageArgs = command.args.filter(
@@ -54,33 +189,72 @@ export const reportCommand = new Command("report")
         !arg.startsWith("--skip-export") &&
         !arg.startsWith("--since") &&
         !arg.startsWith("--combine") &&
+        !arg.startsWith("--input") &&
         !arg.startsWith("--json") &&
+        !arg.startsWith("--format") &&
+        !arg.startsWith("--output") &&
+        !arg.startsWith("--budget") &&
+        !arg.startsWith("--aggregate") &&
+        !arg.startsWith("--engine") &&
+        !arg.startsWith("--config") &&
+        !arg.startsWith("--profile") &&
+        !arg.startsWith("--ccusage-timeout") &&
         !arg.startsWith("-v") &&
         !arg.startsWith("--verbose")
     );
 
-    // handle --combine mode
-    if (opts.combine !== undefined) {
+    // handle --combine mode (--input & the native engine always report per source)
+    if (opts.combine !== undefined || inputs || engine === "native") {
+      // extra usage sources registered in config (not needed when merging --input files)
+      let sources: UsageSource[] | undefined;
+      if (!inputs) {
+        try {
+          const loaded = await loadConfigFile(opts.config);
+          sources = loaded ? await loadRegisteredSources(loaded.config, loaded.path) : undefined;
+        } catch (err) {
+          console.error(`Error: ${getErrorMessage(err)}`);
+          process.exit(1);
+        }
+      }
+
       const exitCode = await runCombinedReport({
-        combineArg: opts.combine,
+        combineArg: opts.combine ?? false,
         ccusageArgs,
+        inputs,
+        sources,
+        ccusageTimeoutMs,
+        engine,
+        claudeOnly: opts.claudeOnly,
+        opencodeOnly: opts.opencodeOnly,
+        breakdown: opts.breakdown,
+        aggregate: opts.aggregate,
         skipExport: opts.skipExport,
         since,
         verbose: opts.verbose,
-        outputJson: opts.json,
+        exportOptions,
+        format: opts.json ? "json" : format,
+        outputPath: opts.output,
+        budget,
       });
       process.exit(exitCode);
     }
 
+    // merged-report options need --combine (plain ccusage prints its own output)
+    const mergedOnly = [
+      opts.aggregate && "--aggregate",
+      format !== "table" && "--format",
+      opts.output && "--output",
+      budget && "--budget",
+    ].find(Boolean);
+    if (mergedOnly) {
+      console.error(`Error: ${mergedOnly} requires --combine (or --engine native)`);
+      process.exit(1);
+    }
+
     // run export unless skipped or claude-only
     if (!opts.skipExport && !opts.claudeOnly) {
       verboseLog(opts.verbose, "Exporting OpenCode sessions...\n");
 
-      const exportOptions = createExportOptions(OPENCODE_CONFIG_DIR, {
-        since,
-        verbose: opts.verbose,
-      });
-
       try {
         const stats = await runExport(exportOptions);
 
@@ -104,19 +278,24 @@ export const reportCommand = new Command("report")
     // determine which config directories to use
     let configDir: string | undefined;
     if (opts.opencodeOnly) {
-      configDir = OPENCODE_CONFIG_DIR;
+      configDir = settings.out;
     } else if (opts.claudeOnly) {
       configDir = undefined;
     } else {
       // combined: find existing Claude dirs & add OpenCode dir
       const claudeDirs = findClaudeConfigDirs();
-      const allDirs = [...claudeDirs, OPENCODE_CONFIG_DIR];
+      const allDirs = [...claudeDirs, settings.out];
       configDir = allDirs.join(",");
     }
 
     // run ccusage
     verboseLog(opts.verbose, "Running ccusage...\n");
 
-    const exitCode = await runCcusage(configDir, ccusageArgs, opts.verbose);
+    const exitCode = await runCcusage(
+      configDir,
+      opts.breakdown ? [...ccusageArgs, "--breakdown"] : ccusageArgs,
+      opts.verbose,
+      ccusageTimeoutMs
+    );
     process.exit(exitCode);
   });
@@ -0,0 +1,69 @@
+// src/commands/sessions.ts
+// sessions command - lists OpenCode sessions w/ usage totals
+
+import { Command } from "commander";
+import { resolveCommandSettingsOrExit } from "../config.js";
+import { SESSION_SORT_CHOICES } from "../constants.js";
+import { listSessionUsage, renderSessionsTable } from "../sessions.js";
+import {
+  collect,
+  getErrorMessage,
+  parseChoiceOrExit,
+  parseSinceOrExit,
+  resolveOpenCodeDirOptions,
+} from "../utils.js";
+
+export const sessionsCommand = new Command("sessions")
+  .alias("list")
+  .description("List OpenCode sessions w/ message counts, tokens, recorded cost & top model")
+  .option("--since <value>", "Only sessions created after cutoff (ISO date or number of days)")
+  .option("--until <value>", "Only sessions created before cutoff (ISO date or number of days)")
+  .option("--project <id>", "Only sessions of this OpenCode project ID")
+  .option("--directory <glob>", "Only sessions whose directory matches glob")
+  .option("--title <regex>", "Only sessions whose title matches regex (case-insensitive)")
+  .option("--model <glob>", "Only count messages whose model ID matches glob")
+  .option("--provider <glob>", "Only count messages whose provider ID matches glob")
+  .option(
+    "--opencode-dir <[label=]path>",
+    "OpenCode data directory, repeatable w/ optional label (default: auto-detected)",
+    collect
+  )
+  .option("--sort <key>", "Sort by: updated, cost, or tokens (largest first)", "updated")
+  .option("--limit <number>", "Only show the first N sessions after sorting", (val) =>
+    parseInt(val, 10)
+  )
+  .option("--skip-validation", "Skip schema validation for faster processing", false)
+  .option("--json", "Print sessions as JSON", false)
+  .option("--profile <name>", "Settings profile from the config file")
+  .option(
+    "--config <file>",
+    "Config file w/ settings profiles (default: ~/.config/opencode-to-ccusage/config.json)"
+  )
+  .action(async (opts, command: Command) => {
+    const settings = await resolveCommandSettingsOrExit(command);
+    const sort = parseChoiceOrExit("--sort", opts.sort, SESSION_SORT_CHOICES);
+    if (opts.limit !== undefined && !(opts.limit > 0)) {
+      console.error("Error: --limit must be a positive number");
+      process.exit(1);
+    }
+
+    try {
+      const sessions = await listSessionUsage({
+        since: parseSinceOrExit(settings.since),
+        until: parseSinceOrExit(opts.until, "--until"),
+        project: opts.project,
+        directory: opts.directory,
+        title: opts.title,
+        model: opts.model,
+        provider: opts.provider,
+        sort,
+        limit: opts.limit,
+        skipValidation: opts.skipValidation,
+        ...resolveOpenCodeDirOptions(settings.opencodeDir),
+      });
+      console.log(opts.json ? JSON.stringify(sessions, null, 2) : renderSessionsTable(sessions));
+    } catch (err) {
+      console.error(`Error: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,41 @@
+// src/commands/show.ts
+// show command - prints one session's per-message usage timeline
+
+import { Command } from "commander";
+import { resolveCommandSettingsOrExit } from "../config.js";
+import { renderSessionTimeline, showSession } from "../show.js";
+import { collect, getErrorMessage, resolveOpenCodeDirOptions } from "../utils.js";
+
+export const showCommand = new Command("show")
+  .description("Show one session's usage per message (tokens, cost, elapsed & running total)")
+  .argument("<sessionId>", "Session ID or unique ID prefix")
+  .option("--model <glob>", "Only show messages whose model ID matches glob")
+  .option("--provider <glob>", "Only show messages whose provider ID matches glob")
+  .option(
+    "--opencode-dir <[label=]path>",
+    "OpenCode data directory, repeatable w/ optional label (default: auto-detected)",
+    collect
+  )
+  .option("--skip-validation", "Skip schema validation for faster processing", false)
+  .option("--json", "Print timeline as JSON", false)
+  .option("--profile <name>", "Settings profile from the config file")
+  .option(
+    "--config <file>",
+    "Config file w/ settings profiles (default: ~/.config/opencode-to-ccusage/config.json)"
+  )
+  .action(async (sessionId: string, opts, command: Command) => {
+    const settings = await resolveCommandSettingsOrExit(command);
+
+    try {
+      const timeline = await showSession(sessionId, {
+        model: opts.model,
+        provider: opts.provider,
+        skipValidation: opts.skipValidation,
+        ...resolveOpenCodeDirOptions(settings.opencodeDir),
+      });
+      console.log(opts.json ? JSON.stringify(timeline, null, 2) : renderSessionTimeline(timeline));
+    } catch (err) {
+      console.error(`Error: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+  });
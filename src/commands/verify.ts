@@ -0,0 +1,52 @@
+// src/commands/verify.ts
+// verify command - checks exported JSONL against the source OpenCode sessions
+
+import { Command } from "commander";
+import { resolveCommandSettingsOrExit } from "../config.js";
+import { OPENCODE_CONFIG_DIR } from "../constants.js";
+import { collect, getErrorMessage, resolveOpenCodeDirOptions } from "../utils.js";
+import { renderVerifyReport, runVerify } from "../verify.js";
+
+export const verifyCommand = new Command("verify")
+  .description("Check exported JSONL against OpenCode sessions (malformed, missing & extra lines)")
+  .option(
+    "--out <dir>",
+    "Export directory to verify (default: ~/.config/claude-opencode)",
+    OPENCODE_CONFIG_DIR
+  )
+  .option(
+    "--opencode-dir <[label=]path>",
+    "OpenCode data directory, repeatable w/ optional label (default: auto-detected)",
+    collect
+  )
+  .option("--skip-validation", "Skip schema validation of source sessions", false)
+  .option("-v, --verbose", "Show detailed progress", false)
+  .option("--json", "Print issues as JSON", false)
+  .option("--profile <name>", "Settings profile from the config file")
+  .option(
+    "--config <file>",
+    "Config file w/ settings profiles (default: ~/.config/opencode-to-ccusage/config.json)"
+  )
+  .action(async (opts, command: Command) => {
+    const settings = await resolveCommandSettingsOrExit(command);
+
+    try {
+      const report = await runVerify({
+        outDir: settings.out,
+        skipValidation: opts.skipValidation,
+        verbose: opts.verbose && !opts.json,
+        ...resolveOpenCodeDirOptions(settings.opencodeDir),
+      });
+      console.log(
+        opts.json ? JSON.stringify(report, null, 2) : renderVerifyReport(report, settings.out)
+      );
+
+      // any drift exits non-zero
+      if (report.issues.length > 0) {
+        process.exit(1);
+      }
+    } catch (err) {
+      console.error(`Error: ${getErrorMessage(err)}`);
+      process.exit(1);
+    }
+  });
@@ -0,0 +1,322 @@
+// src/config.ts
+// config file - loads & validates ~/.config/opencode-to-ccusage/config.json & resolves
+// effective settings (CLI > env > profile > defaults)
+
+import { readFile } from "node:fs/promises";
+import Table from "cli-table3";
+import type { Command } from "commander";
+import {
+  CONFIG_FILE,
+  COST_MODE_CHOICES,
+  DEFAULT_SETTINGS,
+  GRANULARITY_CHOICES,
+  GROUP_BY_CHOICES,
+  PROFILE_ENV_VAR,
+  SESSION_SOURCE_CHOICES,
+} from "./constants.js";
+import {
+  ConfigFileSchema,
+  SettingsSchema,
+  type ConfigFile,
+  type EffectiveSettings,
+  type ExportOptions,
+  type ResolvedSettings,
+  type SettingName,
+  type SettingOrigin,
+  type Settings,
+} from "./types.js";
+import {
+  fileExists,
+  getErrorMessage,
+  parseChoiceOrExit,
+  parseSince,
+  parseSinceOrExit,
+  resolveOpenCodeDirOptions,
+} from "./utils.js";
+
+export interface LoadedConfig {
+  config: ConfigFile;
+  /** Resolved config file path (module paths are relative to it) */
+  path: string;
+}
+
+// * load config file (explicit path must exist; missing default file = no config)
+export async function loadConfigFile(filePath?: string): Promise<LoadedConfig | null> {
+  const configPath = filePath ?? CONFIG_FILE;
+  if (!filePath && !(await fileExists(configPath))) {
+    return null;
+  }
+
+  let content: string;
+  try {
+    content = await readFile(configPath, "utf-8");
+  } catch (err) {
+    throw new Error(`Cannot read config file ${configPath}: ${getErrorMessage(err)}`);
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    throw new Error(`Config file ${configPath} is not valid JSON`);
+  }
+
+  const parsed = ConfigFileSchema.safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const field = issue.path.join(".") || "config";
+    throw new Error(`Invalid config file ${configPath}: ${field}: ${issue.message}`);
+  }
+  return { config: parsed.data, path: configPath };
+}
+
+// CLI flag & env var for each setting (OPENCODE_DATA_DIR is OpenCode's own data dir variable)
+export const SETTING_FLAGS: Record<SettingName, string> = {
+  out: "--out",
+  groupBy: "--group-by",
+  opencodeDir: "--opencode-dir",
+  since: "--since",
+  concurrency: "--concurrency",
+  includeReasoningInOutput: "--include-reasoning-in-output",
+  costMode: "--cost-mode",
+  granularity: "--granularity",
+  source: "--source",
+};
+
+export const SETTING_ENV_VARS: Record<SettingName, string> = {
+  out: "OPENCODE_TO_CCUSAGE_OUT",
+  groupBy: "OPENCODE_TO_CCUSAGE_GROUP_BY",
+  opencodeDir: "OPENCODE_DATA_DIR",
+  since: "OPENCODE_TO_CCUSAGE_SINCE",
+  concurrency: "OPENCODE_TO_CCUSAGE_CONCURRENCY",
+  includeReasoningInOutput: "OPENCODE_TO_CCUSAGE_INCLUDE_REASONING",
+  costMode: "OPENCODE_TO_CCUSAGE_COST_MODE",
+  granularity: "OPENCODE_TO_CCUSAGE_GRANULARITY",
+  source: "OPENCODE_TO_CCUSAGE_SOURCE",
+};
+
+const SETTING_NAMES = Object.keys(SETTING_FLAGS) as SettingName[];
+
+export interface ResolveSettingsInput {
+  /** Values given as CLI flags (unset = not given) */
+  cli?: Settings;
+  env?: Record<string, string | undefined>;
+  config: LoadedConfig | null;
+  /** Profile name from --profile */
+  profile?: string;
+}
+
+// convert env var string to setting value (numbers & booleans parsed)
+function parseEnvValue(name: SettingName, value: string): unknown {
+  switch (name) {
+    case "concurrency":
+      return Number(value);
+    case "includeReasoningInOutput":
+      return /^(1|true|yes)$/i.test(value) ? true : /^(0|false|no)$/i.test(value) ? false : value;
+    default:
+      return value;
+  }
+}
+
+// read & validate settings from env vars
+function readEnvSettings(env: Record<string, string | undefined>): Settings {
+  const raw: Record<string, unknown> = {};
+  for (const name of SETTING_NAMES) {
+    const value = env[SETTING_ENV_VARS[name]];
+    if (value) {
+      raw[name] = parseEnvValue(name, value);
+    }
+  }
+
+  const parsed = SettingsSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const name = issue.path[0] as SettingName;
+    throw new Error(`Invalid ${SETTING_ENV_VARS[name]}: ${issue.message}`);
+  }
+  return parsed.data;
+}
+
+// pick profile: --profile, then env var, then "default" if the config defines it
+function selectProfile(
+  input: ResolveSettingsInput,
+  env: Record<string, string | undefined>
+): { name: string; from: string; settings: Settings } | null {
+  const profiles = input.config?.config.profiles ?? {};
+  const envProfile = env[PROFILE_ENV_VAR];
+  const requested = input.profile
+    ? { name: input.profile, from: "--profile" }
+    : envProfile
+      ? { name: envProfile, from: PROFILE_ENV_VAR }
+      : null;
+
+  if (!requested) {
+    const settings = profiles.default;
+    return settings ? { name: "default", from: "default", settings } : null;
+  }
+
+  const settings = profiles[requested.name];
+  if (!settings) {
+    const where = input.config ? input.config.path : `${CONFIG_FILE} (not found)`;
+    const available = Object.keys(profiles);
+    throw new Error(
+      `Profile "${requested.name}" (from ${requested.from}) is not defined in ${where}` +
+        (available.length > 0 ? `; available: ${available.join(", ")}` : "")
+    );
+  }
+  return { ...requested, settings };
+}
+
+// * resolve effective settings & where each came from (CLI > env > profile > defaults)
+export function resolveSettings(input: ResolveSettingsInput): ResolvedSettings {
+  const env = input.env ?? process.env;
+  const cli = input.cli ?? {};
+  const fromEnv = readEnvSettings(env);
+  const profile = selectProfile(input, env);
+
+  // relative cutoffs from env & profiles are checked here (CLI values by the command)
+  for (const [since, from] of [
+    [fromEnv.since, SETTING_ENV_VARS.since],
+    [profile?.settings.since, `profile "${profile?.name}"`],
+  ]) {
+    if (since) {
+      try {
+        parseSince(since);
+      } catch (err) {
+        throw new Error(`Invalid since in ${from}: ${getErrorMessage(err)}`);
+      }
+    }
+  }
+
+  const values: Record<string, unknown> = {};
+  const origins = {} as Record<SettingName, SettingOrigin>;
+  for (const name of SETTING_NAMES) {
+    let origin: SettingOrigin;
+    let value: unknown;
+    if (cli[name] !== undefined) {
+      value = cli[name];
+      origin = { source: "cli", from: SETTING_FLAGS[name] };
+    } else if (fromEnv[name] !== undefined) {
+      value = fromEnv[name];
+      origin = { source: "env", from: SETTING_ENV_VARS[name] };
+    } else if (profile && profile.settings[name] !== undefined) {
+      value = profile.settings[name];
+      origin = { source: "profile", from: profile.name };
+    } else {
+      value = (DEFAULT_SETTINGS as Settings)[name];
+      origin = { source: "default" };
+    }
+    values[name] = value;
+    origins[name] = origin;
+  }
+
+  return {
+    configPath: input.config?.path ?? null,
+    profile: profile?.name ?? null,
+    profileFrom: profile?.from ?? null,
+    values: values as EffectiveSettings,
+    origins,
+  };
+}
+
+// settings given as flags on command line (commander defaults don't count)
+export function getCliSettings(command: Command): Settings {
+  const opts = command.opts();
+  const cli: Record<string, unknown> = {};
+  for (const name of SETTING_NAMES) {
+    if (command.getOptionValueSource(name) === "cli") {
+      cli[name] = opts[name];
+    }
+  }
+  return cli as Settings;
+}
+
+// * resolve settings for command (its --config & --profile options) or exit w/ error
+export async function resolveCommandSettingsOrExit(
+  command: Command
+): Promise<EffectiveSettings> {
+  const opts = command.opts();
+  try {
+    const config = await loadConfigFile(opts.config);
+    return resolveSettings({ cli: getCliSettings(command), config, profile: opts.profile })
+      .values;
+  } catch (err) {
+    console.error(`Error: ${getErrorMessage(err)}`);
+    process.exit(1);
+  }
+}
+
+// export options driven by settings
+export type SettingsExportOptions = Pick<
+  ExportOptions,
+  | "since"
+  | "concurrency"
+  | "includeReasoningInOutput"
+  | "costMode"
+  | "granularity"
+  | "groupBy"
+  | "source"
+  | "openCodeDir"
+  | "openCodeRoots"
+>;
+
+// * validate settings & map them to export options or exit w/ error
+// (flag values bypass SettingsSchema, so choices are checked here)
+export function getExportSettingsOrExit(settings: EffectiveSettings): SettingsExportOptions {
+  return {
+    since: parseSinceOrExit(settings.since),
+    concurrency: settings.concurrency,
+    includeReasoningInOutput: settings.includeReasoningInOutput,
+    costMode: parseChoiceOrExit("--cost-mode", settings.costMode, COST_MODE_CHOICES),
+    granularity: parseChoiceOrExit("--granularity", settings.granularity, GRANULARITY_CHOICES),
+    groupBy: parseChoiceOrExit("--group-by", settings.groupBy, GROUP_BY_CHOICES),
+    source: parseChoiceOrExit("--source", settings.source, SESSION_SOURCE_CHOICES),
+    ...resolveOpenCodeDirOptions(settings.opencodeDir),
+  };
+}
+
+// shown for settings w/o a value (auto-detected or unlimited)
+const UNSET_LABELS: Partial<Record<SettingName, string>> = {
+  opencodeDir: "(auto-detected)",
+  since: "(all sessions)",
+  concurrency: "(auto)",
+};
+
+// describe where setting came from
+function formatOrigin(origin: SettingOrigin): string {
+  switch (origin.source) {
+    case "cli":
+      return `flag ${origin.from}`;
+    case "env":
+      return `env ${origin.from}`;
+    case "profile":
+      return `profile "${origin.from}"`;
+    case "default":
+      return "default";
+  }
+}
+
+// * render effective settings table w/ config file, profile & each value's origin
+export function renderResolvedSettings(resolved: ResolvedSettings): string {
+  const lines = [
+    `Config file: ${resolved.configPath ?? `none (${CONFIG_FILE} not found)`}`,
+    `Profile: ${resolved.profile ? `${resolved.profile} (from ${resolved.profileFrom})` : "none"}`,
+    "",
+  ];
+
+  const table = new Table({ head: ["Setting", "Value", "Source"] });
+  for (const name of SETTING_NAMES) {
+    const value = resolved.values[name];
+    table.push([
+      name,
+      value === undefined
+        ? (UNSET_LABELS[name] ?? "-")
+        : Array.isArray(value)
+          ? value.join(", ")
+          : String(value),
+      formatOrigin(resolved.origins[name]),
+    ]);
+  }
+  lines.push(table.toString());
+  return lines.join("\n");
+}
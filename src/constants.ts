@@ -3,6 +3,18 @@
 
 import os from "node:os";
 import path from "node:path";
+import type {
+  CcusageView,
+  CostMode,
+  Granularity,
+  GroupBy,
+  ReportEngine,
+  ReportFormat,
+  ReportView,
+  SessionSort,
+  SessionSource,
+  Settings,
+} from "./types.js";
 
 // default directory for OpenCode exported data (mimics Claude Code config structure)
 export const OPENCODE_CONFIG_DIR = path.join(os.homedir(), ".config", "claude-opencode");
@@ -13,5 +25,72 @@ export const CLAUDE_CONFIG_PATHS = [
   path.join(os.homedir(), ".claude"),
 ];
 
+// config file w/ registered usage sources & settings profiles
+export const CONFIG_FILE = path.join(os.homedir(), ".config", "opencode-to-ccusage", "config.json");
+
+// env var selecting a config profile (--profile wins)
+export const PROFILE_ENV_VAR = "OPENCODE_TO_CCUSAGE_PROFILE";
+
+// built-in export settings (lowest precedence; unset = auto-detected)
+export const DEFAULT_SETTINGS = {
+  out: OPENCODE_CONFIG_DIR,
+  groupBy: "flat",
+  includeReasoningInOutput: true,
+  costMode: "auto",
+  granularity: "message",
+  source: "auto",
+} as const satisfies Settings;
+
 // maximum buffer size for child process output (50MB)
 export const MAX_BUFFER = 50 * 1024 * 1024;
+
+// supported ccusage major versions (JSON output shapes we parse)
+export const CCUSAGE_MIN_MAJOR_VERSION = 15;
+export const CCUSAGE_MAX_MAJOR_VERSION = 17;
+
+// ccusage options that take a value (skipped when looking for the subcommand in pass-through args)
+export const CCUSAGE_VALUE_OPTIONS: readonly string[] = [
+  "-s",
+  "--since",
+  "-u",
+  "--until",
+  "-z",
+  "--timezone",
+  "-l",
+  "--locale",
+  "-o",
+  "--order",
+  "-m",
+  "--mode",
+  "-p",
+  "--project",
+  "-t",
+  "--token-limit",
+  "-n",
+  "--session-length",
+  "--refresh-interval",
+  "--config",
+];
+
+// default timeout for ccusage JSON runs (--ccusage-timeout overrides)
+export const CCUSAGE_TIMEOUT_MS = 60_000;
+
+// exit code when report spend exceeds a budget limit (distinct from errors = 1)
+export const BUDGET_EXCEEDED_EXIT_CODE = 2;
+
+// allowed values for choice-type CLI options
+export const GROUP_BY_CHOICES: readonly GroupBy[] = ["flat", "project", "directory"];
+export const SESSION_SOURCE_CHOICES: readonly SessionSource[] = ["auto", "storage", "cli"];
+export const COST_MODE_CHOICES: readonly CostMode[] = ["auto", "opencode", "calculate"];
+export const GRANULARITY_CHOICES: readonly Granularity[] = ["message", "step"];
+export const SESSION_SORT_CHOICES: readonly SessionSort[] = ["updated", "cost", "tokens"];
+export const REPORT_ENGINE_CHOICES: readonly ReportEngine[] = ["auto", "native", "ccusage"];
+export const REPORT_VIEW_CHOICES: readonly ReportView[] = ["daily", "weekly", "monthly", "session"];
+export const CCUSAGE_VIEW_CHOICES: readonly CcusageView[] = [...REPORT_VIEW_CHOICES, "blocks"];
+export const REPORT_FORMAT_CHOICES: readonly ReportFormat[] = [
+  "table",
+  "json",
+  "markdown",
+  "csv",
+  "html",
+];
@@ -0,0 +1,181 @@
+// src/convert-runner.ts
+// offline conversion of saved `opencode export` JSON files to ccusage JSONL
+
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { convertSession, toJsonl } from "./converter.js";
+import { createExportStats } from "./exporter.js";
+import { addFilterCounts } from "./filters.js";
+import { createManifestEntry, loadManifest, saveManifest } from "./manifest.js";
+import { getSessionOutputPath } from "./output-path.js";
+import { parseExportOutput } from "./session.js";
+import type { ExportOptions, ExportStats, OpenCodeExport, SessionListItem } from "./types.js";
+import { fileExists, getErrorMessage, pluralize, verboseLog, warn } from "./utils.js";
+
+// input name used for stdin
+export const STDIN_INPUT = "-";
+
+// label of stdin input
+const STDIN_LABEL = "<stdin>";
+
+export interface ConvertInput {
+  /** File path or "<stdin>" (used in messages) */
+  label: string;
+  content: string;
+}
+
+// read all of stdin as string
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString("utf-8");
+}
+
+// expand input paths (files, directories of *.json, or "-" for stdin)
+export async function readConvertInputs(inputs: string[]): Promise<ConvertInput[]> {
+  const results: ConvertInput[] = [];
+
+  for (const input of inputs) {
+    if (input === STDIN_INPUT) {
+      results.push({ label: STDIN_LABEL, content: await readStdin() });
+      continue;
+    }
+
+    if (!(await fileExists(input))) {
+      throw new Error(`Input does not exist: ${input}`);
+    }
+
+    if ((await stat(input)).isDirectory()) {
+      const files = (await readdir(input)).filter((f) => f.endsWith(".json")).sort();
+      for (const file of files) {
+        const filePath = path.join(input, file);
+        results.push({ label: filePath, content: await readFile(filePath, "utf-8") });
+      }
+    } else {
+      results.push({ label: input, content: await readFile(input, "utf-8") });
+    }
+  }
+
+  return results;
+}
+
+// derive session list item from export info (drives --group-by layout)
+// (info is unchecked w/ --skip-validation, so missing fields throw a labeled error)
+function toSessionListItem(exported: OpenCodeExport, label: string): SessionListItem {
+  const info = exported.info as Partial<OpenCodeExport["info"]> | undefined;
+  if (typeof info?.id !== "string" || typeof info.time?.created !== "number") {
+    throw new Error(`Invalid export JSON for ${label}: missing session info`);
+  }
+  return {
+    id: exported.info.id,
+    title: exported.info.title,
+    updated: exported.info.time.updated,
+    created: exported.info.time.created,
+    projectId: exported.info.projectID,
+    directory: exported.info.directory,
+  };
+}
+
+// manifest root of converted sessions (the export JSON file, so prune & verify keep its output)
+function getConvertedRoot(label: string): string {
+  return label === STDIN_LABEL ? label : path.resolve(label);
+}
+
+// * convert saved export JSON inputs & write ccusage JSONL (same layout as runExport)
+export async function runConvert(
+  inputs: ConvertInput[],
+  options: ExportOptions
+): Promise<ExportStats> {
+  const stats = createExportStats();
+  const seen = new Set<string>();
+  const manifest = await loadManifest(options.outDir);
+  let manifestChanged = false;
+
+  for (const input of inputs) {
+    let exported: OpenCodeExport;
+    let session: SessionListItem;
+    try {
+      exported = parseExportOutput(input.content, input.label, {
+        skipValidation: options.skipValidation,
+      });
+      session = toSessionListItem(exported, input.label);
+    } catch (err) {
+      const message = getErrorMessage(err);
+      warn(message);
+      stats.errors.push(message);
+      continue;
+    }
+
+    stats.sessionsDiscovered++;
+
+    // same session may appear in several dumps
+    if (seen.has(session.id)) {
+      verboseLog(options.verbose, `Skipping ${input.label} (duplicate session ${session.id})`);
+      stats.sessionsSkipped++;
+      continue;
+    }
+    seen.add(session.id);
+
+    const { subdir, outFile } = getSessionOutputPath(session, options);
+
+    if (!options.overwrite && (await fileExists(outFile))) {
+      verboseLog(options.verbose, `Skipping ${session.id} (file exists)`);
+      stats.sessionsSkipped++;
+      continue;
+    }
+
+    const result = convertSession(exported, {
+      includeReasoningInOutput: options.includeReasoningInOutput,
+      costMode: options.costMode,
+      granularity: options.granularity,
+      model: options.model,
+      provider: options.provider,
+    });
+    stats.messagesSkipped += result.skippedCount;
+    addFilterCounts(stats.messagesFiltered, result.filteredCounts);
+
+    if (result.lines.length === 0) {
+      verboseLog(options.verbose, `Skipping ${session.id} (no convertible messages)`);
+      stats.sessionsSkipped++;
+      continue;
+    }
+
+    if (options.dryRun) {
+      console.log(
+        `[dry-run] Would write ${outFile} (${pluralize(result.lines.length, "line")})`
+      );
+    } else {
+      const jsonl = toJsonl(result.lines);
+      try {
+        await mkdir(path.dirname(outFile), { recursive: true });
+        await writeFile(outFile, jsonl, "utf-8");
+      } catch (err) {
+        const message = `Failed to write ${outFile}: ${getErrorMessage(err)}`;
+        warn(message);
+        stats.errors.push(message);
+        continue;
+      }
+      manifest.sessions[session.id] = {
+        ...createManifestEntry(session, options, outFile, jsonl, result.lines.length),
+        root: getConvertedRoot(input.label),
+      };
+      manifestChanged = true;
+      verboseLog(
+        options.verbose,
+        `Wrote ${pluralize(result.lines.length, "line")} from ${input.label} to ${subdir}/${session.id}.jsonl`
+      );
+    }
+
+    stats.sessionsExported++;
+    stats.messagesConverted += result.lines.length;
+    stats.messagesMissingCost += result.missingCostCount;
+  }
+
+  if (manifestChanged) {
+    await saveManifest(options.outDir, manifest);
+  }
+
+  return stats;
+}
@@ -1,23 +1,58 @@
 // src/converter.ts
 // convert OpenCode exports to ccusage-compatible JSONL format
 
-import type { CcusageLine, OpenCodeExport, OpenCodeMessage } from "./types.js";
+import { createMessageFilter } from "./filters.js";
+import {
+  StepFinishPartSchema,
+  type CcusageLine,
+  type CostMode,
+  type FilterCounts,
+  type Granularity,
+  type MessageFilterName,
+  type MessageSkipReason,
+  type OpenCodeExport,
+  type OpenCodeMessage,
+  type SkippedMessage,
+  type StepFinishPart,
+  type TokenInfo,
+} from "./types.js";
 import { dedupeKey, toISOTimestamp } from "./utils.js";
 
 export interface ConvertOptions {
   includeReasoningInOutput: boolean;
+  /** Whether OpenCode's recorded cost is written to costUSD (default: auto) */
+  costMode?: CostMode;
+  /** One line per assistant message or per step-finish part (default: message) */
+  granularity?: Granularity;
+  /** Only messages whose model ID matches glob */
+  model?: string;
+  /** Only messages whose provider ID matches glob */
+  provider?: string;
 }
 
 export interface ConvertResult {
   lines: CcusageLine[];
   skippedCount: number;
+  /** Converted messages w/ a line lacking a recorded cost (undefined or zero) */
+  missingCostCount: number;
+  /** Assistant messages removed by each model/provider filter */
+  filteredCounts: FilterCounts<MessageFilterName>;
+  /** Every message w/o a usage line & why (user messages included) */
+  skippedMessages: SkippedMessage[];
 }
 
-// check if message has valid token data (any billable activity)
-function hasValidTokens(msg: OpenCodeMessage): boolean {
-  const tokens = msg.info.tokens;
+// usage of a single model call (whole message or one step)
+interface UsageRecord {
+  requestId: string;
+  timestamp: number;
+  tokens: TokenInfo;
+  cost: number | undefined;
+}
+
+// check if tokens show any billable activity
+function hasTokenActivity(tokens: TokenInfo | undefined): boolean {
   if (!tokens) return false;
-  
+
   // include if any token activity (input, output, reasoning, or cache)
   return (
     tokens.input > 0 ||
@@ -40,14 +75,73 @@ function getTimestamp(msg: OpenCodeMessage): number {
   return msg.info.time.completed ?? msg.info.time.created;
 }
 
-// convert OpenCode message to ccusage line
-function convertMessage(
+// check if cost was recorded (non-zero)
+function isRecordedCost(cost: number | undefined): boolean {
+  return cost !== undefined && cost > 0;
+}
+
+// resolve costUSD based on cost mode (undefined = let ccusage price it)
+function resolveCost(cost: number | undefined, costMode: CostMode): number | undefined {
+  switch (costMode) {
+    case "opencode":
+      return cost;
+    case "calculate":
+      return undefined;
+    case "auto":
+      return isRecordedCost(cost) ? cost : undefined;
+  }
+}
+
+// get latest time recorded on a part (text/reasoning parts use time, tool parts state.time)
+function getPartTime(part: unknown): number | undefined {
+  const p = part as {
+    time?: { start?: unknown; end?: unknown };
+    state?: { time?: { start?: unknown; end?: unknown } };
+  };
+  const time = p?.time ?? p?.state?.time;
+  const value = time?.end ?? time?.start;
+  return typeof value === "number" ? value : undefined;
+}
+
+// split message into per-step usage records (null if message has no step-finish parts)
+function getStepRecords(msg: OpenCodeMessage, sessionId: string): UsageRecord[] | null {
+  const steps: { part: StepFinishPart; time: number | undefined }[] = [];
+  let lastTime: number | undefined;
+
+  for (const part of msg.parts ?? []) {
+    const partTime = getPartTime(part);
+    if (partTime !== undefined) {
+      lastTime = Math.max(lastTime ?? partTime, partTime);
+    }
+
+    const step = StepFinishPartSchema.safeParse(part);
+    if (step.success) {
+      steps.push({ part: step.data, time: lastTime });
+    }
+  }
+
+  if (steps.length === 0) {
+    return null;
+  }
+
+  // steps w/o part timing fall back to message time
+  const fallbackTime = getTimestamp(msg);
+  return steps.map(({ part, time }, index) => ({
+    requestId: `opencode:${sessionId}:${msg.info.id}:${index}`,
+    timestamp: time ?? fallbackTime,
+    tokens: part.tokens,
+    cost: part.cost,
+  }));
+}
+
+// convert usage record to ccusage line
+function convertRecord(
+  record: UsageRecord,
   msg: OpenCodeMessage,
   sessionId: string,
   options: ConvertOptions
 ): CcusageLine {
-  const tokens = msg.info.tokens!;
-  const timestamp = getTimestamp(msg);
+  const { tokens } = record;
 
   // calculate output tokens (optionally include reasoning)
   const outputTokens = options.includeReasoningInOutput
@@ -55,9 +149,9 @@ function convertMessage(
     : tokens.output;
 
   const line: CcusageLine = {
-    timestamp: toISOTimestamp(timestamp),
+    timestamp: toISOTimestamp(record.timestamp),
     sessionId: sessionId,
-    requestId: `opencode:${sessionId}:${msg.info.id}`,
+    requestId: record.requestId,
     message: {
       id: msg.info.id,
       model: msg.info.modelID ?? "unknown",
@@ -73,6 +167,11 @@ function convertMessage(
     line.cwd = msg.info.path.cwd;
   }
 
+  const cost = resolveCost(record.cost, options.costMode ?? "auto");
+  if (cost !== undefined) {
+    line.costUSD = cost;
+  }
+
   if (tokens.cache.read > 0) {
     line.message.usage.cache_read_input_tokens = tokens.cache.read;
   }
@@ -84,6 +183,33 @@ function convertMessage(
   return line;
 }
 
+// get usage records w/ token activity for message based on granularity
+// (step mode falls back to one record per message when no step-finish parts exist)
+function getUsageRecords(
+  msg: OpenCodeMessage,
+  sessionId: string,
+  options: ConvertOptions
+): UsageRecord[] {
+  if (options.granularity === "step") {
+    const steps = getStepRecords(msg, sessionId);
+    if (steps) {
+      return steps.filter((step) => hasTokenActivity(step.tokens));
+    }
+  }
+
+  if (!msg.info.tokens || !hasTokenActivity(msg.info.tokens)) {
+    return [];
+  }
+  return [
+    {
+      requestId: `opencode:${sessionId}:${msg.info.id}`,
+      timestamp: getTimestamp(msg),
+      tokens: msg.info.tokens,
+      cost: msg.info.cost,
+    },
+  ];
+}
+
 // * convert OpenCode export to ccusage-compatible JSONL lines
 export function convertSession(
   session: OpenCodeExport,
@@ -92,22 +218,43 @@ export function convertSession(
   const lines: CcusageLine[] = [];
   const seen = new Set<string>();
   let skippedCount = 0;
+  let missingCostCount = 0;
+  const filteredCounts: FilterCounts<MessageFilterName> = {};
+  const skippedMessages: SkippedMessage[] = [];
+  const rejects = createMessageFilter(options);
+
+  const skip = (msg: OpenCodeMessage, reason: MessageSkipReason) => {
+    skippedMessages.push({ messageId: msg.info.id, role: msg.info.role, reason });
+  };
 
   for (const msg of session.messages) {
     // only include assistant messages (billable model calls)
     if (msg.info.role !== "assistant") {
+      skip(msg, "user-role");
       continue;
     }
 
-    // skip if no valid tokens
-    if (!hasValidTokens(msg)) {
+    // apply --model / --provider filters
+    const filter = rejects(msg);
+    if (filter) {
+      filteredCounts[filter] = (filteredCounts[filter] ?? 0) + 1;
+      skip(msg, "filtered");
+      continue;
+    }
+
+    // skip if no valid tokens (step mode judges the step-finish parts, as message totals
+    // may be zero while the steps carry the usage)
+    const records = getUsageRecords(msg, session.info.id, options);
+    if (records.length === 0) {
       skippedCount++;
+      skip(msg, "no-tokens");
       continue;
     }
 
     // skip if no valid timestamp
     if (!hasValidTimestamp(msg)) {
       skippedCount++;
+      skip(msg, "no-timestamp");
       continue;
     }
 
@@ -115,19 +262,24 @@ export function convertSession(
     const key = dedupeKey(msg.info.id, getTimestamp(msg));
     if (seen.has(key)) {
       skippedCount++;
+      skip(msg, "duplicate");
       continue;
     }
     seen.add(key);
 
-    // convert & add
-    const line = convertMessage(msg, session.info.id, options);
-    lines.push(line);
+    // convert & add (one line per message or per step)
+    if (records.some((record) => !isRecordedCost(record.cost))) {
+      missingCostCount++;
+    }
+    for (const record of records) {
+      lines.push(convertRecord(record, msg, session.info.id, options));
+    }
   }
 
   // sort by timestamp ascending (deterministic ordering)
   lines.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
 
-  return { lines, skippedCount };
+  return { lines, skippedCount, missingCostCount, filteredCounts, skippedMessages };
 }
 
 // serialize ccusage lines to JSONL format
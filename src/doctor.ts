@@ -0,0 +1,311 @@
+// src/doctor.ts
+// doctor checks - diagnoses OpenCode, Claude Code, ccusage & export setup
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { getCcusageVersionError, resolveCcusage } from "./ccusage-cli.js";
+import { OPENCODE_CONFIG_DIR } from "./constants.js";
+import { listJsonlFiles, parseUsageLines } from "./native-report.js";
+import { getOpenCodeVersion, readSessionListItem, resolveStorageDir } from "./session.js";
+import type { DoctorCheck, DoctorReport, DoctorStatus, StorageDirSource } from "./types.js";
+import { getClaudeDataDirs } from "./usage-sources.js";
+import { fileExists, getErrorMessage, pluralize } from "./utils.js";
+
+export interface DoctorOptions {
+  /** OpenCode data directory (parent of storage/; default: auto-detected) */
+  openCodeDir?: string;
+  /** Export directory ccusage reads (default: OPENCODE_CONFIG_DIR) */
+  outDir?: string;
+}
+
+// max file paths listed in details
+const MAX_LISTED_FILES = 5;
+
+// describe where the storage directory came from
+const STORAGE_DIR_REASONS: Record<StorageDirSource, string> = {
+  override: "--opencode-dir or config profile",
+  env: "OPENCODE_DATA_DIR",
+  xdg: "XDG_DATA_HOME",
+  default: "platform default",
+};
+
+// list first few paths (+ "and N more")
+function listFiles(files: string[]): string {
+  const shown = files.slice(0, MAX_LISTED_FILES).map((file) => `\n  - ${file}`);
+  const hidden = files.length - MAX_LISTED_FILES;
+  return shown.join("") + (hidden > 0 ? `\n  ...and ${hidden} more` : "");
+}
+
+// OpenCode CLI (optional: only used as a fallback & w/ --source cli)
+export async function checkOpenCodeCli(): Promise<DoctorCheck> {
+  const version = await getOpenCodeVersion();
+  if (version) {
+    return {
+      id: "opencode-cli",
+      title: "OpenCode CLI",
+      status: "pass",
+      detail: `opencode ${version}`,
+      data: { version },
+    };
+  }
+  return {
+    id: "opencode-cli",
+    title: "OpenCode CLI",
+    status: "warn",
+    detail: "opencode not found on PATH",
+    fix:
+      "Only needed for --source cli or when storage reads fail; " +
+      "install OpenCode to enable the fallback.",
+  };
+}
+
+// OpenCode storage directory & why it was picked
+export async function checkStorageDir(openCodeDir?: string): Promise<DoctorCheck> {
+  const { dir, source } = resolveStorageDir(openCodeDir);
+  const reason = STORAGE_DIR_REASONS[source];
+  const data = { dir, source };
+
+  if (await fileExists(dir)) {
+    return {
+      id: "storage-dir",
+      title: "OpenCode storage",
+      status: "pass",
+      detail: `${dir} (from ${reason})`,
+      data,
+    };
+  }
+  return {
+    id: "storage-dir",
+    title: "OpenCode storage",
+    status: "fail",
+    detail: `${dir} (from ${reason}) does not exist`,
+    fix:
+      source === "default" || source === "xdg"
+        ? "Run OpenCode once, or point OPENCODE_DATA_DIR (or --opencode-dir) at its data dir."
+        : `Check ${reason}: it must be the directory that contains storage/.`,
+    data,
+  };
+}
+
+// stored sessions & files that fail to parse
+export async function checkSessions(openCodeDir?: string): Promise<DoctorCheck> {
+  const sessionsDir = path.join(resolveStorageDir(openCodeDir).dir, "session");
+  if (!(await fileExists(sessionsDir))) {
+    return {
+      id: "sessions",
+      title: "OpenCode sessions",
+      status: "fail",
+      detail: `No session directory at ${sessionsDir}`,
+      fix: "Fix the OpenCode storage check first.",
+      data: { sessions: 0, unparseable: [] },
+    };
+  }
+
+  let sessions = 0;
+  const unparseable: string[] = [];
+  try {
+    for (const projectDir of await readdir(sessionsDir, { withFileTypes: true })) {
+      if (!projectDir.isDirectory()) continue;
+      const projectPath = path.join(sessionsDir, projectDir.name);
+      for (const file of await readdir(projectPath)) {
+        if (!file.endsWith(".json")) continue;
+        const filePath = path.join(projectPath, file);
+        if (await readSessionListItem(filePath)) {
+          sessions++;
+        } else {
+          unparseable.push(filePath);
+        }
+      }
+    }
+  } catch (err) {
+    return {
+      id: "sessions",
+      title: "OpenCode sessions",
+      status: "fail",
+      detail: `Cannot read ${sessionsDir}: ${getErrorMessage(err)}`,
+      fix: "Check the directory's permissions.",
+    };
+  }
+
+  const data = { sessions, unparseable };
+  if (unparseable.length > 0) {
+    return {
+      id: "sessions",
+      title: "OpenCode sessions",
+      status: "warn",
+      detail:
+        `${pluralize(sessions, "session")}, ` +
+        `${pluralize(unparseable.length, "unparseable session file")}:${listFiles(unparseable)}`,
+      fix:
+        "These sessions are skipped. Check the files for truncation, " +
+        "or update opencode-to-ccusage if OpenCode changed its format.",
+      data,
+    };
+  }
+  if (sessions === 0) {
+    return {
+      id: "sessions",
+      title: "OpenCode sessions",
+      status: "warn",
+      detail: `No sessions in ${sessionsDir}`,
+      fix: "Use OpenCode at least once, or check that this is the right data directory.",
+      data,
+    };
+  }
+  return {
+    id: "sessions",
+    title: "OpenCode sessions",
+    status: "pass",
+    detail: pluralize(sessions, "session"),
+    data,
+  };
+}
+
+// Claude Code data directories (CLAUDE_CONFIG_DIR or default locations)
+export function checkClaudeDirs(): DoctorCheck {
+  const dirs = getClaudeDataDirs();
+  const reason = process.env.CLAUDE_CONFIG_DIR ? " (from CLAUDE_CONFIG_DIR)" : "";
+
+  if (dirs.length > 0) {
+    return {
+      id: "claude-dirs",
+      title: "Claude Code data",
+      status: "pass",
+      detail: `${dirs.join(", ")}${reason}`,
+      data: { dirs },
+    };
+  }
+  return {
+    id: "claude-dirs",
+    title: "Claude Code data",
+    status: "warn",
+    detail: "No Claude Code data directory found (~/.config/claude or ~/.claude)",
+    fix: "Only needed for Claude Code usage. Set CLAUDE_CONFIG_DIR if your data lives elsewhere.",
+    data: { dirs },
+  };
+}
+
+// ccusage availability & version
+export async function checkCcusage(): Promise<DoctorCheck> {
+  const binary = await resolveCcusage();
+  if (!binary) {
+    return {
+      id: "ccusage",
+      title: "ccusage",
+      status: "warn",
+      detail: "ccusage is not installed",
+      fix: "Run npm install ccusage, or use report --engine native.",
+    };
+  }
+
+  const data = { version: binary.version, origin: binary.origin };
+  const where = binary.origin === "package" ? "bundled dependency" : "on PATH";
+  const versionError = getCcusageVersionError(binary);
+  if (versionError) {
+    const [detail, fix] = versionError.split("\n");
+    return { id: "ccusage", title: "ccusage", status: "fail", detail, fix, data };
+  }
+  return {
+    id: "ccusage",
+    title: "ccusage",
+    status: "pass",
+    detail: `ccusage ${binary.version} (${where})`,
+    data,
+  };
+}
+
+// exported JSONL files ccusage reads (<outDir>/projects/**/*.jsonl)
+export async function checkExportDir(outDir = OPENCODE_CONFIG_DIR): Promise<DoctorCheck> {
+  const projectsDir = path.join(outDir, "projects");
+  const files = await listJsonlFiles(projectsDir);
+  if (files.length === 0) {
+    return {
+      id: "export-dir",
+      title: "Exported usage",
+      status: "warn",
+      detail: `No JSONL files in ${projectsDir}`,
+      fix: "Run opencode-to-ccusage export, then run the report again.",
+      data: { dir: outDir, files: 0, usageLines: 0 },
+    };
+  }
+
+  let usageLines = 0;
+  const unreadable: string[] = [];
+  const empty: string[] = [];
+  for (const file of files) {
+    try {
+      const count = parseUsageLines(await readFile(file, "utf-8"), "").length;
+      usageLines += count;
+      if (count === 0) empty.push(file);
+    } catch {
+      unreadable.push(file);
+    }
+  }
+
+  const data = { dir: outDir, files: files.length, usageLines, unreadable, empty };
+  const summary = `${pluralize(files.length, "file")}, ${pluralize(usageLines, "usage line")}`;
+  if (unreadable.length > 0 || usageLines === 0) {
+    return {
+      id: "export-dir",
+      title: "Exported usage",
+      status: "fail",
+      detail:
+        unreadable.length > 0
+          ? `${summary}; ${pluralize(unreadable.length, "unreadable file")}:` +
+            listFiles(unreadable)
+          : `${summary}; ccusage can't read any usage from ${projectsDir}`,
+      fix: "Check file permissions, then re-export with opencode-to-ccusage export.",
+      data,
+    };
+  }
+  if (empty.length > 0) {
+    return {
+      id: "export-dir",
+      title: "Exported usage",
+      status: "warn",
+      detail: `${summary}; ${pluralize(empty.length, "file")} w/o usage lines:${listFiles(empty)}`,
+      fix: "Re-export them with opencode-to-ccusage export, or run opencode-to-ccusage prune.",
+      data,
+    };
+  }
+  return {
+    id: "export-dir",
+    title: "Exported usage",
+    status: "pass",
+    detail: `${summary} in ${outDir}`,
+    data,
+  };
+}
+
+// * run all checks (in order)
+export async function runDoctor(options: DoctorOptions = {}): Promise<DoctorReport> {
+  const checks = [
+    await checkOpenCodeCli(),
+    await checkStorageDir(options.openCodeDir),
+    await checkSessions(options.openCodeDir),
+    checkClaudeDirs(),
+    await checkCcusage(),
+    await checkExportDir(options.outDir),
+  ];
+
+  const summary: Record<DoctorStatus, number> = { pass: 0, warn: 0, fail: 0 };
+  for (const check of checks) {
+    summary[check.status]++;
+  }
+  return { checks, summary };
+}
+
+// * render checks as "[PASS] Title: detail" lines w/ fixes & a summary
+export function renderDoctorReport(report: DoctorReport): string {
+  const lines: string[] = [];
+  for (const check of report.checks) {
+    lines.push(`[${check.status.toUpperCase()}] ${check.title}: ${check.detail}`);
+    if (check.fix) {
+      lines.push(`       Fix: ${check.fix}`);
+    }
+  }
+
+  const { pass, warn, fail } = report.summary;
+  lines.push("", `${pass} passed, ${pluralize(warn, "warning")}, ${fail} failed`);
+  return lines.join("\n");
+}
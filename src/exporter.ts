@@ -1,20 +1,55 @@
 // src/exporter.ts
 // main export orchestration & statistics
 
-import { createHash } from "node:crypto";
-import { mkdir, stat, writeFile } from "node:fs/promises";
+import { mkdir, writeFile } from "node:fs/promises";
 import path from "node:path";
 import cliProgress from "cli-progress";
 import pLimit from "p-limit";
+import { DEFAULT_SETTINGS } from "./constants.js";
 import { convertSession, toJsonl } from "./converter.js";
+import {
+  createManifestEntry,
+  findVanishedSessions,
+  getScannedRoots,
+  isSessionUnchanged,
+  loadManifest,
+  saveManifest,
+} from "./manifest.js";
+import { addFilterCounts, filterSessions, formatFilterCounts } from "./filters.js";
+import { getProjectSubdir, getSessionOutputPath } from "./output-path.js";
+import { applyPrune, formatPruneCandidate, planPrune } from "./pruner.js";
 import {
   checkOpenCodeAvailable,
   exportSessionWithRetry,
   getStorageDir,
   listSessions,
+  listSessionsFromRoots,
+  readSessionFromStorage,
+  resolveOpenCodeRoots,
 } from "./session.js";
-import type { ExportOptions, ExportStats, GroupBy, SessionListItem } from "./types.js";
-import { fileExists, getOptimalConcurrency, pluralize, verboseLog } from "./utils.js";
+import type {
+  ExportManifest,
+  ExportOptions,
+  ExportResult,
+  ExportStats,
+  FilterCounts,
+  ManifestEntry,
+  MessageFilterName,
+  OpenCodeExport,
+  SessionErrorClass,
+  SessionExportRecord,
+  SessionExportStatus,
+  SessionListItem,
+  SessionSkipReason,
+} from "./types.js";
+import {
+  fileExists,
+  getErrorMessage,
+  getOptimalConcurrency,
+  pluralize,
+  verboseLog,
+  warn,
+} from "./utils.js";
 
 // default error rate threshold (25%) - abort if exceeded
 const DEFAULT_ERROR_THRESHOLD = 0.25;
@@ -46,77 +81,360 @@ export function createExportOptions(
   return {
     outDir,
     overwrite: true,
-    includeReasoningInOutput: true,
-    groupBy: "flat",
+    includeReasoningInOutput: DEFAULT_SETTINGS.includeReasoningInOutput,
+    costMode: DEFAULT_SETTINGS.costMode,
+    granularity: DEFAULT_SETTINGS.granularity,
+    groupBy: DEFAULT_SETTINGS.groupBy,
+    source: DEFAULT_SETTINGS.source,
     dryRun: false,
     verbose: false,
     ...overrides,
   };
 }
 
-// get output subdirectory for session based on groupBy strategy
-function getProjectSubdir(session: SessionListItem, groupBy: GroupBy): string {
-  switch (groupBy) {
-    case "flat":
-      return "opencode";
-    case "project":
-      return `opencode-${session.projectId}`;
-    case "directory": {
-      // use short hash of directory path for safe filenames
-      const hash = createHash("sha256")
-        .update(session.directory)
-        .digest("hex")
-        .slice(0, 12);
-      return `opencode-${hash}`;
+// * discover sessions from configured OpenCode root(s)
+export async function discoverSessions(
+  options: Pick<ExportOptions, "since" | "openCodeDir" | "openCodeRoots">
+): Promise<SessionListItem[]> {
+  if (options.openCodeRoots && options.openCodeRoots.length > 0) {
+    return listSessionsFromRoots(options.openCodeRoots, options.since);
+  }
+  return listSessions(options.since, options.openCodeDir);
+}
+
+const OPENCODE_NOT_FOUND_MESSAGE =
+  "OpenCode CLI not found or not working.\n\n" +
+  "Please ensure OpenCode is installed and in your PATH:\n" +
+  "  1. Install:  npm install -g opencode\n" +
+  "  2. Verify:   opencode --version\n" +
+  "  3. If installed via Homebrew: brew link opencode\n\n" +
+  "If opencode is installed but not found, check your PATH:\n" +
+  "  echo $PATH | tr ':' '\\n' | grep -E 'npm|node'\n\n" +
+  "Or read sessions directly from storage with --source storage";
+
+// loaded session data, or how loading failed
+interface LoadedSession {
+  data: OpenCodeExport | null;
+  retries: number;
+  errorClass?: SessionErrorClass;
+  error?: string;
+}
+
+// load session from storage or CLI based on source (auto falls back to CLI)
+async function loadSession(
+  session: SessionListItem,
+  options: ExportOptions,
+  cliAvailable: () => Promise<boolean>
+): Promise<LoadedSession> {
+  if (options.source !== "cli") {
+    try {
+      const data = await readSessionFromStorage(session.id, session.projectId, {
+        openCodeDir: session.openCodeDir ?? options.openCodeDir,
+        skipValidation: options.skipValidation,
+      });
+      return { data, retries: 0 };
+    } catch (err) {
+      const message = `Failed to read session ${session.id} from storage: ${getErrorMessage(err)}`;
+      if (options.source === "storage" || !(await cliAvailable())) {
+        if (!options.onEvent) warn(message);
+        return { data: null, retries: 0, errorClass: "storage", error: message };
+      }
+      verboseLog(options.verbose, `  ${message}; falling back to opencode export`);
     }
+  } else if (!(await cliAvailable())) {
+    return {
+      data: null,
+      retries: 0,
+      errorClass: "cli-unavailable",
+      error: `Failed to export session ${session.id}: OpenCode CLI not available`,
+    };
   }
+
+  // export session via CLI (must run from session's directory)
+  let retries = 0;
+  const data = await exportSessionWithRetry(session.id, session.directory, 1, {
+    skipValidation: options.skipValidation,
+    quiet: options.onEvent !== undefined,
+    onRetry: (attempt) => {
+      retries = attempt;
+    },
+  });
+  return data
+    ? { data, retries }
+    : { data, retries, errorClass: "cli", error: `Failed to export session ${session.id}` };
+}
+
+// memoized OpenCode CLI availability check (only run when first needed)
+export function createCliCheck(): () => Promise<boolean> {
+  let cliCheck: Promise<boolean> | undefined;
+  return () => (cliCheck ??= checkOpenCodeAvailable());
 }
 
 // result from processing a single session
-interface SessionResult {
+export interface SessionResult {
   exported: boolean;
   skipped: boolean;
   messagesConverted: number;
   messagesSkipped: number;
+  messagesMissingCost: number;
+  messagesFiltered: FilterCounts<MessageFilterName>;
+  /** Manifest entry for converted session (unset when skipped, failed or dry-run) */
+  manifestEntry?: ManifestEntry;
+  skipReason?: SessionSkipReason;
+  errorClass?: SessionErrorClass;
   error?: string;
+  retries: number;
 }
 
-// * run export process & return statistics
-export async function runExport(options: ExportOptions): Promise<ExportStats> {
-  const stats: ExportStats = {
+// result for session skipped before conversion
+function skippedResult(skipReason: SessionSkipReason): SessionResult {
+  return {
+    exported: false,
+    skipped: true,
+    messagesConverted: 0,
+    messagesSkipped: 0,
+    messagesMissingCost: 0,
+    messagesFiltered: {},
+    skipReason,
+    retries: 0,
+  };
+}
+
+// result for session that failed to load or write
+function failedResult(
+  errorClass: SessionErrorClass,
+  error: string,
+  retries = 0
+): SessionResult {
+  return {
+    exported: false,
+    skipped: false,
+    messagesConverted: 0,
+    messagesSkipped: 0,
+    messagesMissingCost: 0,
+    messagesFiltered: {},
+    errorClass,
+    error,
+    retries,
+  };
+}
+
+// * export single session to its JSONL file (output directory must exist)
+export async function exportSessionToFile(
+  session: SessionListItem,
+  options: ExportOptions,
+  cliAvailable: () => Promise<boolean> = createCliCheck(),
+  manifest?: ExportManifest
+): Promise<SessionResult> {
+  const { subdir, outFile } = getSessionOutputPath(session, options);
+
+  // skip if exists & not overwriting
+  if (!options.overwrite && (await fileExists(outFile))) {
+    verboseLog(options.verbose, `Skipping ${session.id} (file exists)`);
+    return skippedResult("file-exists");
+  }
+
+  // incremental mode: skip if manifest shows same source update, options & intact output
+  if (
+    options.incremental &&
+    (await isSessionUnchanged(manifest?.sessions[session.id], session, options, outFile))
+  ) {
+    verboseLog(options.verbose, `Skipping ${session.id} (unchanged since last export)`);
+    return skippedResult("unchanged");
+  }
+
+  // load session data (storage or CLI)
+  verboseLog(options.verbose, `Exporting ${session.id} from ${session.directory}...`);
+  const loaded = await loadSession(session, options, cliAvailable);
+  if (!loaded.data) {
+    return failedResult(
+      loaded.errorClass ?? "cli",
+      loaded.error ?? `Failed to export session ${session.id}`,
+      loaded.retries
+    );
+  }
+
+  // convert to ccusage format
+  const result = convertSession(loaded.data, {
+    includeReasoningInOutput: options.includeReasoningInOutput,
+    costMode: options.costMode,
+    granularity: options.granularity,
+    model: options.model,
+    provider: options.provider,
+  });
+
+  // skip empty sessions
+  if (result.lines.length === 0) {
+    verboseLog(
+      options.verbose,
+      `  Skipping ${session.id} (no convertible messages)`
+    );
+    return {
+      exported: false,
+      skipped: true,
+      messagesConverted: 0,
+      messagesSkipped: result.skippedCount,
+      messagesMissingCost: 0,
+      messagesFiltered: result.filteredCounts,
+      manifestEntry: options.dryRun
+        ? undefined
+        : createManifestEntry(session, options, outFile, "", 0),
+      skipReason: "no-messages",
+      retries: loaded.retries,
+    };
+  }
+
+  // write or preview
+  const jsonl = toJsonl(result.lines);
+  if (options.dryRun) {
+    if (!options.quiet) {
+      console.log(
+        `[dry-run] Would write ${outFile} (${pluralize(result.lines.length, "line")})`
+      );
+    }
+  } else {
+    try {
+      await writeFile(outFile, jsonl, "utf-8");
+    } catch (err) {
+      const message = `Failed to write ${outFile}: ${getErrorMessage(err)}`;
+      if (!options.onEvent) warn(message);
+      return failedResult("write", message, loaded.retries);
+    }
+    verboseLog(
+      options.verbose,
+      `  Wrote ${pluralize(result.lines.length, "line")} to ${subdir}/${session.id}.jsonl`
+    );
+  }
+  verboseLog(
+    options.verbose && result.missingCostCount > 0,
+    `  ${pluralize(result.missingCostCount, "message")} in ${session.id} had no recorded cost`
+  );
+
+  return {
+    exported: true,
+    skipped: false,
+    messagesConverted: result.lines.length,
+    messagesSkipped: result.skippedCount,
+    messagesMissingCost: result.missingCostCount,
+    messagesFiltered: result.filteredCounts,
+    manifestEntry: options.dryRun
+      ? undefined
+      : createManifestEntry(session, options, outFile, jsonl, result.lines.length),
+    retries: loaded.retries,
+  };
+}
+
+// build per-session record from export result
+function toSessionRecord(
+  session: SessionListItem,
+  result: SessionResult,
+  options: ExportOptions
+): SessionExportRecord {
+  const status: SessionExportStatus = result.exported
+    ? "exported"
+    : result.skipped
+      ? "skipped"
+      : "failed";
+  return {
+    sessionId: session.id,
+    directory: session.directory,
+    status,
+    outputFile: getSessionOutputPath(session, options).outFile,
+    linesWritten: result.messagesConverted,
+    messagesSkipped: result.messagesSkipped,
+    messagesMissingCost: result.messagesMissingCost,
+    ...(result.skipReason && { skipReason: result.skipReason }),
+    ...(result.errorClass && { errorClass: result.errorClass }),
+    ...(result.error && { error: result.error }),
+    retries: result.retries,
+  };
+}
+
+// create empty export statistics
+export function createExportStats(): ExportStats {
+  return {
     sessionsDiscovered: 0,
     sessionsExported: 0,
     sessionsSkipped: 0,
     messagesConverted: 0,
     messagesSkipped: 0,
+    messagesMissingCost: 0,
+    vanishedSessions: [],
+    filesPruned: 0,
+    sessionsFiltered: {},
+    messagesFiltered: {},
     errors: [],
   };
+}
 
-  // check OpenCode is available
-  const available = await checkOpenCodeAvailable();
-  if (!available) {
-    throw new Error(
-      "OpenCode CLI not found or not working.\n\n" +
-        "Please ensure OpenCode is installed and in your PATH:\n" +
-        "  1. Install:  npm install -g opencode\n" +
-        "  2. Verify:   opencode --version\n" +
-        "  3. If installed via Homebrew: brew link opencode\n\n" +
-        "If opencode is installed but not found, check your PATH:\n" +
-        "  echo $PATH | tr ':' '\\n' | grep -E 'npm|node'"
-    );
+// event listeners replace console output (implies quiet) & a throwing listener can't fail the run
+function withGuardedListener(options: ExportOptions): ExportOptions {
+  const { onEvent } = options;
+  if (!onEvent) return options;
+  return {
+    ...options,
+    quiet: true,
+    onEvent: (event) => {
+      try {
+        onEvent(event);
+      } catch (err) {
+        warn(`Export event listener failed on "${event.type}": ${getErrorMessage(err)}`);
+      }
+    },
+  };
+}
+
+// * run export process & return statistics
+export async function runExport(exportOptions: ExportOptions): Promise<ExportResult> {
+  const options = withGuardedListener(exportOptions);
+  const stats: ExportResult = { ...createExportStats(), dryRun: options.dryRun, sessions: [] };
+
+  // check OpenCode CLI lazily (only needed for cli source or storage fallback)
+  const cliAvailable = createCliCheck();
+
+  // CLI source requires OpenCode up front
+  if (options.source === "cli" && !(await cliAvailable())) {
+    throw new Error(OPENCODE_NOT_FOUND_MESSAGE);
   }
 
-  // show storage directory being used
-  const storageDir = getStorageDir(options.openCodeDir);
-  verboseLog(options.verbose, `Using OpenCode storage: ${storageDir}`);
+  // show storage directories being used
+  if (options.openCodeRoots && options.openCodeRoots.length > 0) {
+    for (const root of resolveOpenCodeRoots(options.openCodeRoots)) {
+      verboseLog(options.verbose, `Using OpenCode storage (${root.label}): ${getStorageDir(root.dir)}`);
+    }
+  } else {
+    const storageDir = getStorageDir(options.openCodeDir);
+    verboseLog(options.verbose, `Using OpenCode storage: ${storageDir}`);
+  }
 
-  // discover sessions
+  // discover all sessions, then apply --since/--until/--project/--directory/--title
   verboseLog(options.verbose, "Discovering sessions...");
-  const sessions = await listSessions(options.since, options.openCodeDir);
+  const allSessions = await discoverSessions({ ...options, since: undefined });
+  const filtered = filterSessions(allSessions, options);
+  const sessions = filtered.sessions;
   stats.sessionsDiscovered = sessions.length;
+  stats.sessionsFiltered = filtered.removed;
+
+  // load manifest & report sessions that disappeared from storage since last export
+  const manifest = await loadManifest(options.outDir);
+  stats.vanishedSessions = findVanishedSessions(
+    manifest,
+    new Set(allSessions.map((s) => s.id)),
+    getScannedRoots(options)
+  );
+  for (const id of stats.vanishedSessions) {
+    verboseLog(options.verbose, `Session ${id} no longer exists in OpenCode storage`);
+  }
 
   if (sessions.length === 0) {
-    console.log("No sessions found.");
+    if (stats.vanishedSessions.length > 0) {
+      await saveRunManifest(manifest, stats, options);
+    }
+    if (options.onEvent) {
+      options.onEvent({ type: "no-sessions" });
+    } else if (!options.quiet) {
+      console.log("No sessions found.");
+    }
     return stats;
   }
 
@@ -146,8 +464,9 @@ export async function runExport(options: ExportOptions): Promise<ExportStats> {
     );
   }
 
-  // create progress bar for non-verbose mode
-  const progressBar = !options.verbose ? createProgressBar(sessions.length) : null;
+  // create progress bar for non-verbose mode (event listeners get progress events instead)
+  const progressBar =
+    !options.verbose && !options.quiet ? createProgressBar(sessions.length) : null;
   let processedCount = 0;
   let errorCount = 0;
   let aborted = false;
@@ -159,87 +478,22 @@ export async function runExport(options: ExportOptions): Promise<ExportStats> {
   async function processSession(session: SessionListItem): Promise<SessionResult> {
     // check if we should abort due to high error rate
     if (aborted) {
-      return { exported: false, skipped: true, messagesConverted: 0, messagesSkipped: 0 };
-    }
-
-    const subdir = getProjectSubdir(session, options.groupBy);
-    const projectDir = path.join(options.outDir, "projects", subdir);
-    const outFile = path.join(projectDir, `${session.id}.jsonl`);
-
-    // skip if exists & not overwriting
-    if (!options.overwrite && (await fileExists(outFile))) {
-      verboseLog(options.verbose, `Skipping ${session.id} (file exists)`);
-      return { exported: false, skipped: true, messagesConverted: 0, messagesSkipped: 0 };
-    }
-
-    // incremental mode: skip if output file is newer than session update time
-    if (options.incremental && (await fileExists(outFile))) {
-      try {
-        const fileStat = await stat(outFile);
-        // session.updated is in ms, stat.mtimeMs is in ms
-        if (fileStat.mtimeMs >= session.updated) {
-          verboseLog(options.verbose, `Skipping ${session.id} (unchanged since last export)`);
-          return { exported: false, skipped: true, messagesConverted: 0, messagesSkipped: 0 };
-        }
-      } catch {
-        // if stat fails, proceed with export
-      }
-    }
-
-    // export session (must run from session's directory)
-    verboseLog(options.verbose, `Exporting ${session.id} from ${session.directory}...`);
-    const exported = await exportSessionWithRetry(session.id, session.directory, 1, {
-      skipValidation: options.skipValidation,
-    });
-    if (!exported) {
-      return {
-        exported: false,
-        skipped: false,
-        messagesConverted: 0,
-        messagesSkipped: 0,
-        error: `Failed to export session ${session.id}`,
-      };
-    }
-
-    // convert to ccusage format
-    const result = convertSession(exported, {
-      includeReasoningInOutput: options.includeReasoningInOutput,
-    });
-
-    // skip empty sessions
-    if (result.lines.length === 0) {
-      verboseLog(
-        options.verbose,
-        `  Skipping ${session.id} (no convertible messages)`
-      );
-      return {
-        exported: false,
-        skipped: true,
-        messagesConverted: 0,
-        messagesSkipped: result.skippedCount,
-      };
+      return skippedResult("aborted");
     }
+    options.onEvent?.({ type: "session-started", session });
+    return exportSessionToFile(session, options, cliAvailable, manifest);
+  }
 
-    // write or preview
-    if (options.dryRun) {
-      console.log(
-        `[dry-run] Would write ${outFile} (${pluralize(result.lines.length, "line")})`
-      );
+  // report finished session & progress to event listener
+  function emitSessionEvents(session: SessionListItem, result: SessionResult): void {
+    if (!options.onEvent) return;
+    const record = toSessionRecord(session, result, options);
+    if (record.status === "failed") {
+      options.onEvent({ type: "session-failed", session, record, error: record.error ?? "" });
     } else {
-      const jsonl = toJsonl(result.lines);
-      await writeFile(outFile, jsonl, "utf-8");
-      verboseLog(
-        options.verbose,
-        `  Wrote ${pluralize(result.lines.length, "line")} to ${subdir}/${session.id}.jsonl`
-      );
+      options.onEvent({ type: `session-${record.status}`, session, record });
     }
-
-    return {
-      exported: true,
-      skipped: false,
-      messagesConverted: result.lines.length,
-      messagesSkipped: result.skippedCount,
-    };
+    options.onEvent({ type: "progress", processed: processedCount, total: sessions.length });
   }
 
   // process all sessions in parallel with concurrency limit
@@ -250,6 +504,7 @@ export async function runExport(options: ExportOptions): Promise<ExportStats> {
       // update progress (atomic increment)
       processedCount++;
       progressBar?.update(processedCount);
+      emitSessionEvents(session, result);
 
       // track errors and check threshold
       if (result.error) {
@@ -270,8 +525,8 @@ export async function runExport(options: ExportOptions): Promise<ExportStats> {
   // stop progress bar
   progressBar?.stop();
 
-  // aggregate results
-  for (const result of results) {
+  // aggregate results (results are in session order)
+  for (const [i, result] of results.entries()) {
     if (result.exported) {
       stats.sessionsExported++;
     } else if (result.skipped) {
@@ -282,19 +537,75 @@ export async function runExport(options: ExportOptions): Promise<ExportStats> {
     }
     stats.messagesConverted += result.messagesConverted;
     stats.messagesSkipped += result.messagesSkipped;
+    stats.messagesMissingCost += result.messagesMissingCost;
+    addFilterCounts(stats.messagesFiltered, result.messagesFiltered);
+    if (result.manifestEntry) {
+      manifest.sessions[sessions[i].id] = result.manifestEntry;
+    }
+    stats.sessions.push(toSessionRecord(sessions[i], result, options));
+  }
+
+  // persist manifest for next incremental run
+  await saveRunManifest(manifest, stats, options);
+
+  // remove orphaned & duplicate files (against unfiltered session list)
+  if (options.prune && !aborted) {
+    await pruneAfterExport(allSessions, manifest, options, stats);
   }
 
   // report if aborted due to high error rate
   if (aborted) {
-    const errorRate = (errorCount / processedCount * 100).toFixed(1);
-    console.error(
-      `\nAborted: Error rate (${errorRate}%) exceeded threshold (${DEFAULT_ERROR_THRESHOLD * 100}%)`
-    );
+    const errorRate = errorCount / processedCount;
+    if (options.onEvent) {
+      options.onEvent({ type: "aborted", errorRate });
+    } else {
+      console.error(
+        `\nAborted: Error rate (${(errorRate * 100).toFixed(1)}%) exceeded threshold ` +
+          `(${DEFAULT_ERROR_THRESHOLD * 100}%)`
+      );
+    }
   }
 
   return stats;
 }
 
+// save manifest after run, marking vanished sessions (reported once; files kept until pruned)
+async function saveRunManifest(
+  manifest: ExportManifest,
+  stats: ExportStats,
+  options: ExportOptions
+): Promise<void> {
+  if (options.dryRun) return;
+  for (const id of stats.vanishedSessions) {
+    manifest.sessions[id].vanished = true;
+  }
+  await mkdir(options.outDir, { recursive: true });
+  await saveManifest(options.outDir, manifest);
+}
+
+// prune export directory after export (dry-run only lists candidates)
+async function pruneAfterExport(
+  sessions: SessionListItem[],
+  manifest: ExportManifest,
+  options: ExportOptions,
+  stats: ExportStats
+): Promise<void> {
+  try {
+    const candidates = await planPrune(sessions, manifest, options);
+    if (options.dryRun) {
+      for (const candidate of options.quiet ? [] : candidates) {
+        console.log(`[dry-run] Would remove ${formatPruneCandidate(candidate, options.outDir)}`);
+      }
+      return;
+    }
+    const result = await applyPrune(candidates, manifest, options);
+    stats.filesPruned = result.removed;
+    stats.errors.push(...result.errors);
+  } catch (err) {
+    stats.errors.push(`Prune failed: ${getErrorMessage(err)}`);
+  }
+}
+
 // print export statistics summary
 export function printSummary(stats: ExportStats): void {
   console.log("");
@@ -305,6 +616,35 @@ export function printSummary(stats: ExportStats): void {
   console.log(`Messages converted:  ${stats.messagesConverted}`);
   console.log(`Messages skipped:    ${stats.messagesSkipped}`);
 
+  if (stats.messagesMissingCost > 0) {
+    console.log(`Messages w/o cost:   ${stats.messagesMissingCost}`);
+  }
+
+  if (stats.vanishedSessions.length > 0) {
+    console.log(`Sessions vanished:   ${stats.vanishedSessions.length}`);
+    for (const id of stats.vanishedSessions) {
+      console.log(`  - ${id}`);
+    }
+  }
+
+  if (Object.keys(stats.sessionsFiltered).length > 0) {
+    const total = Object.values(stats.sessionsFiltered).reduce((a, b) => a + b, 0);
+    console.log(
+      `Sessions filtered:   ${total} (${formatFilterCounts(stats.sessionsFiltered)})`
+    );
+  }
+
+  if (Object.keys(stats.messagesFiltered).length > 0) {
+    const total = Object.values(stats.messagesFiltered).reduce((a, b) => a + b, 0);
+    console.log(
+      `Messages filtered:   ${total} (${formatFilterCounts(stats.messagesFiltered)})`
+    );
+  }
+
+  if (stats.filesPruned > 0) {
+    console.log(`Files pruned:        ${stats.filesPruned}`);
+  }
+
   if (stats.errors.length > 0) {
     console.log(`Errors:              ${stats.errors.length}`);
     for (const err of stats.errors) {
@@ -0,0 +1,117 @@
+// src/filters.ts
+// session filters (applied at discovery) & message filters (applied during conversion)
+
+import os from "node:os";
+import type {
+  ExportOptions,
+  FilterCounts,
+  MessageFilterName,
+  OpenCodeMessage,
+  SessionFilterName,
+  SessionListItem,
+} from "./types.js";
+import { getErrorMessage } from "./utils.js";
+
+export type SessionFilterOptions = Pick<
+  ExportOptions,
+  "since" | "until" | "project" | "directory" | "title"
+>;
+
+export type MessageFilterOptions = Pick<ExportOptions, "model" | "provider">;
+
+// convert glob to anchored regex (* within segment, ** across segments, ? single char)
+// w/ paths = false, * & ? also match "/" (model & provider ids like "anthropic/claude-3.5-sonnet")
+export function globToRegExp(pattern: string, paths = true): RegExp {
+  const expanded = pattern.startsWith("~/") ? os.homedir() + pattern.slice(1) : pattern;
+  let source = "";
+  for (let i = 0; i < expanded.length; i++) {
+    const char = expanded[i];
+    if (char === "*" && expanded[i + 1] === "*") {
+      source += ".*";
+      i++;
+    } else if (char === "*") {
+      source += paths ? "[^/]*" : ".*";
+    } else if (char === "?") {
+      source += paths ? "[^/]" : ".";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// compile --title value (case-insensitive regex)
+export function parseTitleFilter(value: string): RegExp {
+  try {
+    return new RegExp(value, "i");
+  } catch (err) {
+    throw new Error(`Invalid --title value: "${value}". ${getErrorMessage(err)}`);
+  }
+}
+
+// create predicate returning first session filter that rejects a session (null = kept)
+export function createSessionFilter(
+  options: SessionFilterOptions
+): (session: SessionListItem) => SessionFilterName | null {
+  const sinceMs = options.since?.getTime();
+  const untilMs = options.until?.getTime();
+  const directory = options.directory ? globToRegExp(options.directory) : undefined;
+  const title = options.title ? parseTitleFilter(options.title) : undefined;
+
+  return (session) => {
+    if (sinceMs !== undefined && session.created < sinceMs) return "since";
+    if (untilMs !== undefined && session.created >= untilMs) return "until";
+    if (options.project && session.projectId !== options.project) return "project";
+    if (directory && !directory.test(session.directory)) return "directory";
+    if (title && !title.test(session.title)) return "title";
+    return null;
+  };
+}
+
+// create predicate returning first message filter that rejects a message (null = kept)
+export function createMessageFilter(
+  options: MessageFilterOptions
+): (msg: OpenCodeMessage) => MessageFilterName | null {
+  const model = options.model ? globToRegExp(options.model, false) : undefined;
+  const provider = options.provider ? globToRegExp(options.provider, false) : undefined;
+
+  return (msg) => {
+    if (model && !model.test(msg.info.modelID ?? "")) return "model";
+    if (provider && !provider.test(msg.info.providerID ?? "")) return "provider";
+    return null;
+  };
+}
+
+// add counts into running totals
+export function addFilterCounts<T extends string>(
+  target: FilterCounts<T>,
+  counts: FilterCounts<T>
+): void {
+  for (const [name, count] of Object.entries(counts) as [T, number][]) {
+    target[name] = (target[name] ?? 0) + count;
+  }
+}
+
+// * apply session filters & count how many sessions each one removed
+export function filterSessions(
+  sessions: SessionListItem[],
+  options: SessionFilterOptions
+): { sessions: SessionListItem[]; removed: FilterCounts<SessionFilterName> } {
+  const rejects = createSessionFilter(options);
+  const removed: FilterCounts<SessionFilterName> = {};
+  const kept = sessions.filter((session) => {
+    const filter = rejects(session);
+    if (filter) {
+      removed[filter] = (removed[filter] ?? 0) + 1;
+    }
+    return !filter;
+  });
+  return { sessions: kept, removed };
+}
+
+// format filter counts for summary (e.g. "project: 2, title: 1")
+export function formatFilterCounts(counts: FilterCounts<string>): string {
+  return Object.entries(counts)
+    .map(([name, count]) => `${name}: ${count}`)
+    .join(", ");
+}
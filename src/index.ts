@@ -4,10 +4,20 @@
 
 import { createRequire } from "node:module";
 import { Command } from "commander";
-import { exportCommand, reportCommand } from "./commands/index.js";
+import {
+  configCommand,
+  convertCommand,
+  doctorCommand,
+  exportCommand,
+  pruneCommand,
+  reportCommand,
+  sessionsCommand,
+  showCommand,
+  verifyCommand,
+} from "./commands/index.js";
+import { getExportSettingsOrExit, resolveCommandSettingsOrExit } from "./config.js";
 import { createExportOptions, printSummary, runExport } from "./exporter.js";
-import type { GroupBy } from "./types.js";
-import { getErrorMessage, parseSinceOrExit } from "./utils.js";
+import { collect, getErrorMessage, parseSinceOrExit } from "./utils.js";
 
 // import version from package.json to keep it in sync
 const require = createRequire(import.meta.url);
@@ -21,6 +31,13 @@ const program = new Command()
 // add subcommands
 program.addCommand(exportCommand);
 program.addCommand(reportCommand);
+program.addCommand(convertCommand);
+program.addCommand(pruneCommand);
+program.addCommand(doctorCommand);
+program.addCommand(sessionsCommand);
+program.addCommand(showCommand);
+program.addCommand(verifyCommand);
+program.addCommand(configCommand);
 
 // advanced command for full control (legacy/advanced usage)
 const advancedCommand = new Command("advanced")
@@ -31,6 +48,15 @@ const advancedCommand = new Command("advanced")
     "--since <value>",
     "Only export sessions after cutoff (ISO date or number of days)"
   )
+  .option(
+    "--until <value>",
+    "Only export sessions created before cutoff (ISO date or number of days)"
+  )
+  .option("--project <id>", "Only export sessions of this OpenCode project ID")
+  .option("--directory <glob>", "Only export sessions whose directory matches glob")
+  .option("--title <regex>", "Only export sessions whose title matches regex (case-insensitive)")
+  .option("--model <glob>", "Only export messages whose model ID matches glob")
+  .option("--provider <glob>", "Only export messages whose provider ID matches glob")
   .option(
     "--include-reasoning-in-output",
     "Fold reasoning tokens into output_tokens (default: true)"
@@ -45,39 +71,62 @@ const advancedCommand = new Command("advanced")
     "flat"
   )
   .option(
-    "--opencode-dir <path>",
-    "Override OpenCode data directory (default: auto-detected)"
+    "--opencode-dir <[label=]path>",
+    "OpenCode data directory, repeatable w/ optional label (default: auto-detected)",
+    collect
+  )
+  .option(
+    "--source <type>",
+    "Read sessions from: auto (storage w/ CLI fallback), storage, or cli",
+    "auto"
+  )
+  .option(
+    "--cost-mode <mode>",
+    "Write OpenCode's recorded cost: auto (when recorded), opencode (always), or calculate (never)",
+    "auto"
+  )
+  .option(
+    "--granularity <level>",
+    "Usage lines per assistant message (default) or per step (model call): message or step",
+    "message"
+  )
+  .option("--prune", "Remove orphaned & duplicate session files after export", false)
+  .option("--profile <name>", "Settings profile from the config file")
+  .option(
+    "--config <file>",
+    "Config file w/ settings profiles (default: ~/.config/opencode-to-ccusage/config.json)"
   )
   .option("--dry-run", "Preview without writing files", false)
   .option("--verbose", "Show detailed progress", false  )
-  .action(async (opts) => {
-    // validate --group-by
-    const validGroupBy = ["flat", "project", "directory"];
-    if (!validGroupBy.includes(opts.groupBy)) {
-      console.error(
-        `Error: Invalid --group-by value "${opts.groupBy}". Must be one of: ${validGroupBy.join(", ")}`
-      );
-      process.exit(1);
-    }
-
-    // parse --since if provided
-    const since = parseSinceOrExit(opts.since);
+  .option("--json", "Print structured result (stats & per-session records) as JSON", false)
+  .action(async (opts, command: Command) => {
+    // flags > env > config profile > defaults
+    const settings = await resolveCommandSettingsOrExit(command);
 
-    // build options
-    const exportOptions = createExportOptions(opts.out, {
+    // build options (settings validated once for export & advanced)
+    const exportOptions = createExportOptions(settings.out, {
+      ...getExportSettingsOrExit(settings),
       overwrite: opts.overwrite,
-      since,
-      includeReasoningInOutput: opts.includeReasoningInOutput,
-      groupBy: opts.groupBy as GroupBy,
-      openCodeDir: opts.opencodeDir,
+      until: parseSinceOrExit(opts.until, "--until"),
+      project: opts.project,
+      directory: opts.directory,
+      title: opts.title,
+      model: opts.model,
+      provider: opts.provider,
+      prune: opts.prune,
       dryRun: opts.dryRun,
-      verbose: opts.verbose,
+      verbose: opts.verbose && !opts.json,
+      quiet: opts.json,
     });
 
     // run export
     try {
       const stats = await runExport(exportOptions);
-      printSummary(stats);
+      if (opts.json) {
+        console.log(JSON.stringify(stats, null, 2));
+      } else {
+        printSummary(stats);
+      }
 
       if (stats.errors.length > 0) {
         process.exit(1);
@@ -91,7 +140,20 @@ const advancedCommand = new Command("advanced")
 program.addCommand(advancedCommand);
 
 // default action: run report command if no subcommand provided
-const subcommands = ["export", "report", "advanced", "help"];
+const subcommands = [
+  "export",
+  "report",
+  "convert",
+  "prune",
+  "doctor",
+  "sessions",
+  "list",
+  "show",
+  "verify",
+  "config",
+  "advanced",
+  "help",
+];
 const helpFlags = ["--help", "-h", "--version", "-V"];
 
 // check if first arg (after node & script) is a known subcommand or help flag
@@ -0,0 +1,14 @@
+// src/lib.ts
+// library entry point - programmatic API (no CLI parsing or other side effects on import)
+
+export {
+  mergeDailyReports,
+  mergeDailyReportsAggregated,
+  parseCcusageOutput,
+} from "./ccusage-merge.js";
+export { convertSession, toJsonl } from "./converter.js";
+export type { ConvertOptions, ConvertResult } from "./converter.js";
+export { createExportOptions, discoverSessions, runExport } from "./exporter.js";
+export { listSessions, listSessionsFromRoots, readSessionFromStorage } from "./session.js";
+export type { StorageReadOptions } from "./session.js";
+export type * from "./types.js";
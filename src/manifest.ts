@@ -0,0 +1,167 @@
+// src/manifest.ts
+// export manifest - records exported sessions for incremental runs & deletion tracking
+
+import { createHash } from "node:crypto";
+import { readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  ExportManifestSchema,
+  type ExportManifest,
+  type ExportOptions,
+  type ManifestEntry,
+  type ManifestOptions,
+  type SessionListItem,
+} from "./types.js";
+import { getStorageDir } from "./session.js";
+import { fileExists } from "./utils.js";
+
+// manifest filename (kept outside projects/ so ccusage ignores it)
+export const MANIFEST_FILENAME = ".opencode-to-ccusage-manifest.json";
+
+// get manifest path for output directory
+export function getManifestPath(outDir: string): string {
+  return path.join(outDir, MANIFEST_FILENAME);
+}
+
+// create empty manifest
+export function createManifest(): ExportManifest {
+  return { version: 1, sessions: {} };
+}
+
+// load manifest from output directory (empty if missing or invalid)
+export async function loadManifest(outDir: string): Promise<ExportManifest> {
+  try {
+    const content = await readFile(getManifestPath(outDir), "utf-8");
+    const parsed = ExportManifestSchema.safeParse(JSON.parse(content));
+    return parsed.success ? parsed.data : createManifest();
+  } catch {
+    return createManifest();
+  }
+}
+
+// write manifest atomically (temp file + rename)
+export async function saveManifest(outDir: string, manifest: ExportManifest): Promise<void> {
+  const manifestPath = getManifestPath(outDir);
+  const tmpPath = `${manifestPath}.tmp`;
+  await writeFile(tmpPath, JSON.stringify(manifest, null, 2) + "\n", "utf-8");
+  await rename(tmpPath, manifestPath);
+}
+
+// hash emitted JSONL content
+export function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+// storage directory recorded for sessions read from OpenCode data dir
+export function getManifestRoot(openCodeDir?: string): string {
+  return path.resolve(getStorageDir(openCodeDir));
+}
+
+// storage directories scanned for --opencode-dir value(s)
+export function getScannedRoots(
+  options: Pick<ExportOptions, "openCodeDir" | "openCodeRoots">
+): Set<string> {
+  const dirs =
+    options.openCodeRoots && options.openCodeRoots.length > 0
+      ? options.openCodeRoots.map((root) => root.dir)
+      : [options.openCodeDir];
+  return new Set(dirs.map(getManifestRoot));
+}
+
+// check if manifest entry came from a scanned root (entries w/o root predate root tracking)
+export function isEntryInRoots(entry: ManifestEntry, roots: Set<string>): boolean {
+  return entry.root === undefined || roots.has(entry.root);
+}
+
+// check if manifest records file as the export of a session from a scanned root
+// (only such files can be orphaned; files from other roots, `convert` or elsewhere are kept)
+export function isFileFromRoots(
+  entry: ManifestEntry | undefined,
+  filePath: string,
+  outDir: string,
+  roots: Set<string>
+): boolean {
+  return (
+    entry !== undefined &&
+    isEntryInRoots(entry, roots) &&
+    path.join(outDir, entry.file) === path.normalize(filePath)
+  );
+}
+
+// options that affect emitted lines or their location
+export function getManifestOptions(options: ExportOptions): ManifestOptions {
+  return {
+    includeReasoningInOutput: options.includeReasoningInOutput,
+    groupBy: options.groupBy,
+    costMode: options.costMode,
+    granularity: options.granularity,
+    ...(options.model && { model: options.model }),
+    ...(options.provider && { provider: options.provider }),
+  };
+}
+
+// create manifest entry for exported session
+export function createManifestEntry(
+  session: SessionListItem,
+  options: ExportOptions,
+  outFile: string,
+  jsonl: string,
+  lines: number
+): ManifestEntry {
+  return {
+    updated: session.updated,
+    file: path.relative(options.outDir, outFile),
+    hash: hashContent(jsonl),
+    lines,
+    options: getManifestOptions(options),
+    root: getManifestRoot(session.openCodeDir ?? options.openCodeDir),
+  };
+}
+
+// check if manifest options match current options
+function optionsMatch(a: ManifestOptions, b: ManifestOptions): boolean {
+  return (
+    a.includeReasoningInOutput === b.includeReasoningInOutput &&
+    a.groupBy === b.groupBy &&
+    a.costMode === b.costMode &&
+    a.granularity === b.granularity &&
+    a.model === b.model &&
+    a.provider === b.provider
+  );
+}
+
+// * check if session can be skipped: same source update, same options & output file intact
+export async function isSessionUnchanged(
+  entry: ManifestEntry | undefined,
+  session: SessionListItem,
+  options: ExportOptions,
+  outFile: string
+): Promise<boolean> {
+  if (!entry || entry.vanished) return false;
+  if (entry.updated !== session.updated) return false;
+  if (!optionsMatch(entry.options, getManifestOptions(options))) return false;
+
+  // sessions w/o convertible messages have no output file
+  if (entry.lines === 0) return true;
+
+  if (entry.file !== path.relative(options.outDir, outFile)) return false;
+  if (!(await fileExists(outFile))) return false;
+
+  const content = await readFile(outFile, "utf-8");
+  return hashContent(content) === entry.hash;
+}
+
+// find manifest sessions of scanned roots newly missing from current storage listing
+// (sessions exported from other --opencode-dir roots or already reported aren't counted)
+export function findVanishedSessions(
+  manifest: ExportManifest,
+  currentIds: Set<string>,
+  roots: Set<string>
+): string[] {
+  return Object.entries(manifest.sessions)
+    .filter(
+      ([id, entry]) => !currentIds.has(id) && !entry.vanished && isEntryInRoots(entry, roots)
+    )
+    .map(([id]) => id)
+    .sort();
+}
@@ -0,0 +1,250 @@
+// src/native-report.ts
+// native report engine - aggregates usage JSONL into ccusage-shaped rollups (no ccusage needed)
+
+import { readdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { calculateCost } from "./pricing.js";
+import {
+  UsageLineSchema,
+  type CcusageDailyOutput,
+  type DailyEntry,
+  type ModelBreakdown,
+  type ReportView,
+} from "./types.js";
+import {
+  calculateTotals,
+  fileExists,
+  formatLocalDate,
+  pluralize,
+  verboseLog,
+  warn,
+} from "./utils.js";
+
+// single usage record read from JSONL
+export interface UsageEntry {
+  timestamp: Date;
+  sessionId: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  /** Recorded cost (preferred over pricing table when present) */
+  costUSD?: number;
+  /** Message ID + request ID (same dedupe key as ccusage) */
+  dedupeKey?: string;
+}
+
+export interface NativeReport {
+  report: CcusageDailyOutput;
+  /** Models w/o recorded cost that are missing from the pricing table (priced at $0) */
+  unpricedModels: string[];
+}
+
+// list *.jsonl files below directory (recursive, empty if missing)
+export async function listJsonlFiles(dir: string): Promise<string[]> {
+  if (!(await fileExists(dir))) {
+    return [];
+  }
+
+  const files: string[] = [];
+  for (const entry of await readdir(dir, { withFileTypes: true })) {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listJsonlFiles(entryPath)));
+    } else if (entry.name.endsWith(".jsonl")) {
+      files.push(entryPath);
+    }
+  }
+  return files;
+}
+
+// parse JSONL content into usage entries (non-usage & malformed lines are ignored)
+export function parseUsageLines(content: string, fallbackSessionId: string): UsageEntry[] {
+  const entries: UsageEntry[] = [];
+
+  for (const raw of content.split("\n")) {
+    if (!raw.trim()) continue;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(raw);
+    } catch {
+      continue;
+    }
+
+    const parsed = UsageLineSchema.safeParse(json);
+    if (!parsed.success) continue;
+
+    const line = parsed.data;
+    const timestamp = new Date(line.timestamp);
+    if (isNaN(timestamp.getTime())) continue;
+
+    const usage = line.message.usage;
+    entries.push({
+      timestamp,
+      sessionId: line.sessionId ?? fallbackSessionId,
+      model: line.message.model ?? "unknown",
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      cacheCreationTokens: usage.cache_creation_input_tokens ?? 0,
+      cacheReadTokens: usage.cache_read_input_tokens ?? 0,
+      costUSD: line.costUSD,
+      ...(line.message.id &&
+        line.requestId && { dedupeKey: `${line.message.id}:${line.requestId}` }),
+    });
+  }
+
+  return entries;
+}
+
+// * load usage entries from `<dir>/projects/**/*.jsonl` for each config directory
+export async function loadUsageEntries(
+  configDirs: string[],
+  verbose = false
+): Promise<UsageEntry[]> {
+  const entries: UsageEntry[] = [];
+  const seen = new Set<string>();
+
+  for (const dir of configDirs) {
+    const files = await listJsonlFiles(path.join(dir, "projects"));
+    verboseLog(verbose, `Reading ${pluralize(files.length, "usage file")} from ${dir}`);
+
+    for (const file of files) {
+      const content = await readFile(file, "utf-8");
+      for (const entry of parseUsageLines(content, path.basename(file, ".jsonl"))) {
+        if (entry.dedupeKey) {
+          if (seen.has(entry.dedupeKey)) continue;
+          seen.add(entry.dedupeKey);
+        }
+        entries.push(entry);
+      }
+    }
+  }
+
+  return entries;
+}
+
+// get rollup key for entry (day, week start (Sunday), month, or session ID)
+export function getPeriodKey(entry: UsageEntry, view: ReportView): string {
+  const date = entry.timestamp;
+  switch (view) {
+    case "daily":
+      return formatLocalDate(date);
+    case "weekly": {
+      const weekStart = new Date(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate() - date.getDay()
+      );
+      return formatLocalDate(weekStart);
+    }
+    case "monthly":
+      return formatLocalDate(date).slice(0, 7);
+    case "session":
+      return entry.sessionId;
+  }
+}
+
+// create empty rollup entry
+function createEntry(date: string): DailyEntry {
+  return {
+    date,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    totalCost: 0,
+    modelsUsed: [],
+    modelBreakdowns: [],
+  };
+}
+
+// * aggregate usage entries into ccusage-shaped rollups (priced from bundled table)
+export function buildNativeReport(entries: UsageEntry[], view: ReportView): NativeReport {
+  const rollups = new Map<
+    string,
+    { entry: DailyEntry; models: Map<string, ModelBreakdown>; lastActivity: Date }
+  >();
+  const unpriced = new Set<string>();
+
+  for (const usage of entries) {
+    const tokens =
+      usage.inputTokens + usage.outputTokens + usage.cacheCreationTokens + usage.cacheReadTokens;
+    if (tokens === 0) continue;
+
+    let cost = usage.costUSD;
+    if (cost === undefined) {
+      cost = calculateCost(usage.model, usage);
+      if (cost === undefined) {
+        unpriced.add(usage.model);
+        cost = 0;
+      }
+    }
+
+    const key = getPeriodKey(usage, view);
+    let rollup = rollups.get(key);
+    if (!rollup) {
+      rollup = { entry: createEntry(key), models: new Map(), lastActivity: usage.timestamp };
+      rollups.set(key, rollup);
+    }
+    if (usage.timestamp > rollup.lastActivity) {
+      rollup.lastActivity = usage.timestamp;
+    }
+
+    const { entry, models } = rollup;
+    entry.inputTokens += usage.inputTokens;
+    entry.outputTokens += usage.outputTokens;
+    entry.cacheCreationTokens += usage.cacheCreationTokens;
+    entry.cacheReadTokens += usage.cacheReadTokens;
+    entry.totalTokens += tokens;
+    entry.totalCost += cost;
+
+    const breakdown = models.get(usage.model) ?? {
+      modelName: usage.model,
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      cost: 0,
+    };
+    breakdown.inputTokens += usage.inputTokens;
+    breakdown.outputTokens += usage.outputTokens;
+    breakdown.cacheCreationTokens += usage.cacheCreationTokens;
+    breakdown.cacheReadTokens += usage.cacheReadTokens;
+    breakdown.cost += cost;
+    models.set(usage.model, breakdown);
+  }
+
+  const daily: DailyEntry[] = [];
+  for (const { entry, models, lastActivity } of rollups.values()) {
+    if (view === "session") {
+      entry.lastActivity = formatLocalDate(lastActivity);
+    }
+    entry.modelsUsed = Array.from(models.keys());
+    entry.modelBreakdowns = Array.from(models.values()).sort((a, b) => b.cost - a.cost);
+    daily.push(entry);
+  }
+
+  // sort by period ascending (same order as ccusage)
+  daily.sort((a, b) => a.date.localeCompare(b.date));
+
+  return { report: { daily, totals: calculateTotals(daily), view }, unpricedModels: Array.from(unpriced).sort() };
+}
+
+// * run native report for config directories (null if no usage found, like runCcusageJson)
+export async function runNativeReport(
+  configDirs: string[],
+  view: ReportView,
+  verbose = false
+): Promise<CcusageDailyOutput | null> {
+  const entries = await loadUsageEntries(configDirs, verbose);
+  const { report, unpricedModels } = buildNativeReport(entries, view);
+
+  if (unpricedModels.length > 0) {
+    warn(`No bundled pricing for ${unpricedModels.join(", ")}; counted as $0`);
+  }
+
+  return report.daily.length > 0 ? report : null;
+}
@@ -0,0 +1,36 @@
+// src/output-path.ts
+// export layout - output subdirectory & JSONL path of a session per --group-by strategy
+
+import { createHash } from "node:crypto";
+import path from "node:path";
+import type { ExportOptions, GroupBy, SessionListItem } from "./types.js";
+
+// get output subdirectory for session based on groupBy strategy
+// (sessions from labeled roots are prefixed w/ the root label)
+export function getProjectSubdir(session: SessionListItem, groupBy: GroupBy): string {
+  const prefix = session.rootLabel ? `opencode-${session.rootLabel}` : "opencode";
+  switch (groupBy) {
+    case "flat":
+      return prefix;
+    case "project":
+      return `${prefix}-${session.projectId}`;
+    case "directory": {
+      // use short hash of directory path for safe filenames
+      const hash = createHash("sha256")
+        .update(session.directory)
+        .digest("hex")
+        .slice(0, 12);
+      return `${prefix}-${hash}`;
+    }
+  }
+}
+
+// get output subdirectory & JSONL file path for session
+export function getSessionOutputPath(
+  session: SessionListItem,
+  options: Pick<ExportOptions, "outDir" | "groupBy">
+): { subdir: string; outFile: string } {
+  const subdir = getProjectSubdir(session, options.groupBy);
+  const outFile = path.join(options.outDir, "projects", subdir, `${session.id}.jsonl`);
+  return { subdir, outFile };
+}
@@ -0,0 +1,84 @@
+// src/pricing.ts
+// bundled offline model pricing table (USD per million tokens) for the native report engine
+
+export interface ModelPricing {
+  input: number;
+  output: number;
+  /** Cache write (creation) price; defaults to input price */
+  cacheWrite?: number;
+  /** Cache read price; defaults to input price */
+  cacheRead?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+}
+
+// keys are normalized model names (matched exactly or w/ a release-date suffix)
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  // Anthropic
+  "claude-opus-4-5": { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 },
+  "claude-opus-4-1": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-sonnet-4-5": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+  "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-5-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+  "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+  "claude-3-opus": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+  "claude-3-haiku": { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 },
+  // OpenAI
+  "gpt-5-nano": { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  "gpt-5-mini": { input: 0.25, output: 2, cacheRead: 0.025 },
+  "gpt-5-codex": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "gpt-5": { input: 1.25, output: 10, cacheRead: 0.125 },
+  "gpt-4-1-nano": { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  "gpt-4-1-mini": { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  "gpt-4-1": { input: 2, output: 8, cacheRead: 0.5 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  "gpt-4o": { input: 2.5, output: 10, cacheRead: 1.25 },
+  "o4-mini": { input: 1.1, output: 4.4, cacheRead: 0.275 },
+  "o3-mini": { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  "o3": { input: 2, output: 8, cacheRead: 0.5 },
+  // Google
+  "gemini-2-5-pro": { input: 1.25, output: 10, cacheRead: 0.31 },
+  "gemini-2-5-flash": { input: 0.3, output: 2.5, cacheRead: 0.075 },
+};
+
+// release-date suffix, e.g. "-20250514" (Anthropic) or "-2024-08-06" (OpenAI)
+const DATE_SUFFIX = /-(\d{8}|\d{4}-\d{2}-\d{2})$/;
+
+// normalize model name (drop provider prefix, lowercase, dots -> dashes)
+// e.g. "anthropic/claude-Sonnet-4.5" -> "claude-sonnet-4-5"
+export function normalizeModelName(model: string): string {
+  const name = model.includes("/") ? model.slice(model.lastIndexOf("/") + 1) : model;
+  return name.toLowerCase().replace(/\./g, "-");
+}
+
+// look up pricing for model (undefined if not in bundled table)
+// only an exact name or a dated snapshot matches, so "o3-pro" is not priced as "o3"
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const normalized = normalizeModelName(model);
+  const key = [normalized, normalized.replace(DATE_SUFFIX, "")].find((name) =>
+    Object.hasOwn(MODEL_PRICING, name)
+  );
+  return key ? MODEL_PRICING[key] : undefined;
+}
+
+// * calculate cost in USD from token usage (undefined if model is not priced)
+export function calculateCost(model: string, usage: TokenUsage): number | undefined {
+  const pricing = getModelPricing(model);
+  if (!pricing) return undefined;
+
+  return (
+    (usage.inputTokens * pricing.input +
+      usage.outputTokens * pricing.output +
+      usage.cacheCreationTokens * (pricing.cacheWrite ?? pricing.input) +
+      usage.cacheReadTokens * (pricing.cacheRead ?? pricing.input)) /
+    1_000_000
+  );
+}
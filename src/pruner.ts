@@ -0,0 +1,220 @@
+// src/pruner.ts
+// prune orphaned, duplicate & empty entries from the export directory
+
+import { readdir, rm, rmdir, stat } from "node:fs/promises";
+import path from "node:path";
+import { getScannedRoots, isFileFromRoots, saveManifest } from "./manifest.js";
+import { getSessionOutputPath } from "./output-path.js";
+import type { ExportManifest, GroupBy, OpenCodeRoot, SessionListItem } from "./types.js";
+import { fileExists, getErrorMessage, verboseLog } from "./utils.js";
+
+export type PruneKind = "orphaned" | "duplicate" | "stale" | "empty-dir";
+
+export interface PruneCandidate {
+  kind: PruneKind;
+  /** Absolute path of file or directory to remove */
+  path: string;
+  sessionId?: string;
+  reason: string;
+}
+
+export interface PruneOptions {
+  outDir: string;
+  groupBy: GroupBy;
+  verbose: boolean;
+  /** OpenCode root(s) sessions were discovered from (files of other roots are kept) */
+  openCodeDir?: string;
+  openCodeRoots?: OpenCodeRoot[];
+}
+
+export interface PruneResult {
+  removed: number;
+  errors: string[];
+}
+
+// exported JSONL file found under projects/opencode*/
+export interface ExportedFile {
+  path: string;
+  sessionId: string;
+  mtimeMs: number;
+}
+
+// list exported session files (only OpenCode subdirectories, never Claude Code data)
+export async function listExportedFiles(projectsDir: string): Promise<{
+  files: ExportedFile[];
+  dirs: string[];
+}> {
+  const files: ExportedFile[] = [];
+  const dirs: string[] = [];
+
+  if (!(await fileExists(projectsDir))) {
+    return { files, dirs };
+  }
+
+  const entries = await readdir(projectsDir, { withFileTypes: true });
+  for (const entry of entries) {
+    if (!entry.isDirectory() || !entry.name.startsWith("opencode")) continue;
+
+    const dir = path.join(projectsDir, entry.name);
+    dirs.push(dir);
+    for (const name of await readdir(dir)) {
+      if (!name.endsWith(".jsonl")) continue;
+      const filePath = path.join(dir, name);
+      files.push({
+        path: filePath,
+        sessionId: name.slice(0, -".jsonl".length),
+        mtimeMs: (await stat(filePath)).mtimeMs,
+      });
+    }
+  }
+
+  return { files, dirs };
+}
+
+// locations a session's file belongs at (manifest location, then current --group-by location)
+function getExpectedPaths(
+  session: SessionListItem,
+  options: PruneOptions,
+  manifest: ExportManifest
+): string[] {
+  const manifestFile = manifest.sessions[session.id]?.file;
+  return [
+    ...(manifestFile ? [path.join(options.outDir, manifestFile)] : []),
+    getSessionOutputPath(session, options).outFile,
+  ];
+}
+
+// pick which of several files for the same session to keep
+// (manifest location > current --group-by location > most recently written)
+function pickKeeper(files: ExportedFile[], expected: string[]): ExportedFile {
+  for (const candidate of expected) {
+    const match = files.find((f) => f.path === candidate);
+    if (match) return match;
+  }
+  return files.reduce((a, b) => (b.mtimeMs > a.mtimeMs ? b : a));
+}
+
+// * compare export tree w/ storage sessions & list what should be removed
+export async function planPrune(
+  sessions: SessionListItem[],
+  manifest: ExportManifest,
+  options: PruneOptions
+): Promise<PruneCandidate[]> {
+  const projectsDir = path.join(options.outDir, "projects");
+  const { files, dirs } = await listExportedFiles(projectsDir);
+
+  // guard against wiping everything when storage lookup is misconfigured
+  if (sessions.length === 0 && files.length > 0) {
+    throw new Error(
+      "No OpenCode sessions found in storage; refusing to treat every exported file as orphaned. " +
+        "Check --opencode-dir or OPENCODE_DATA_DIR."
+    );
+  }
+
+  const sessionsById = new Map(sessions.map((s) => [s.id, s]));
+  const roots = getScannedRoots(options);
+  const filesBySession = new Map<string, ExportedFile[]>();
+  for (const file of files) {
+    const list = filesBySession.get(file.sessionId) ?? [];
+    list.push(file);
+    filesBySession.set(file.sessionId, list);
+  }
+
+  const candidates: PruneCandidate[] = [];
+  for (const [sessionId, sessionFiles] of filesBySession) {
+    const session = sessionsById.get(sessionId);
+    if (!session) {
+      // files the manifest doesn't attribute to a scanned root can't be known to be gone
+      const entry = manifest.sessions[sessionId];
+      for (const file of sessionFiles) {
+        if (!isFileFromRoots(entry, file.path, options.outDir, roots)) {
+          const name = path.relative(options.outDir, file.path);
+          verboseLog(options.verbose, `Keeping ${name} (not exported from a scanned root)`);
+          continue;
+        }
+        candidates.push({
+          kind: "orphaned",
+          path: file.path,
+          sessionId,
+          reason: "session no longer exists in OpenCode storage",
+        });
+      }
+      continue;
+    }
+
+    // copies elsewhere are stale once the session has a file at an expected location
+    // (a session's only file is never removed)
+    const expected = getExpectedPaths(session, options, manifest);
+    const keeper = pickKeeper(sessionFiles, expected);
+    const keeperName = path.relative(options.outDir, keeper.path);
+    const hasExpected = expected.includes(keeper.path);
+    for (const file of sessionFiles) {
+      if (file === keeper) continue;
+      const stale = hasExpected && !expected.includes(file.path);
+      candidates.push({
+        kind: stale ? "stale" : "duplicate",
+        path: file.path,
+        sessionId,
+        reason: stale
+          ? `left by an earlier --group-by layout; current copy is ${keeperName}`
+          : `duplicate of ${keeperName}`,
+      });
+    }
+  }
+
+  // directories that are (or will become) empty
+  const removed = new Set(candidates.map((c) => c.path));
+  for (const dir of dirs) {
+    const remaining = (await readdir(dir)).filter((name) => !removed.has(path.join(dir, name)));
+    if (remaining.length === 0) {
+      candidates.push({ kind: "empty-dir", path: dir, reason: "empty directory" });
+    }
+  }
+
+  candidates.sort((a, b) => a.path.localeCompare(b.path));
+  return candidates;
+}
+
+// * remove planned files & directories, dropping orphaned sessions from the manifest
+export async function applyPrune(
+  candidates: PruneCandidate[],
+  manifest: ExportManifest,
+  options: PruneOptions
+): Promise<PruneResult> {
+  const result: PruneResult = { removed: 0, errors: [] };
+
+  // files first so their directories are empty when removed
+  const ordered = [
+    ...candidates.filter((c) => c.kind !== "empty-dir"),
+    ...candidates.filter((c) => c.kind === "empty-dir"),
+  ];
+
+  for (const candidate of ordered) {
+    try {
+      if (candidate.kind === "empty-dir") {
+        await rmdir(candidate.path);
+      } else {
+        await rm(candidate.path, { force: true });
+      }
+      result.removed++;
+      verboseLog(options.verbose, `Removed ${path.relative(options.outDir, candidate.path)}`);
+
+      if (candidate.kind === "orphaned" && candidate.sessionId) {
+        delete manifest.sessions[candidate.sessionId];
+      }
+    } catch (err) {
+      result.errors.push(`Failed to remove ${candidate.path}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  if (await fileExists(options.outDir)) {
+    await saveManifest(options.outDir, manifest);
+  }
+
+  return result;
+}
+
+// format prune candidate for display
+export function formatPruneCandidate(candidate: PruneCandidate, outDir: string): string {
+  return `[${candidate.kind}] ${path.relative(outDir, candidate.path)} (${candidate.reason})`;
+}
@@ -0,0 +1,384 @@
+// src/report-formats.ts
+// markdown, CSV & HTML renderers for merged reports (terminal table lives in ccusage-merge.ts)
+
+import { buildBudgetGrid, buildProjectionGrid, renderBudgetTable } from "./budget.js";
+import {
+  buildModelGrid,
+  buildReportGrid,
+  getModelTotals,
+  getReportTitle,
+  renderMergedTable,
+} from "./ccusage-merge.js";
+import type {
+  CcusageView,
+  MergedDailyOutput,
+  ReportCell,
+  ReportColumn,
+  ReportFormat,
+  ReportGrid,
+} from "./types.js";
+import { formatCurrency, formatNumber } from "./utils.js";
+
+export interface RenderReportOptions {
+  /** Narrow terminal table (table format only) */
+  compact?: boolean;
+  /** Per-model sub-rows & model totals section */
+  breakdown?: boolean;
+}
+
+// chart bar unit for each view
+const PERIOD_UNITS: Record<CcusageView, string> = {
+  daily: "day",
+  weekly: "week",
+  monthly: "month",
+  session: "session",
+  blocks: "block",
+};
+
+// chart colors assigned to sources in order
+const SOURCE_COLORS = ["#d97757", "#4f7cac", "#6a9f58", "#b07aa1", "#e0a93b", "#7f7f7f"];
+
+// format cell for display (null = no value, shown as "-" except in model sub-rows)
+function formatCell(cell: ReportCell, column: ReportColumn, model = false): string {
+  if (cell === null) return model ? "" : "-";
+  if (typeof cell === "string") return cell;
+  switch (column.kind) {
+    case "tokens":
+      return formatNumber(cell);
+    case "cost":
+      return cell < 0 ? `-${formatCurrency(-cell)}` : formatCurrency(cell);
+    case "share":
+      return `${(cell * 100).toFixed(1)}%`;
+    default:
+      return String(cell);
+  }
+}
+
+// model totals for breakdown (precomputed by runCombinedReport or derived from entries)
+function getModelGrid(output: MergedDailyOutput): ReportGrid | undefined {
+  const models = output.models ?? getModelTotals(output.daily);
+  return models.length > 0 ? buildModelGrid(models) : undefined;
+}
+
+// escape markdown table cell (pipes & line breaks)
+function escapeMarkdown(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+// render grid as GitHub-flavored markdown table ("└─" model sub-rows, "⚠️" days over budget)
+function renderMarkdownGrid(grid: ReportGrid): string {
+  const lines: string[] = [];
+  lines.push(`| ${grid.columns.map((c) => escapeMarkdown(c.head)).join(" | ")} |`);
+  lines.push(`| ${grid.columns.map((c) => (c.kind === "text" ? "---" : "---:")).join(" | ")} |`);
+
+  for (const row of grid.rows) {
+    const cells = row.cells.map((cell, i) => {
+      const text = escapeMarkdown(formatCell(cell, grid.columns[i], row.model));
+      if (row.model && typeof cell === "string" && cell) return `└─ ${text}`;
+      return row.overBudget && i === 0 ? `⚠️ ${text}` : text;
+    });
+    lines.push(`| ${cells.join(" | ")} |`);
+  }
+
+  if (grid.totals.length > 0) {
+    const totals = grid.totals.map((cell, i) => {
+      const text = escapeMarkdown(formatCell(cell, grid.columns[i]));
+      return text ? `**${text}**` : "";
+    });
+    lines.push(`| ${totals.join(" | ")} |`);
+  }
+
+  return lines.join("\n");
+}
+
+// * render merged output as markdown (for PR descriptions & wikis)
+export function renderMarkdown(output: MergedDailyOutput, breakdown = false): string {
+  const sections = [
+    `## ${getReportTitle(output)}`,
+    renderMarkdownGrid(buildReportGrid(output, breakdown)),
+  ];
+
+  const models = breakdown ? getModelGrid(output) : undefined;
+  if (models) {
+    sections.push("### Models", renderMarkdownGrid(models));
+  }
+
+  if (output.budget) {
+    sections.push(
+      "### Budget",
+      renderMarkdownGrid(buildBudgetGrid(output.budget)),
+      renderMarkdownGrid(buildProjectionGrid(output.budget))
+    );
+  }
+
+  return sections.join("\n\n") + "\n";
+}
+
+// quote CSV field when needed (RFC 4180); costs & shares rounded to 6 decimals
+function csvField(cell: ReportCell, column?: ReportColumn): string {
+  if (cell === null) return "";
+  let text: string;
+  if (typeof cell === "number") {
+    text = column?.kind === "tokens" ? String(cell) : String(Number(cell.toFixed(6)));
+  } else {
+    text = cell;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// * render merged output as CSV (one row per entry, no totals row)
+// w/ breakdown: one row per entry & model instead (long format for pivot tables)
+export function renderCsv(output: MergedDailyOutput, breakdown = false): string {
+  const grid = buildReportGrid(output, breakdown);
+  const head = grid.columns.map((c) => (breakdown && c.head === "Models" ? "Model" : c.head));
+  const lines = [head.map((h) => csvField(h)).join(",")];
+  const toLine = (cells: ReportCell[]) =>
+    cells.map((cell, i) => csvField(cell, grid.columns[i])).join(",");
+
+  for (let i = 0; i < grid.rows.length; i++) {
+    const parent = grid.rows[i];
+    if (parent.model) continue;
+
+    // model sub-rows inherit the parent's period, source & detail cells
+    const children = [];
+    while (grid.rows[i + 1]?.model) {
+      children.push(grid.rows[++i]);
+    }
+    if (children.length === 0) {
+      lines.push(toLine(parent.cells));
+      continue;
+    }
+    for (const child of children) {
+      lines.push(toLine(child.cells.map((cell, j) => (cell === "" ? parent.cells[j] : cell))));
+    }
+  }
+
+  return lines.join("\n") + "\n";
+}
+
+// escape text for HTML element & attribute content
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// render grid as HTML table (numbers right-aligned, model sub-rows dimmed, over budget red)
+function renderHtmlGrid(grid: ReportGrid): string {
+  const cellClass = (column: ReportColumn) => (column.kind === "text" ? "" : ' class="num"');
+  const head = grid.columns
+    .map((c) => `<th${cellClass(c)}>${escapeHtml(c.head)}</th>`)
+    .join("");
+  const rows = grid.rows.map((row) => {
+    const cells = row.cells
+      .map((cell, i) => {
+        const text = escapeHtml(formatCell(cell, grid.columns[i], row.model));
+        const value = row.model && typeof cell === "string" && cell ? `└─ ${text}` : text;
+        return `<td${cellClass(grid.columns[i])}>${value}</td>`;
+      })
+      .join("");
+    const rowClass = row.model ? "model" : row.overBudget ? "over" : "";
+    return `<tr${rowClass ? ` class="${rowClass}"` : ""}>${cells}</tr>`;
+  });
+  const totals = grid.totals
+    .map((cell, i) => {
+      const text = escapeHtml(formatCell(cell, grid.columns[i]));
+      return `<td${cellClass(grid.columns[i])}>${text}</td>`;
+    })
+    .join("");
+
+  return [
+    "<table>",
+    `<thead><tr>${head}</tr></thead>`,
+    `<tbody>\n${rows.join("\n")}\n</tbody>`,
+    ...(grid.totals.length > 0 ? [`<tfoot><tr>${totals}</tr></tfoot>`] : []),
+    "</table>",
+  ].join("\n");
+}
+
+// sum cost per period & source (oldest period first)
+function getPeriodCosts(
+  output: MergedDailyOutput
+): { label: string; costs: Map<string, number> }[] {
+  const byPeriod = new Map<string, Map<string, number>>();
+
+  for (const entry of output.daily) {
+    const costs = byPeriod.get(entry.date) ?? new Map<string, number>();
+    const usage = entry.sourceUsage ?? [
+      { source: entry.source ?? "unknown", totalCost: entry.totalCost },
+    ];
+    for (const item of usage) {
+      costs.set(item.source, (costs.get(item.source) ?? 0) + item.totalCost);
+    }
+    byPeriod.set(entry.date, costs);
+  }
+
+  // merged entries are newest first
+  const label = (key: string) =>
+    output.view === "blocks" ? key.slice(0, 16).replace("T", " ") : key;
+  return Array.from(byPeriod, ([key, costs]) => ({ label: label(key), costs })).reverse();
+}
+
+// render stacked cost-per-period bar chart as inline SVG
+function renderCostChart(output: MergedDailyOutput): string {
+  const periods = getPeriodCosts(output);
+  const colorOf = (source: string) => {
+    const index = output.sources.indexOf(source);
+    return SOURCE_COLORS[(index < 0 ? output.sources.length : index) % SOURCE_COLORS.length];
+  };
+
+  const maxCost = Math.max(
+    ...periods.map((p) => Array.from(p.costs.values()).reduce((sum, cost) => sum + cost, 0)),
+    0.01
+  );
+  const plotHeight = 200;
+  const left = 64;
+  const top = 10;
+  const step = Math.max(6, Math.min(40, Math.floor(720 / Math.max(periods.length, 1))));
+  const barWidth = Math.max(4, Math.round(step * 0.75));
+  const width = left + periods.length * step + 20;
+  const height = top + plotHeight + 40;
+  const labelEvery = Math.max(1, Math.ceil(80 / step));
+  const y = (cost: number) => top + plotHeight - (cost / maxCost) * plotHeight;
+
+  const parts: string[] = [];
+
+  // y-axis grid lines & labels
+  for (let i = 0; i <= 4; i++) {
+    const cost = (maxCost * i) / 4;
+    const lineY = y(cost).toFixed(1);
+    parts.push(
+      `<line x1="${left}" x2="${width - 10}" y1="${lineY}" y2="${lineY}" class="grid"/>`,
+      `<text x="${left - 6}" y="${lineY}" class="axis" text-anchor="end" dominant-baseline="middle">${formatCurrency(cost)}</text>`
+    );
+  }
+
+  // stacked bars (one segment per source)
+  periods.forEach((period, i) => {
+    const x = left + i * step + (step - barWidth) / 2;
+    let base = 0;
+    for (const [source, cost] of period.costs) {
+      if (cost <= 0) continue;
+      const barTop = y(base + cost);
+      const barHeight = y(base) - barTop;
+      parts.push(
+        `<rect x="${x.toFixed(1)}" y="${barTop.toFixed(1)}" width="${barWidth}" height="${barHeight.toFixed(1)}" fill="${colorOf(source)}">` +
+          `<title>${escapeHtml(`${period.label} · ${source}: ${formatCurrency(cost)}`)}</title></rect>`
+      );
+      base += cost;
+    }
+    if (i % labelEvery === 0) {
+      parts.push(
+        `<text x="${(x + barWidth / 2).toFixed(1)}" y="${top + plotHeight + 16}" class="axis" text-anchor="middle">${escapeHtml(period.label)}</text>`
+      );
+    }
+  });
+
+  const legend = output.sources
+    .map(
+      (source) =>
+        `<span><i style="background:${colorOf(source)}"></i>${escapeHtml(source)}</span>`
+    )
+    .join("");
+
+  return [
+    `<div class="legend">${legend}</div>`,
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img" aria-label="Cost per period">`,
+    ...parts,
+    "</svg>",
+  ].join("\n");
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 2rem; color: #1f2328; }
+h1 { font-size: 1.4rem; margin-bottom: 0.25rem; }
+h2 { font-size: 1.1rem; margin-top: 2rem; }
+.meta { color: #656d76; margin-top: 0; }
+.chart { overflow-x: auto; }
+.legend { display: flex; gap: 1rem; font-size: 0.85rem; margin-bottom: 0.5rem; }
+.legend i { display: inline-block; width: 0.8rem; height: 0.8rem; margin-right: 0.3rem; border-radius: 2px; vertical-align: -0.1rem; }
+svg .grid { stroke: #d0d7de; stroke-width: 1; }
+svg .axis { fill: #656d76; font-size: 10px; }
+table { border-collapse: collapse; font-size: 0.85rem; }
+th, td { border: 1px solid #d0d7de; padding: 0.3rem 0.6rem; text-align: left; white-space: nowrap; }
+th { background: #f6f8fa; }
+td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+tr.model td { color: #656d76; font-size: 0.8rem; }
+tr.over td { color: #cf222e; background: #ffebe9; }
+tfoot td { font-weight: 600; background: #f6f8fa; }
+`.trim();
+
+// * render merged output as a self-contained HTML page (inline CSS & SVG chart, no external assets)
+export function renderHtml(
+  output: MergedDailyOutput,
+  breakdown = false,
+  generatedAt: Date = new Date()
+): string {
+  const title = getReportTitle(output);
+  const unit = PERIOD_UNITS[output.view ?? "daily"];
+  const body: string[] = [
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<p class="meta">Generated ${escapeHtml(generatedAt.toISOString())} · ` +
+      `Total cost ${formatCurrency(output.totals.totalCost)} · ` +
+      `${formatNumber(output.totals.totalTokens)} tokens</p>`,
+    `<h2>Cost per ${unit}</h2>`,
+    `<div class="chart">\n${renderCostChart(output)}\n</div>`,
+    "<h2>Usage</h2>",
+    renderHtmlGrid(buildReportGrid(output, breakdown)),
+  ];
+
+  const models = breakdown ? getModelGrid(output) : undefined;
+  if (models) {
+    body.push("<h2>Models</h2>", renderHtmlGrid(models));
+  }
+
+  if (output.budget) {
+    body.push(
+      "<h2>Budget</h2>",
+      renderHtmlGrid(buildBudgetGrid(output.budget)),
+      "<h3>Month-end projection</h3>",
+      renderHtmlGrid(buildProjectionGrid(output.budget))
+    );
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>\n${HTML_STYLE}\n</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+    "",
+  ].join("\n");
+}
+
+// * render merged output in requested format
+export function renderReport(
+  output: MergedDailyOutput,
+  format: ReportFormat,
+  options: RenderReportOptions = {}
+): string {
+  const { compact = false, breakdown = false } = options;
+  switch (format) {
+    case "table": {
+      const table = renderMergedTable(output, compact, breakdown);
+      return output.budget ? `${table}\n${renderBudgetTable(output.budget)}` : table;
+    }
+    case "json":
+      return JSON.stringify(output, null, 2);
+    case "markdown":
+      return renderMarkdown(output, breakdown);
+    case "csv":
+      return renderCsv(output, breakdown);
+    case "html":
+      return renderHtml(output, breakdown);
+  }
+}
@@ -1,72 +1,147 @@
 // src/report-runner.ts
 // report runner utilities - handles execution of ccusage & combined reports
 
-import { exec, spawn } from "node:child_process";
-import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
 import path from "node:path";
-import { promisify } from "node:util";
+import { stripVTControlCharacters } from "node:util";
+import { evaluateBudget } from "./budget.js";
 import {
+  execCcusage,
+  formatCcusageCommand,
+  getCcusage,
+  getCcusageVersionError,
+  resolveCcusage,
+} from "./ccusage-cli.js";
+import {
+  getModelTotals,
   loadCcusageJson,
   mergeDailyReports,
-  renderMergedTable,
-  runCcusageJson,
+  mergeDailyReportsAggregated,
 } from "./ccusage-merge.js";
-import { CLAUDE_CONFIG_PATHS, OPENCODE_CONFIG_DIR } from "./constants.js";
-import { createExportOptions, printSummary, runExport } from "./exporter.js";
-import type { CcusageDailyOutput } from "./types.js";
-import { getErrorMessage, pluralize, verboseLog } from "./utils.js";
-
-const execAsync = promisify(exec);
+import {
+  BUDGET_EXCEEDED_EXIT_CODE,
+  CCUSAGE_VALUE_OPTIONS,
+  CCUSAGE_VIEW_CHOICES,
+  OPENCODE_CONFIG_DIR,
+  REPORT_VIEW_CHOICES,
+} from "./constants.js";
+import { createExportOptions } from "./exporter.js";
+import { renderReport } from "./report-formats.js";
+import type {
+  BudgetConfig,
+  CcusageDailyOutput,
+  CcusageInput,
+  CcusageView,
+  ExportOptions,
+  ReportEngine,
+  ReportFormat,
+  ReportView,
+  UsageSource,
+  UsageSourceContext,
+  UsageSourceEngine,
+} from "./types.js";
+import { claudeCodeSource, createFileSource, openCodeSource } from "./usage-sources.js";
+import { getErrorMessage, pluralize, verboseLog, warn } from "./utils.js";
 
 // re-export for consumers
 export { OPENCODE_CONFIG_DIR };
+export { findClaudeConfigDirs, getClaudeDataDirs } from "./usage-sources.js";
 
-// find existing Claude Code data directories
-export function findClaudeConfigDirs(): string[] {
-  const existing: string[] = [];
-  for (const dir of CLAUDE_CONFIG_PATHS) {
-    const projectsDir = path.join(dir, "projects");
-    if (existsSync(projectsDir)) {
-      existing.push(dir);
-    }
+// check if a compatible ccusage is installed (bundled dependency or PATH)
+export async function checkCcusageAvailable(): Promise<boolean> {
+  const binary = await resolveCcusage();
+  return binary !== null && getCcusageVersionError(binary) === null;
+}
+
+// run ccusage w/ specified config directories (ccusage prints its own output)
+export async function runCcusage(
+  configDir: string | undefined,
+  args: string[],
+  verbose: boolean,
+  timeoutMs?: number
+): Promise<number> {
+  verboseLog(verbose, `Running: ${formatCcusageCommand(args, configDir)}`);
+
+  try {
+    const { exitCode } = await execCcusage(args, { configDir, timeoutMs, inherit: true });
+    return exitCode;
+  } catch (err) {
+    console.error(getErrorMessage(err));
+    return 1;
   }
-  return existing;
 }
 
-// check if ccusage is available via npx
-export async function checkCcusageAvailable(): Promise<boolean> {
+// * resolve --engine (auto uses ccusage when a compatible version is installed, otherwise native)
+export async function resolveReportEngine(
+  engine: ReportEngine,
+  verbose = false
+): Promise<"native" | "ccusage"> {
+  if (engine === "native") return "native";
+
   try {
-    await execAsync("npx ccusage --version", { timeout: 30000 });
-    return true;
-  } catch {
-    return false;
+    const binary = await getCcusage();
+    verboseLog(verbose, `Using ccusage ${binary.version} (${binary.origin})\n`);
+    return "ccusage";
+  } catch (err) {
+    if (engine === "ccusage") throw err;
+
+    // incompatible ccusage is worth a warning; a missing one is expected
+    const binary = await resolveCcusage();
+    if (binary) {
+      warn(`${getErrorMessage(err).split("\n")[0]} Using the native report engine.`);
+    } else {
+      verboseLog(verbose, "ccusage not available; using native report engine\n");
+    }
+    return "native";
   }
 }
 
-// run ccusage w/ specified config directories
-export function runCcusage(
-  configDir: string | undefined,
-  args: string[],
-  verbose: boolean
-): Promise<number> {
-  return new Promise((resolve) => {
-    // build command - only set CLAUDE_CONFIG_DIR if configDir is provided
-    const envPrefix = configDir ? `CLAUDE_CONFIG_DIR="${configDir}" ` : "";
-    const command = `${envPrefix}npx ccusage ${args.join(" ")}`;
+// find ccusage subcommand (first argument that is neither an option nor an option's value)
+function getCcusageCommand(args: string[]): string | undefined {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!arg.startsWith("-")) return arg;
+    if (CCUSAGE_VALUE_OPTIONS.includes(arg)) i++;
+  }
+  return undefined;
+}
 
-    verboseLog(verbose, `Running: ${command}`);
+// get requested view from pass-through ccusage args (default: daily)
+export function getCcusageView(args: string[]): CcusageView {
+  const command = getCcusageCommand(args);
+  if (!command) return "daily";
 
-    const child = spawn("sh", ["-c", command], { stdio: "inherit" });
+  if (!(CCUSAGE_VIEW_CHOICES as readonly string[]).includes(command)) {
+    throw new Error(
+      `Combined report does not support "${command}". ` +
+        `Use one of: ${CCUSAGE_VIEW_CHOICES.join(", ")}`
+    );
+  }
+  return command as CcusageView;
+}
 
-    child.on("close", (code) => {
-      resolve(code ?? 0);
-    });
+// get native report view from pass-through ccusage args (default: daily)
+// ccusage options have no native equivalent, so they are rejected instead of ignored
+export function getNativeReportView(args: string[]): ReportView {
+  const option = args.find((arg) => arg.startsWith("-"));
+  if (option) {
+    throw new Error(
+      `Native report engine does not support ccusage option "${option}". ` +
+        "Remove it or use --engine ccusage"
+    );
+  }
+  const [command = "daily", extra] = args;
+  if (extra !== undefined) {
+    throw new Error(`Native report engine does not support extra argument "${extra}"`);
+  }
 
-    child.on("error", (err) => {
-      console.error(`Failed to run ccusage: ${err.message}`);
-      resolve(1);
-    });
-  });
+  if (!(REPORT_VIEW_CHOICES as readonly string[]).includes(command)) {
+    throw new Error(
+      `Native report engine does not support "${command}". ` +
+        `Use one of: ${REPORT_VIEW_CHOICES.join(", ")} (or --engine ccusage)`
+    );
+  }
+  return command as ReportView;
 }
 
 // get terminal width for responsive table rendering
@@ -77,105 +152,218 @@ function getTerminalWidth(): number {
 export interface CombinedReportOptions {
   combineArg: string | boolean;
   ccusageArgs: string[];
+  /** Labeled ccusage JSON files to merge instead of live usage (report --input) */
+  inputs?: CcusageInput[];
+  /** Extra usage sources registered in the config file */
+  sources?: UsageSource[];
+  /** ccusage timeout in ms (undefined = default) */
+  ccusageTimeoutMs?: number;
+  /** Resolved report engine (default: ccusage) */
+  engine?: "native" | "ccusage";
+  /** Only report Claude Code or OpenCode usage (single source) */
+  claudeOnly?: boolean;
+  opencodeOnly?: boolean;
+  /** Per-model sub-rows & model totals (JSON: `models`) */
+  breakdown?: boolean;
+  /** One row per period w/ per-source columns (JSON: `sourceUsage`, `sourceTotals`) */
+  aggregate?: boolean;
   skipExport: boolean;
   since: Date | undefined;
   verbose: boolean;
-  outputJson: boolean;
+  /** OpenCode export from resolved settings (default: export dir & defaults w/ since) */
+  exportOptions?: ExportOptions;
+  format: ReportFormat;
+  /** Write rendered report to file instead of stdout */
+  outputPath?: string;
+  /** Budget limits to evaluate (daily view only) */
+  budget?: BudgetConfig;
 }
 
-// * run combined report mode - runs ccusage separately for Claude & OpenCode, then merges
-export async function runCombinedReport(options: CombinedReportOptions): Promise<number> {
-  const { combineArg, ccusageArgs, skipExport, since, verbose, outputJson } = options;
-  const reports: { data: CcusageDailyOutput; source: string }[] = [];
+type SourceReport = { data: CcusageDailyOutput; source: string };
 
-  // export OpenCode sessions (unless skipped)
-  if (!skipExport) {
-    verboseLog(verbose, "Exporting OpenCode sessions...\n");
-
-    const exportOptions = createExportOptions(OPENCODE_CONFIG_DIR, {
-      since,
-      verbose,
-    });
+// load labeled ccusage JSON files (view detected from files unless passed to ccusage)
+async function loadInputReports(
+  inputs: CcusageInput[],
+  ccusageArgs: string[],
+  verbose: boolean
+): Promise<{ view: CcusageView; reports: SourceReport[] } | null> {
+  const requested = getCcusageCommand(ccusageArgs) !== undefined;
+  let view: CcusageView | undefined;
+  try {
+    view = requested ? getCcusageView(ccusageArgs) : undefined;
+  } catch (err) {
+    console.error(`Error: ${getErrorMessage(err)}`);
+    return null;
+  }
 
-    try {
-      const stats = await runExport(exportOptions);
+  verboseLog(verbose, `Loading ${pluralize(inputs.length, "ccusage JSON file")}...\n`);
+  const loaded = await Promise.all(inputs.map((input) => loadCcusageJson(input.path)));
 
-      if (verbose) {
-        printSummary(stats);
-        console.log("");
-      } else if (stats.sessionsExported > 0) {
-        console.log(`Exported ${pluralize(stats.sessionsExported, "session")}\n`);
-      }
-    } catch (err) {
-      console.error(`Export error: ${getErrorMessage(err)}`);
-      if (!verbose) {
-        console.error("Use --verbose for more details.\n");
-      }
-      // continue even if export fails
+  const reports: SourceReport[] = [];
+  for (const [i, data] of loaded.entries()) {
+    const input = inputs[i];
+    if (!data) {
+      console.error(`Failed to load ccusage JSON from: ${input.path}`);
+      return null;
+    }
+    const fileView = data.view ?? "daily";
+    view ??= fileView;
+    if (fileView !== view) {
+      console.error(
+        `Error: ${input.path} contains a ${fileView} report, but ${view} was ` +
+          `${requested ? "requested" : "found in the other inputs"}. ` +
+          "Every --input must be the same ccusage view."
+      );
+      return null;
     }
+    verboseLog(verbose, `  ${input.label}: ${input.path}\n`);
+    reports.push({ data, source: input.label });
   }
+  return { view: view ?? "daily", reports };
+}
 
-  // get Claude Code and OpenCode usage in parallel for better performance
-  if (typeof combineArg === "string") {
-    // load Claude Code from file, run OpenCode ccusage in parallel
-    verboseLog(verbose, `Loading Claude Code usage from file: ${combineArg}\n`);
-    verboseLog(verbose, "Getting OpenCode usage...\n");
+// get live usage from each source (Claude Code, OpenCode & registered sources) in parallel
+async function getLiveReports(
+  options: CombinedReportOptions
+): Promise<{ view: CcusageView; reports: SourceReport[] } | null> {
+  const { combineArg, ccusageArgs, skipExport, since, verbose } = options;
+  const engine = options.engine ?? "ccusage";
 
-    const [claudeData, opencodeData] = await Promise.all([
-      loadCcusageJson(combineArg),
-      runCcusageJson(OPENCODE_CONFIG_DIR, ccusageArgs, verbose),
-    ]);
+  let target: UsageSourceEngine;
+  try {
+    target =
+      engine === "native"
+        ? { engine, view: getNativeReportView(ccusageArgs) }
+        : { engine, view: getCcusageView(ccusageArgs) };
+  } catch (err) {
+    console.error(`Error: ${getErrorMessage(err)}`);
+    return null;
+  }
+  const { view } = target;
 
-    if (claudeData) {
-      reports.push({ data: claudeData, source: "Claude Code" });
-    } else {
-      console.error(`Failed to load ccusage JSON from: ${combineArg}`);
-      return 1;
-    }
+  // --combine <file> stands in for Claude Code; registered sources join unless one tool is picked
+  const claude =
+    typeof combineArg === "string" ? createFileSource("Claude Code", combineArg) : claudeCodeSource;
+  const sources = options.claudeOnly
+    ? [claude]
+    : options.opencodeOnly
+      ? [openCodeSource]
+      : [claude, openCodeSource, ...(options.sources ?? [])];
 
-    if (opencodeData) {
-      reports.push({ data: opencodeData, source: "OpenCode" });
-    } else {
-      verboseLog(verbose, "No OpenCode usage data found or ccusage failed.\n");
-    }
-  } else {
-    // run ccusage for both Claude Code and OpenCode in parallel
-    verboseLog(verbose, "Getting Claude Code and OpenCode usage...\n");
+  const duplicate = sources.find((source, i) =>
+    sources.slice(0, i).some((other) => other.label === source.label)
+  );
+  if (duplicate) {
+    console.error(`Error: Duplicate usage source label "${duplicate.label}"`);
+    return null;
+  }
 
-    const [claudeData, opencodeData] = await Promise.all([
-      runCcusageJson(undefined, ccusageArgs, verbose),
-      runCcusageJson(OPENCODE_CONFIG_DIR, ccusageArgs, verbose),
-    ]);
+  const context: UsageSourceContext = {
+    ...target,
+    ccusageArgs,
+    ccusageTimeoutMs: options.ccusageTimeoutMs,
+    skipExport,
+    since,
+    verbose,
+    exportOptions:
+      options.exportOptions ?? createExportOptions(OPENCODE_CONFIG_DIR, { since, verbose }),
+  };
 
-    if (claudeData) {
-      reports.push({ data: claudeData, source: "Claude Code" });
-    } else {
-      verboseLog(verbose, "No Claude Code usage data found or ccusage failed.\n");
+  // a source that throws is dropped w/ a warning; the others still make the report
+  const getSourceUsage = async (source: UsageSource): Promise<CcusageDailyOutput | null> => {
+    try {
+      if (!(await source.discover(context))) {
+        verboseLog(verbose, `No ${source.label} data found; skipping.\n`);
+        return null;
+      }
+      return await source.load(context);
+    } catch (err) {
+      warn(`${source.label}: ${getErrorMessage(err)} (skipping this source)`);
+      return null;
     }
+  };
+  verboseLog(verbose, "Getting usage from each source...\n");
+  const results = await Promise.all(sources.map(getSourceUsage));
 
-    if (opencodeData) {
-      reports.push({ data: opencodeData, source: "OpenCode" });
-    } else {
-      verboseLog(verbose, "No OpenCode usage data found or ccusage failed.\n");
+  const reports: SourceReport[] = [];
+  for (const [i, data] of results.entries()) {
+    const { label } = sources[i];
+    if (!data) {
+      verboseLog(verbose, `No ${label} usage data found or ccusage failed.\n`);
+      continue;
+    }
+    const sourceView = data.view ?? "daily";
+    if (sourceView !== view) {
+      warn(`${label} returned a ${sourceView} report, but ${view} was requested (skipping)`);
+      continue;
     }
+    reports.push({ data, source: label });
   }
 
+  return { view, reports };
+}
+
+// * run combined report mode - gets usage per source (--input, ccusage or native), then merges
+export async function runCombinedReport(options: CombinedReportOptions): Promise<number> {
+  const { ccusageArgs, verbose, format, outputPath } = options;
+
+  const collected = options.inputs?.length
+    ? await loadInputReports(options.inputs, ccusageArgs, verbose)
+    : await getLiveReports(options);
+  if (!collected) {
+    return 1;
+  }
+  const { view, reports } = collected;
+
   // merge & display
   if (reports.length === 0) {
     console.log("No usage data found from any source.");
     return 1;
   }
 
-  const merged = mergeDailyReports(reports);
+  const merged = options.aggregate
+    ? mergeDailyReportsAggregated(reports)
+    : mergeDailyReports(reports);
+  if (options.breakdown) {
+    merged.models = getModelTotals(merged.daily);
+  }
+  if (options.budget) {
+    if (view !== "daily") {
+      console.error(`Error: Budgets are evaluated on daily usage; drop the "${view}" view`);
+      return 1;
+    }
+    const unknown = Object.keys(options.budget.sources ?? {}).filter(
+      (source) => !merged.sources.includes(source)
+    );
+    if (unknown.length > 0) {
+      warn(
+        `Budget sources not in report: ${unknown.join(", ")} ` +
+          `(sources: ${merged.sources.join(", ")})`
+      );
+    }
+    merged.budget = evaluateBudget(merged, options.budget);
+  }
+
+  const rendered = renderReport(merged, format, {
+    compact: !outputPath && getTerminalWidth() < 100,
+    breakdown: options.breakdown,
+  });
 
-  if (outputJson) {
-    console.log(JSON.stringify(merged, null, 2));
+  if (outputPath) {
+    try {
+      await mkdir(path.dirname(path.resolve(outputPath)), { recursive: true });
+      await writeFile(
+        outputPath,
+        format === "table" ? stripVTControlCharacters(rendered) : rendered
+      );
+    } catch (err) {
+      console.error(`Error: Failed to write ${outputPath}: ${getErrorMessage(err)}`);
+      return 1;
+    }
+    console.log(`Report written to ${outputPath}`);
   } else {
-    const terminalWidth = getTerminalWidth();
-    const useCompact = terminalWidth < 100;
-    const table = renderMergedTable(merged, useCompact);
-    console.log(table);
+    console.log(format === "table" ? rendered : rendered.trimEnd());
   }
 
-  return 0;
+  return merged.budget?.exceeded ? BUDGET_EXCEEDED_EXIT_CODE : 0;
 }
@@ -8,33 +8,47 @@ import {
   OpenCodeExportSchema,
   StoredSessionInfoSchema,
   type OpenCodeExport,
+  type OpenCodeMessage,
+  type OpenCodeRoot,
+  type ResolvedStorageDir,
   type SessionListItem,
 } from "./types.js";
 import { execCommand, fileExists, getErrorMessage, warn } from "./utils.js";
 
-// get OpenCode storage directory (override > env > platform default)
-export function getStorageDir(override?: string): string {
+// resolve OpenCode storage dir & where it came from (override > env > XDG > platform default)
+export function resolveStorageDir(override?: string): ResolvedStorageDir {
   // explicit override
   if (override) {
-    return path.join(override, "storage");
+    return { dir: path.join(override, "storage"), source: "override" };
   }
 
   // environment variable
   const envDir = process.env.OPENCODE_DATA_DIR;
   if (envDir) {
-    return path.join(envDir, "storage");
+    return { dir: path.join(envDir, "storage"), source: "env" };
   }
 
   // platform-specific default
   const platform = os.platform();
   if (platform === "win32") {
     const localAppData = process.env.LOCALAPPDATA ?? path.join(os.homedir(), "AppData", "Local");
-    return path.join(localAppData, "opencode", "storage");
-  } else {
-    // OpenCode uses xdg-basedir which returns ~/.local/share on macOS (not ~/Library)
-    const xdgDataHome = process.env.XDG_DATA_HOME ?? path.join(os.homedir(), ".local", "share");
-    return path.join(xdgDataHome, "opencode", "storage");
+    return { dir: path.join(localAppData, "opencode", "storage"), source: "default" };
+  }
+
+  // OpenCode uses xdg-basedir which returns ~/.local/share on macOS (not ~/Library)
+  const xdgDataHome = process.env.XDG_DATA_HOME;
+  if (xdgDataHome) {
+    return { dir: path.join(xdgDataHome, "opencode", "storage"), source: "xdg" };
   }
+  return {
+    dir: path.join(os.homedir(), ".local", "share", "opencode", "storage"),
+    source: "default",
+  };
+}
+
+// get OpenCode storage directory (override > env > platform default)
+export function getStorageDir(override?: string): string {
+  return resolveStorageDir(override).dir;
 }
 
 // check if OpenCode CLI is available
@@ -47,6 +61,42 @@ export async function checkOpenCodeAvailable(): Promise<boolean> {
   }
 }
 
+// get OpenCode CLI version (null if not installed)
+export async function getOpenCodeVersion(): Promise<string | null> {
+  try {
+    const result = await execCommand("opencode", ["--version"]);
+    return result.exitCode === 0 ? result.stdout.trim() : null;
+  } catch {
+    return null;
+  }
+}
+
+// read single stored session file as list item (null if unreadable or invalid)
+export async function readSessionListItem(
+  sessionPath: string
+): Promise<SessionListItem | null> {
+  try {
+    const content = await readFile(sessionPath, "utf-8");
+    const parsed = StoredSessionInfoSchema.safeParse(JSON.parse(content));
+
+    if (!parsed.success) {
+      return null;
+    }
+
+    const sessionInfo = parsed.data;
+    return {
+      id: sessionInfo.id,
+      title: sessionInfo.title ?? "",
+      updated: sessionInfo.time.updated,
+      created: sessionInfo.time.created,
+      projectId: sessionInfo.projectID,
+      directory: sessionInfo.directory,
+    };
+  } catch {
+    return null;
+  }
+}
+
 // * list all sessions by reading directly from OpenCode storage (parallelized)
 export async function listSessions(
   since?: Date,
@@ -73,29 +123,9 @@ export async function listSessions(
 
         // read all session files in this project directory in parallel
         const sessionResults = await Promise.all(
-          jsonFiles.map(async (sessionFile) => {
-            try {
-              const sessionPath = path.join(projectPath, sessionFile);
-              const content = await readFile(sessionPath, "utf-8");
-              const parsed = StoredSessionInfoSchema.safeParse(JSON.parse(content));
-
-              if (!parsed.success) {
-                return null;
-              }
-
-              const sessionInfo = parsed.data;
-              return {
-                id: sessionInfo.id,
-                title: sessionInfo.title ?? "",
-                updated: sessionInfo.time.updated,
-                created: sessionInfo.time.created,
-                projectId: sessionInfo.projectID,
-                directory: sessionInfo.directory,
-              } as SessionListItem;
-            } catch {
-              return null;
-            }
-          })
+          jsonFiles.map((sessionFile) =>
+            readSessionListItem(path.join(projectPath, sessionFile))
+          )
         );
 
         // filter out nulls (failed parses)
@@ -122,11 +152,177 @@ export async function listSessions(
   }
 }
 
+// make label safe for use in directory names
+function sanitizeLabel(label: string): string {
+  return label.replace(/[^A-Za-z0-9._-]+/g, "-").replace(/^-+|-+$/g, "") || "root";
+}
+
+// assign unique labels to roots (explicit label or directory basename)
+export function resolveOpenCodeRoots(roots: OpenCodeRoot[]): Required<OpenCodeRoot>[] {
+  const used = new Set<string>();
+  return roots.map((root) => {
+    const base = sanitizeLabel(root.label ?? path.basename(path.resolve(root.dir)));
+    let label = base;
+    for (let i = 2; used.has(label); i++) {
+      label = `${base}-${i}`;
+    }
+    used.add(label);
+    return { dir: root.dir, label };
+  });
+}
+
+// * list sessions across several OpenCode roots, de-duplicated by session id
+// (when the same session exists in several roots, the most recently updated copy wins)
+export async function listSessionsFromRoots(
+  roots: OpenCodeRoot[],
+  since?: Date
+): Promise<SessionListItem[]> {
+  const resolved = resolveOpenCodeRoots(roots);
+  const perRoot = await Promise.all(
+    resolved.map(async (root) => {
+      const sessions = await listSessions(since, root.dir);
+      return sessions.map((s) => ({ ...s, rootLabel: root.label, openCodeDir: root.dir }));
+    })
+  );
+
+  const byId = new Map<string, SessionListItem>();
+  for (const session of perRoot.flat()) {
+    const existing = byId.get(session.id);
+    if (!existing || session.updated > existing.updated) {
+      byId.set(session.id, session);
+    }
+  }
+
+  // sort by created time ascending (oldest first)
+  return Array.from(byId.values()).sort((a, b) => a.created - b.created);
+}
+
 export interface ExportSessionOptions {
   /** Skip Zod schema validation for faster processing */
   skipValidation?: boolean;
 }
 
+export interface StorageReadOptions extends ExportSessionOptions {
+  /** Override OpenCode data directory (default: auto-detected) */
+  openCodeDir?: string;
+}
+
+// read & parse JSON file, naming the file in parse errors
+async function readJsonFile(filePath: string): Promise<unknown> {
+  const content = await readFile(filePath, "utf-8");
+  try {
+    return JSON.parse(content);
+  } catch (err) {
+    throw new Error(`Failed to parse ${filePath}: ${getErrorMessage(err)}`);
+  }
+}
+
+// read all JSON files in directory (sorted by filename, empty if missing)
+async function readJsonDir(dir: string): Promise<unknown[]> {
+  if (!(await fileExists(dir))) {
+    return [];
+  }
+  const files = (await readdir(dir)).filter((f) => f.endsWith(".json")).sort();
+  return Promise.all(files.map((f) => readJsonFile(path.join(dir, f))));
+}
+
+// get created time from raw message info (0 if missing)
+function getCreatedTime(info: unknown): number {
+  const created = (info as Partial<OpenCodeMessage["info"]>)?.time?.created;
+  return typeof created === "number" ? created : 0;
+}
+
+// * read single session directly from OpenCode storage (no CLI required)
+export async function readSessionFromStorage(
+  sessionId: string,
+  projectId: string,
+  options: StorageReadOptions = {}
+): Promise<OpenCodeExport> {
+  const storageDir = getStorageDir(options.openCodeDir);
+  const sessionFile = path.join(storageDir, "session", projectId, `${sessionId}.json`);
+
+  if (!(await fileExists(sessionFile))) {
+    throw new Error(`Session file does not exist: ${sessionFile}`);
+  }
+
+  const sessionData = (await readJsonFile(sessionFile)) as Record<string, unknown>;
+
+  // message info lives in message/<sessionID>/, parts in part/<messageID>/
+  const messageInfos = await readJsonDir(path.join(storageDir, "message", sessionId));
+  const messages = await Promise.all(
+    messageInfos.map(async (info) => {
+      const messageId = (info as { id?: unknown }).id;
+      const parts =
+        typeof messageId === "string"
+          ? await readJsonDir(path.join(storageDir, "part", messageId))
+          : [];
+      return { info, parts };
+    })
+  );
+
+  // order messages by creation time (filenames are only roughly chronological)
+  messages.sort((a, b) => getCreatedTime(a.info) - getCreatedTime(b.info));
+
+  const raw = {
+    info: {
+      ...sessionData,
+      // older session files may lack version; export schema requires it
+      version: sessionData.version ?? "unknown",
+      title: sessionData.title ?? "",
+    },
+    messages,
+  };
+
+  // skip validation for faster processing if requested
+  if (options.skipValidation) {
+    return raw as unknown as OpenCodeExport;
+  }
+
+  const parsed = OpenCodeExportSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(
+      `Invalid stored data for session ${sessionId}: ${parsed.error.message}`
+    );
+  }
+  return parsed.data;
+}
+
+// * parse `opencode export` output (label describes the source in error messages)
+export function parseExportOutput(
+  content: string,
+  label: string,
+  options: ExportSessionOptions = {}
+): OpenCodeExport {
+  // output may have prefix like "Exporting session: xxx" before JSON
+  // find first '{' & parse from there
+  let jsonStr = content;
+  const jsonStart = jsonStr.indexOf("{");
+  if (jsonStart === -1) {
+    throw new Error(`No JSON found in export output for ${label}`);
+  }
+  if (jsonStart > 0) {
+    jsonStr = jsonStr.slice(jsonStart);
+  }
+
+  let jsonData: unknown;
+  try {
+    jsonData = JSON.parse(jsonStr);
+  } catch (err) {
+    throw new Error(`Failed to parse export JSON for ${label}: ${err}`);
+  }
+
+  // skip validation for faster processing if requested
+  if (options.skipValidation) {
+    return jsonData as OpenCodeExport;
+  }
+
+  const parsed = OpenCodeExportSchema.safeParse(jsonData);
+  if (!parsed.success) {
+    throw new Error(`Invalid export JSON for ${label}: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
 // export single session using OpenCode CLI (must run from session directory)
 export async function exportSession(
   sessionId: string,
@@ -158,37 +354,7 @@ export async function exportSession(
 
     // read temp file
     const content = await readFile(tmpFile, "utf-8");
-    
-    // output may have prefix like "Exporting session: xxx" before JSON
-    // find first '{' & parse from there
-    let jsonStr = content;
-    const jsonStart = jsonStr.indexOf("{");
-    if (jsonStart === -1) {
-      throw new Error(`No JSON found in export output for session ${sessionId}`);
-    }
-    if (jsonStart > 0) {
-      jsonStr = jsonStr.slice(jsonStart);
-    }
-
-    // skip validation for faster processing if requested
-    if (options.skipValidation) {
-      return JSON.parse(jsonStr) as OpenCodeExport;
-    }
-
-    const parsed = OpenCodeExportSchema.safeParse(JSON.parse(jsonStr));
-    if (!parsed.success) {
-      throw new Error(
-        `Invalid export JSON for session ${sessionId}: ${parsed.error.message}`
-      );
-    }
-    return parsed.data;
-  } catch (err) {
-    if (err instanceof SyntaxError) {
-      throw new Error(
-        `Failed to parse export JSON for session ${sessionId}: ${err}`
-      );
-    }
-    throw err;
+    return parseExportOutput(content, `session ${sessionId}`, options);
   } finally {
     // clean up temp file
     try {
@@ -199,12 +365,19 @@ export async function exportSession(
   }
 }
 
+export interface RetryOptions extends ExportSessionOptions {
+  /** Called before each retry (attempt starts at 1) */
+  onRetry?: (attempt: number) => void;
+  /** Don't warn when every attempt fails (caller reports the failure) */
+  quiet?: boolean;
+}
+
 // export session w/ retry on failure
 export async function exportSessionWithRetry(
   sessionId: string,
   directory: string,
   maxRetries = 1,
-  options: ExportSessionOptions = {}
+  options: RetryOptions = {}
 ): Promise<OpenCodeExport | null> {
   let lastError: Error | null = null;
   let lastStderr: string | undefined;
@@ -221,6 +394,7 @@ export async function exportSessionWithRetry(
       }
       if (attempt < maxRetries) {
         await new Promise((resolve) => setTimeout(resolve, 500));
+        options.onRetry?.(attempt + 1);
       }
     }
   }
@@ -240,6 +414,6 @@ export async function exportSessionWithRetry(
     errorMsg += ` (stderr: ${stderr})`;
   }
 
-  warn(errorMsg);
+  if (!options.quiet) warn(errorMsg);
   return null;
 }
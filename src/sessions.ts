@@ -0,0 +1,223 @@
+// src/sessions.ts
+// session listing - OpenCode sessions w/ message counts, token totals, recorded cost & top model
+
+import Table from "cli-table3";
+import pLimit from "p-limit";
+import { convertSession } from "./converter.js";
+import { discoverSessions } from "./exporter.js";
+import {
+  filterSessions,
+  type MessageFilterOptions,
+  type SessionFilterOptions,
+} from "./filters.js";
+import { readSessionFromStorage } from "./session.js";
+import type {
+  OpenCodeExport,
+  OpenCodeRoot,
+  SessionListItem,
+  SessionSort,
+  SessionUsage,
+} from "./types.js";
+import {
+  formatCurrency,
+  formatNumber,
+  getErrorMessage,
+  getOptimalConcurrency,
+  pluralize,
+  warn,
+} from "./utils.js";
+
+export interface ListSessionsOptions extends SessionFilterOptions, MessageFilterOptions {
+  openCodeDir?: string;
+  /** Several labeled OpenCode data directories (takes precedence over openCodeDir) */
+  openCodeRoots?: OpenCodeRoot[];
+  /** Sort order, largest/newest first (default: updated) */
+  sort?: SessionSort;
+  /** Max sessions returned after sorting */
+  limit?: number;
+  skipValidation?: boolean;
+}
+
+// max title width in the table (longer titles are truncated)
+const MAX_TITLE_LENGTH = 40;
+
+const colors = {
+  cyan: "\x1b[36m",
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+};
+
+// * sum session's usage the way export counts it (same converter, same token accounting)
+export function summarizeSession(
+  session: SessionListItem,
+  data: OpenCodeExport,
+  options: MessageFilterOptions = {}
+): SessionUsage {
+  const { lines } = convertSession(data, {
+    includeReasoningInOutput: true,
+    costMode: "auto",
+    model: options.model,
+    provider: options.provider,
+  });
+
+  const usage: SessionUsage = {
+    ...session,
+    messages: data.messages.length,
+    usageLines: lines.length,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    topModel: null,
+  };
+
+  const modelTokens = new Map<string, number>();
+  for (const line of lines) {
+    const tokens = line.message.usage;
+    const cacheCreation = tokens.cache_creation_input_tokens ?? 0;
+    const cacheRead = tokens.cache_read_input_tokens ?? 0;
+    const total = tokens.input_tokens + tokens.output_tokens + cacheCreation + cacheRead;
+
+    usage.inputTokens += tokens.input_tokens;
+    usage.outputTokens += tokens.output_tokens;
+    usage.cacheCreationTokens += cacheCreation;
+    usage.cacheReadTokens += cacheRead;
+    usage.totalTokens += total;
+    usage.cost += line.costUSD ?? 0;
+
+    const model = line.message.model;
+    modelTokens.set(model, (modelTokens.get(model) ?? 0) + total);
+  }
+
+  let topTokens = -1;
+  for (const [model, tokens] of modelTokens) {
+    if (tokens > topTokens) {
+      usage.topModel = model;
+      topTokens = tokens;
+    }
+  }
+  return usage;
+}
+
+// sort sessions (descending; ties keep most recently updated first)
+export function sortSessions(sessions: SessionUsage[], sort: SessionSort): SessionUsage[] {
+  const key = (session: SessionUsage): number => {
+    switch (sort) {
+      case "cost":
+        return session.cost;
+      case "tokens":
+        return session.totalTokens;
+      case "updated":
+        return session.updated;
+    }
+  };
+  return [...sessions].sort((a, b) => key(b) - key(a) || b.updated - a.updated);
+}
+
+// * discover, filter & summarize sessions from storage (unreadable sessions are warned & skipped)
+export async function listSessionUsage(
+  options: ListSessionsOptions = {}
+): Promise<SessionUsage[]> {
+  const discovered = await discoverSessions({
+    since: options.since,
+    openCodeDir: options.openCodeDir,
+    openCodeRoots: options.openCodeRoots,
+  });
+  const { sessions } = filterSessions(discovered, options);
+
+  const limit = pLimit(getOptimalConcurrency());
+  const results = await Promise.all(
+    sessions.map((session) =>
+      limit(async () => {
+        try {
+          const data = await readSessionFromStorage(session.id, session.projectId, {
+            openCodeDir: session.openCodeDir ?? options.openCodeDir,
+            skipValidation: options.skipValidation,
+          });
+          return summarizeSession(session, data, options);
+        } catch (err) {
+          warn(`Failed to read session ${session.id} from storage: ${getErrorMessage(err)}`);
+          return null;
+        }
+      })
+    )
+  );
+
+  const sorted = sortSessions(
+    results.filter((session): session is SessionUsage => session !== null),
+    options.sort ?? "updated"
+  );
+  return options.limit !== undefined ? sorted.slice(0, options.limit) : sorted;
+}
+
+// format ms timestamp as "YYYY-MM-DD HH:MM" (UTC)
+function formatTime(ms: number): string {
+  return new Date(ms).toISOString().slice(0, 16).replace("T", " ");
+}
+
+// shorten text to max length w/ trailing "..."
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 3)}...` : text;
+}
+
+// * render sessions as table w/ a totals line
+export function renderSessionsTable(sessions: SessionUsage[]): string {
+  if (sessions.length === 0) {
+    return "No sessions found.";
+  }
+
+  const head = [
+    "Session",
+    "Title",
+    "Project",
+    "Directory",
+    "Created",
+    "Updated",
+    "Messages",
+    "Tokens",
+    "Cost",
+    "Top Model",
+  ];
+  const table = new Table({
+    head: head.map((label) => `${colors.cyan}${label}${colors.reset}`),
+    colAligns: [
+      "left",
+      "left",
+      "left",
+      "left",
+      "left",
+      "left",
+      "right",
+      "right",
+      "right",
+      "left",
+    ],
+  });
+
+  let totalTokens = 0;
+  let totalCost = 0;
+  for (const session of sessions) {
+    totalTokens += session.totalTokens;
+    totalCost += session.cost;
+    table.push([
+      session.id,
+      truncate(session.title, MAX_TITLE_LENGTH),
+      session.rootLabel ? `${session.rootLabel}:${session.projectId}` : session.projectId,
+      session.directory,
+      formatTime(session.created),
+      formatTime(session.updated),
+      formatNumber(session.messages),
+      formatNumber(session.totalTokens),
+      formatCurrency(session.cost),
+      session.topModel ?? "-",
+    ]);
+  }
+
+  return (
+    `${table.toString()}\n\n` +
+    `${colors.bold}${pluralize(sessions.length, "session")}: ` +
+    `${formatNumber(totalTokens)} tokens, ${formatCurrency(totalCost)}${colors.reset}`
+  );
+}
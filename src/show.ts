@@ -0,0 +1,244 @@
+// src/show.ts
+// session drill-down - one session's per-message usage timeline & skipped messages
+
+import Table from "cli-table3";
+import { convertSession } from "./converter.js";
+import { discoverSessions } from "./exporter.js";
+import type { MessageFilterOptions } from "./filters.js";
+import { readSessionFromStorage } from "./session.js";
+import type {
+  MessageSkipReason,
+  OpenCodeExport,
+  OpenCodeMessage,
+  OpenCodeRoot,
+  SessionListItem,
+  SessionTimeline,
+  SessionTimelineRow,
+  SkippedMessage,
+} from "./types.js";
+import { formatCurrency, formatNumber, pluralize } from "./utils.js";
+
+export interface ShowSessionOptions extends MessageFilterOptions {
+  openCodeDir?: string;
+  /** Several labeled OpenCode data directories (takes precedence over openCodeDir) */
+  openCodeRoots?: OpenCodeRoot[];
+  skipValidation?: boolean;
+}
+
+// max candidates listed when a prefix is ambiguous / skipped IDs listed per reason
+const MAX_LISTED_IDS = 10;
+
+const SKIP_REASON_LABELS: Record<MessageSkipReason, string> = {
+  "user-role": "user message (not billed)",
+  filtered: "excluded by --model / --provider",
+  "no-tokens": "no token usage",
+  "no-timestamp": "no timestamp",
+  duplicate: "duplicate message",
+};
+
+const colors = {
+  cyan: "\x1b[36m",
+  dim: "\x1b[2m",
+  reset: "\x1b[0m",
+  bold: "\x1b[1m",
+};
+
+// list first few IDs (+ "and N more")
+function listIds(ids: string[]): string {
+  const hidden = ids.length - MAX_LISTED_IDS;
+  return ids.slice(0, MAX_LISTED_IDS).join(", ") + (hidden > 0 ? `, ...and ${hidden} more` : "");
+}
+
+// * find session by exact ID or unique ID prefix
+export function matchSession(sessions: SessionListItem[], query: string): SessionListItem {
+  const exact = sessions.find((session) => session.id === query);
+  if (exact) return exact;
+
+  const matches = sessions.filter((session) => session.id.startsWith(query));
+  if (matches.length === 0) {
+    throw new Error(`No session matches "${query}"`);
+  }
+  if (matches.length > 1) {
+    const count = pluralize(matches.length, "match", "matches");
+    throw new Error(
+      `Session prefix "${query}" is ambiguous (${count}): ` +
+        listIds(matches.map((session) => session.id))
+    );
+  }
+  return matches[0];
+}
+
+// * build timeline from converter output (message granularity, reasoning split from output)
+export function buildSessionTimeline(
+  session: SessionListItem,
+  data: OpenCodeExport,
+  options: MessageFilterOptions = {}
+): SessionTimeline {
+  const { lines, skippedMessages } = convertSession(data, {
+    includeReasoningInOutput: false,
+    costMode: "auto",
+    model: options.model,
+    provider: options.provider,
+  });
+
+  const messages = new Map<string, OpenCodeMessage>();
+  for (const msg of data.messages) {
+    messages.set(msg.info.id, msg);
+  }
+
+  let cumulativeTokens = 0;
+  let cumulativeCost = 0;
+  const rows = lines.map((line): SessionTimelineRow => {
+    const info = messages.get(line.message.id)?.info;
+    const usage = line.message.usage;
+    const reasoningTokens = info?.tokens?.reasoning ?? 0;
+    const cacheCreationTokens = usage.cache_creation_input_tokens ?? 0;
+    const cacheReadTokens = usage.cache_read_input_tokens ?? 0;
+    const cost = line.costUSD ?? 0;
+
+    cumulativeTokens +=
+      usage.input_tokens +
+      usage.output_tokens +
+      reasoningTokens +
+      cacheCreationTokens +
+      cacheReadTokens;
+    cumulativeCost += cost;
+
+    return {
+      timestamp: line.timestamp,
+      messageId: line.message.id,
+      model: line.message.model,
+      provider: info?.providerID ?? null,
+      inputTokens: usage.input_tokens,
+      outputTokens: usage.output_tokens,
+      reasoningTokens,
+      cacheCreationTokens,
+      cacheReadTokens,
+      cost,
+      elapsedMs:
+        info?.time.completed !== undefined ? info.time.completed - info.time.created : null,
+      cumulativeTokens,
+      cumulativeCost,
+    };
+  });
+
+  return {
+    session,
+    rows,
+    skipped: skippedMessages,
+    totalTokens: cumulativeTokens,
+    totalCost: cumulativeCost,
+  };
+}
+
+// * find session (ID or prefix) in storage & build its timeline
+export async function showSession(
+  query: string,
+  options: ShowSessionOptions = {}
+): Promise<SessionTimeline> {
+  const sessions = await discoverSessions({
+    openCodeDir: options.openCodeDir,
+    openCodeRoots: options.openCodeRoots,
+  });
+  const session = matchSession(sessions, query);
+  const data = await readSessionFromStorage(session.id, session.projectId, {
+    openCodeDir: session.openCodeDir ?? options.openCodeDir,
+    skipValidation: options.skipValidation,
+  });
+  return buildSessionTimeline(session, data, options);
+}
+
+// format duration as "850ms", "12.3s" or "2m 05s"
+export function formatElapsed(ms: number | null): string {
+  if (ms === null) return "-";
+  if (ms < 1000) return `${ms}ms`;
+  if (ms < 60_000) return `${(ms / 1000).toFixed(1)}s`;
+  const minutes = Math.floor(ms / 60_000);
+  const seconds = Math.floor((ms % 60_000) / 1000);
+  return `${minutes}m ${String(seconds).padStart(2, "0")}s`;
+}
+
+// group skipped messages by reason (in first-seen order)
+function groupSkipped(skipped: SkippedMessage[]): Map<MessageSkipReason, string[]> {
+  const groups = new Map<MessageSkipReason, string[]>();
+  for (const msg of skipped) {
+    const ids = groups.get(msg.reason) ?? [];
+    ids.push(msg.messageId);
+    groups.set(msg.reason, ids);
+  }
+  return groups;
+}
+
+// * render session header, timeline table, totals & skipped messages
+export function renderSessionTimeline(timeline: SessionTimeline): string {
+  const { session } = timeline;
+  const lines: string[] = [
+    `${colors.bold}${session.title || "(untitled)"}${colors.reset}`,
+    `${colors.dim}${session.id} · ${session.projectId} · ${session.directory}${colors.reset}`,
+    "",
+  ];
+
+  if (timeline.rows.length === 0) {
+    lines.push("No usage recorded.");
+  } else {
+    const head = [
+      "Time",
+      "Model",
+      "Provider",
+      "Input",
+      "Output",
+      "Reasoning",
+      "Cache Create",
+      "Cache Read",
+      "Cost",
+      "Elapsed",
+      "Running Cost",
+    ];
+    const table = new Table({
+      head: head.map((label) => `${colors.cyan}${label}${colors.reset}`),
+      colAligns: [
+        "left",
+        "left",
+        "left",
+        "right",
+        "right",
+        "right",
+        "right",
+        "right",
+        "right",
+        "right",
+        "right",
+      ],
+    });
+    for (const row of timeline.rows) {
+      table.push([
+        row.timestamp.slice(0, 19).replace("T", " "),
+        row.model,
+        row.provider ?? "-",
+        formatNumber(row.inputTokens),
+        formatNumber(row.outputTokens),
+        formatNumber(row.reasoningTokens),
+        formatNumber(row.cacheCreationTokens),
+        formatNumber(row.cacheReadTokens),
+        formatCurrency(row.cost),
+        formatElapsed(row.elapsedMs),
+        formatCurrency(row.cumulativeCost),
+      ]);
+    }
+    lines.push(
+      table.toString(),
+      "",
+      `${colors.bold}${pluralize(timeline.rows.length, "usage line")}: ` +
+        `${formatNumber(timeline.totalTokens)} tokens, ` +
+        `${formatCurrency(timeline.totalCost)}${colors.reset}`
+    );
+  }
+
+  if (timeline.skipped.length > 0) {
+    lines.push("", `Skipped ${pluralize(timeline.skipped.length, "message")}:`);
+    for (const [reason, ids] of groupSkipped(timeline.skipped)) {
+      lines.push(`  ${SKIP_REASON_LABELS[reason]} (${ids.length}): ${listIds(ids)}`);
+    }
+  }
+  return lines.join("\n");
+}
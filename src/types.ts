@@ -49,9 +49,18 @@ export const MessageInfoSchema = z.object({
 });
 export type MessageInfo = z.infer<typeof MessageInfoSchema>;
 
+// step-finish part: tokens & cost of a single model call within an assistant message
+export const StepFinishPartSchema = z.object({
+  id: z.string().optional(),
+  type: z.literal("step-finish"),
+  cost: z.number().optional(),
+  tokens: TokenInfoSchema,
+});
+export type StepFinishPart = z.infer<typeof StepFinishPartSchema>;
+
 export const OpenCodeMessageSchema = z.object({
   info: MessageInfoSchema,
-  parts: z.array(z.unknown()), // Not needed for conversion
+  parts: z.array(z.unknown()), // loosely typed; step-finish parts are parsed on demand
 });
 export type OpenCodeMessage = z.infer<typeof OpenCodeMessageSchema>;
 
@@ -88,6 +97,206 @@ export interface SessionListItem {
   created: number;
   projectId: string;
   directory: string;
+  /** Label of the OpenCode root the session was found in (multi-root exports) */
+  rootLabel?: string;
+  /** OpenCode data directory the session was found in (multi-root exports) */
+  openCodeDir?: string;
+}
+
+// session w/ usage totals (sessions command); tokens & cost summed from converted lines
+
+export type SessionSort = "updated" | "cost" | "tokens";
+
+export interface SessionUsage extends SessionListItem {
+  /** All messages in the session (user & assistant) */
+  messages: number;
+  /** Usage lines the converter produced (billable model calls) */
+  usageLines: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  totalTokens: number;
+  /** Sum of OpenCode's recorded cost (0 when none recorded) */
+  cost: number;
+  /** Model w/ the most tokens (null = no usage) */
+  topModel: string | null;
+}
+
+// single session's usage timeline (show command); one row per converted usage line
+
+export interface SessionTimelineRow {
+  timestamp: string;
+  messageId: string;
+  model: string;
+  provider: string | null;
+  inputTokens: number;
+  /** Output tokens w/o reasoning */
+  outputTokens: number;
+  reasoningTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  /** OpenCode's recorded cost (0 when none recorded) */
+  cost: number;
+  /** Time from message start to completion (null = not completed) */
+  elapsedMs: number | null;
+  /** Running totals up to & including this row */
+  cumulativeTokens: number;
+  cumulativeCost: number;
+}
+
+export interface SessionTimeline {
+  session: SessionListItem;
+  rows: SessionTimelineRow[];
+  skipped: SkippedMessage[];
+  totalTokens: number;
+  totalCost: number;
+}
+
+// OpenCode data directory w/ optional label (from repeatable --opencode-dir)
+
+export interface OpenCodeRoot {
+  /** OpenCode data directory (parent of storage/) */
+  dir: string;
+  /** Label prefixed to the output subdirectories of its sessions */
+  label?: string;
+}
+
+// ccusage JSON file w/ source label (from repeatable report --input)
+
+export interface CcusageInput {
+  /** Source label shown in the merged report */
+  label: string;
+  /** Path to ccusage JSON output */
+  path: string;
+}
+
+// OpenCode storage directory & how it was chosen (--opencode-dir, OPENCODE_DATA_DIR, XDG_DATA_HOME)
+export type StorageDirSource = "override" | "env" | "xdg" | "default";
+
+export interface ResolvedStorageDir {
+  dir: string;
+  source: StorageDirSource;
+}
+
+// doctor check results
+export type DoctorStatus = "pass" | "warn" | "fail";
+
+export interface DoctorCheck {
+  /** Stable check ID (JSON consumers) */
+  id: string;
+  title: string;
+  status: DoctorStatus;
+  /** What was found */
+  detail: string;
+  /** Suggested fix (warn & fail) */
+  fix?: string;
+  /** Check-specific facts (paths, counts, versions) */
+  data?: Record<string, unknown>;
+}
+
+export interface DoctorReport {
+  checks: DoctorCheck[];
+  summary: Record<DoctorStatus, number>;
+}
+
+// usage source for combined reports (built-in Claude Code & OpenCode, or a registered module)
+
+// resolved engine w/ the view it reports (native has no blocks view)
+export type UsageSourceEngine =
+  | { engine: "native"; view: ReportView }
+  | { engine: "ccusage"; view: CcusageView };
+
+export type UsageSourceContext = UsageSourceEngine & {
+  /** Pass-through ccusage args */
+  ccusageArgs: string[];
+  /** ccusage timeout in ms (undefined = default) */
+  ccusageTimeoutMs?: number;
+  skipExport: boolean;
+  since: Date | undefined;
+  verbose: boolean;
+  /** OpenCode export run before reporting (resolved settings: out dir, group-by, …) */
+  exportOptions: ExportOptions;
+};
+
+export interface UsageSource {
+  /** Source label shown in the merged report */
+  label: string;
+  /** Check if the source has usage data on this machine */
+  discover(context: UsageSourceContext): Promise<boolean>;
+  /** Load usage as ccusage JSON for the requested view (null = no usage) */
+  load(context: UsageSourceContext): Promise<CcusageDailyOutput | null>;
+}
+
+// config file (~/.config/opencode-to-ccusage/config.json); source modules are resolved
+// relative to the file & export a UsageSource or a factory taking `options`
+export const SourceModuleConfigSchema = z
+  .object({
+    module: z.string().min(1),
+    label: z.string().min(1).optional(),
+    options: z.record(z.string(), z.unknown()).optional(),
+  })
+  .strict();
+export type SourceModuleConfig = z.infer<typeof SourceModuleConfigSchema>;
+
+// export settings a profile can set (same names as the CLI options; opencodeDir takes one
+// "[label=]path" or a list)
+export const SettingsSchema = z
+  .object({
+    out: z.string().min(1),
+    groupBy: z.enum(["flat", "project", "directory"]),
+    opencodeDir: z.preprocess(
+      (value) => (typeof value === "string" ? [value] : value),
+      z.array(z.string().min(1))
+    ),
+    since: z.string().min(1),
+    concurrency: z.number().int().positive(),
+    includeReasoningInOutput: z.boolean(),
+    costMode: z.enum(["auto", "opencode", "calculate"]),
+    granularity: z.enum(["message", "step"]),
+    source: z.enum(["auto", "storage", "cli"]),
+  })
+  .partial()
+  .strict();
+export type Settings = z.infer<typeof SettingsSchema>;
+export type SettingName = keyof Settings;
+
+/** Settings after resolution (everything but opencodeDir, since & concurrency has a default) */
+export type EffectiveSettings = Settings &
+  Required<
+    Pick<
+      Settings,
+      "out" | "groupBy" | "includeReasoningInOutput" | "costMode" | "granularity" | "source"
+    >
+  >;
+
+export const ConfigFileSchema = z
+  .object({
+    sources: z.array(SourceModuleConfigSchema).optional(),
+    /** Named settings profiles (--profile); "default" applies when none is selected */
+    profiles: z.record(z.string(), SettingsSchema).optional(),
+  })
+  .passthrough();
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+// where an effective setting came from (precedence: cli > env > profile > default)
+export type SettingSource = "cli" | "env" | "profile" | "default";
+
+export interface SettingOrigin {
+  source: SettingSource;
+  /** CLI flag, env var or profile name */
+  from?: string;
+}
+
+export interface ResolvedSettings {
+  /** Config file that was read (null = none) */
+  configPath: string | null;
+  /** Selected profile (null = none) */
+  profile: string | null;
+  /** How the profile was selected (--profile, env var or implicit "default") */
+  profileFrom: string | null;
+  values: EffectiveSettings;
+  origins: Record<SettingName, SettingOrigin>;
 }
 
 // ccusage output schemas (from `npx ccusage --json`)
@@ -113,6 +322,14 @@ export const DailyEntrySchema = z.object({
   modelsUsed: z.array(z.string()),
   modelBreakdowns: z.array(ModelBreakdownSchema),
   source: z.string().optional(),
+  /** Session view: last activity date */
+  lastActivity: z.string().optional(),
+  /** Session view: project path */
+  projectPath: z.string().optional(),
+  /** Blocks view: block end time (actual end for finished blocks) */
+  endTime: z.string().optional(),
+  /** Blocks view: whether block is still active */
+  isActive: z.boolean().optional(),
 });
 export type DailyEntry = z.infer<typeof DailyEntrySchema>;
 
@@ -126,57 +343,293 @@ export const TotalsSchema = z.object({
 });
 export type Totals = z.infer<typeof TotalsSchema>;
 
+// report views ccusage can emit as JSON (native engine supports all but blocks)
+export type CcusageView = ReportView | "blocks";
+
+// entries keyed by period (`date` holds the day, week start, month, session ID or block start)
 export const CcusageDailyOutputSchema = z.object({
   daily: z.array(DailyEntrySchema),
   totals: TotalsSchema,
+  /** View entries were normalized from (default: daily) */
+  view: z.enum(["daily", "weekly", "monthly", "session", "blocks"]).optional(),
 });
 export type CcusageDailyOutput = z.infer<typeof CcusageDailyOutputSchema>;
 
+// ccusage outputs for other views (normalized to CcusageDailyOutput for merging)
+
+const PeriodEntryFields = DailyEntrySchema.omit({ date: true, source: true }).shape;
+
+export const CcusageWeeklyOutputSchema = z.object({
+  weekly: z.array(z.object({ week: z.string(), ...PeriodEntryFields })),
+  totals: TotalsSchema,
+});
+
+export const CcusageMonthlyOutputSchema = z.object({
+  monthly: z.array(z.object({ month: z.string(), ...PeriodEntryFields })),
+  totals: TotalsSchema,
+});
+
+export const CcusageSessionOutputSchema = z.object({
+  sessions: z.array(
+    z.object({
+      sessionId: z.string(),
+      ...PeriodEntryFields,
+      lastActivity: z.string(),
+    })
+  ),
+  totals: TotalsSchema,
+});
+
+export const BlockEntrySchema = z.object({
+  id: z.string(),
+  startTime: z.string(),
+  endTime: z.string(),
+  actualEndTime: z.string().nullish(),
+  isActive: z.boolean(),
+  isGap: z.boolean().optional(),
+  tokenCounts: z.object({
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+    cacheCreationInputTokens: z.number(),
+    cacheReadInputTokens: z.number(),
+  }),
+  totalTokens: z.number(),
+  costUSD: z.number(),
+  models: z.array(z.string()),
+});
+export type BlockEntry = z.infer<typeof BlockEntrySchema>;
+
+export const CcusageBlocksOutputSchema = z.object({
+  blocks: z.array(BlockEntrySchema),
+});
+
+// budget limits in USD (report --budget); per-source limits are keyed by source label
+export type BudgetPeriod = "daily" | "weekly" | "monthly";
+
+export const BudgetLimitsSchema = z
+  .object({
+    daily: z.number().positive().optional(),
+    weekly: z.number().positive().optional(),
+    monthly: z.number().positive().optional(),
+  })
+  .strict();
+export type BudgetLimits = z.infer<typeof BudgetLimitsSchema>;
+
+export const BudgetConfigSchema = BudgetLimitsSchema.extend({
+  sources: z.record(z.string(), BudgetLimitsSchema).optional(),
+}).strict();
+export type BudgetConfig = z.infer<typeof BudgetConfigSchema>;
+
+// spend vs. one limit for the current period
+export interface BudgetStatus {
+  /** "All sources" or source label */
+  scope: string;
+  period: BudgetPeriod;
+  /** Current day, week start (Sunday) or month */
+  periodKey: string;
+  spent: number;
+  limit: number;
+  /** Negative when over budget */
+  remaining: number;
+  exceeded: boolean;
+}
+
+// day over a daily limit (source unset = all sources)
+export interface BudgetOverage {
+  date: string;
+  source?: string;
+  spent: number;
+  limit: number;
+}
+
+// month-end spend extrapolated from the current month's daily average
+export interface BudgetProjection {
+  scope: string;
+  month: string;
+  spent: number;
+  projected: number;
+  limit?: number;
+}
+
+export interface BudgetReport {
+  statuses: BudgetStatus[];
+  overBudgetDays: BudgetOverage[];
+  projections: BudgetProjection[];
+  /** Any current-period limit exceeded */
+  exceeded: boolean;
+}
+
+// output format for merged reports (report --format)
+export type ReportFormat = "table" | "json" | "markdown" | "csv" | "html";
+
+// format-neutral merged report rows (rendered as markdown, CSV or HTML)
+export type ReportColumnKind = "text" | "tokens" | "cost" | "share";
+
+export interface ReportColumn {
+  head: string;
+  kind: ReportColumnKind;
+}
+
+/** null = no value (e.g. source w/o usage for that period) */
+export type ReportCell = string | number | null;
+
+export interface ReportRow {
+  cells: ReportCell[];
+  /** Per-model sub-row (--breakdown); empty text cells belong to the row above */
+  model?: boolean;
+  /** Day over a daily budget limit */
+  overBudget?: boolean;
+}
+
+export interface ReportGrid {
+  columns: ReportColumn[];
+  rows: ReportRow[];
+  totals: ReportCell[];
+}
+
+// model usage summed across all entries (report --breakdown)
+export interface ModelTotal extends ModelBreakdown {
+  totalTokens: number;
+  /** Share of total cost (0-1) */
+  costShare: number;
+}
+
+// one source's part of an aggregated entry or of the totals (report --aggregate)
+export interface SourceUsage {
+  source: string;
+  totalTokens: number;
+  totalCost: number;
+  /** Share of entry (or overall) cost (0-1) */
+  costShare: number;
+}
+
+// merged entry (aggregated entries carry per-source usage)
+export interface MergedEntry extends DailyEntry {
+  sourceUsage?: SourceUsage[];
+}
+
 export interface MergedDailyOutput {
-  daily: DailyEntry[];
+  daily: MergedEntry[];
   totals: Totals;
   sources: string[];
+  /** View of merged entries (default: daily) */
+  view?: CcusageView;
+  /** Per-model totals (only w/ --breakdown) */
+  models?: ModelTotal[];
+  /** Per-source totals (only when aggregated by period) */
+  sourceTotals?: SourceUsage[];
+  /** Budget evaluation (only w/ --budget) */
+  budget?: BudgetReport;
 }
 
+// native report engine
+
+/** Report engine: bundled aggregation, ccusage, or ccusage when available */
+export type ReportEngine = "native" | "ccusage" | "auto";
+
+/** Rollup period for native reports */
+export type ReportView = "daily" | "weekly" | "monthly" | "session";
+
+// usage line in Claude Code / exported JSONL (other line types lack message.usage)
+export const UsageLineSchema = z
+  .object({
+    timestamp: z.string(),
+    sessionId: z.string().optional(),
+    requestId: z.string().optional(),
+    costUSD: z.number().optional(),
+    message: z
+      .object({
+        id: z.string().optional(),
+        model: z.string().optional(),
+        usage: z
+          .object({
+            input_tokens: z.number(),
+            output_tokens: z.number(),
+            cache_creation_input_tokens: z.number().optional(),
+            cache_read_input_tokens: z.number().optional(),
+          })
+          .passthrough(),
+      })
+      .passthrough(),
+  })
+  .passthrough();
+export type UsageLine = z.infer<typeof UsageLineSchema>;
+
 // ccusage-compatible JSONL output format
 
-export interface CcusageLine {
-  timestamp: string;
-  sessionId: string;
-  cwd?: string;
-  requestId: string;
-  costUSD?: number;
-  message: {
-    id: string;
-    model: string;
-    usage: {
-      input_tokens: number;
-      output_tokens: number;
-      cache_read_input_tokens?: number;
-      cache_creation_input_tokens?: number;
-    };
-  };
-}
+export const CcusageLineSchema = z.object({
+  timestamp: z.string().datetime(),
+  sessionId: z.string(),
+  cwd: z.string().optional(),
+  requestId: z.string(),
+  costUSD: z.number().optional(),
+  message: z.object({
+    id: z.string(),
+    model: z.string(),
+    usage: z.object({
+      input_tokens: z.number(),
+      output_tokens: z.number(),
+      cache_read_input_tokens: z.number().optional(),
+      cache_creation_input_tokens: z.number().optional(),
+    }),
+  }),
+});
+export type CcusageLine = z.infer<typeof CcusageLineSchema>;
 
 // export configuration types
 
 export type GroupBy = "flat" | "project" | "directory";
 
+/** How OpenCode's recorded cost is written: always, never (ccusage prices), or only when recorded */
+export type CostMode = "opencode" | "calculate" | "auto";
+
+/** Usage line granularity: one line per assistant message, or per step-finish part */
+export type Granularity = "message" | "step";
+
+/** Where session data is read from: storage files, `opencode export`, or storage w/ CLI fallback */
+export type SessionSource = "auto" | "storage" | "cli";
+
 export interface ExportOptions {
   outDir: string;
   overwrite: boolean;
   since?: Date;
+  /** Only sessions created before cutoff */
+  until?: Date;
+  /** Only sessions of this OpenCode project ID */
+  project?: string;
+  /** Glob matched against session directory */
+  directory?: string;
+  /** Regex matched against session title (case-insensitive) */
+  title?: string;
+  /** Glob matched against message model ID */
+  model?: string;
+  /** Glob matched against message provider ID */
+  provider?: string;
   includeReasoningInOutput: boolean;
+  /** Whether OpenCode's recorded cost is written to costUSD (default: auto) */
+  costMode: CostMode;
+  /** One usage line per message or per step (default: message) */
+  granularity: Granularity;
   dryRun: boolean;
   verbose: boolean;
   groupBy: GroupBy;
   openCodeDir?: string;
+  /** Several labeled OpenCode data directories (takes precedence over openCodeDir) */
+  openCodeRoots?: OpenCodeRoot[];
+  /** Session data source (default: auto) */
+  source: SessionSource;
   /** Override concurrency level for parallel processing */
   concurrency?: number;
-  /** Only re-export sessions updated since last export (compare mtime) */
+  /** Only re-export sessions whose source, output or options changed (per export manifest) */
   incremental?: boolean;
   /** Skip Zod schema validation for faster processing */
   skipValidation?: boolean;
+  /** Remove orphaned & duplicate files from the export directory afterwards */
+  prune?: boolean;
+  /** Suppress progress bar & informational stdout output (e.g. for --json) */
+  quiet?: boolean;
+  /** Receives export events instead of console output (implies quiet; listener errors are warned) */
+  onEvent?: (event: ExportEvent) => void;
 }
 
 export interface ExportStats {
@@ -185,5 +638,148 @@ export interface ExportStats {
   sessionsSkipped: number;
   messagesConverted: number;
   messagesSkipped: number;
+  /** Converted messages w/o a recorded OpenCode cost */
+  messagesMissingCost: number;
+  /** Previously exported sessions no longer in OpenCode storage (per manifest) */
+  vanishedSessions: string[];
+  /** Files & directories removed by --prune */
+  filesPruned: number;
+  /** Sessions removed by each discovery filter */
+  sessionsFiltered: FilterCounts<SessionFilterName>;
+  /** Messages removed by each message filter */
+  messagesFiltered: FilterCounts<MessageFilterName>;
   errors: string[];
 }
+
+// filters applied at discovery (SessionListItem) & conversion (message) time
+export type SessionFilterName = "since" | "until" | "project" | "directory" | "title";
+export type MessageFilterName = "model" | "provider";
+export type FilterCounts<T extends string> = Partial<Record<T, number>>;
+
+// why the converter emitted no usage line for a message (filtered = --model / --provider)
+export type MessageSkipReason =
+  | "user-role"
+  | "filtered"
+  | "no-tokens"
+  | "no-timestamp"
+  | "duplicate";
+
+export interface SkippedMessage {
+  messageId: string;
+  role: MessageInfo["role"];
+  reason: MessageSkipReason;
+}
+
+// why a session was skipped w/o error
+export type SessionSkipReason = "file-exists" | "unchanged" | "no-messages" | "aborted";
+
+// stage at which a session export failed
+export type SessionErrorClass = "storage" | "cli-unavailable" | "cli" | "write";
+
+export type SessionExportStatus = "exported" | "skipped" | "failed";
+
+// per-session outcome of an export run
+export interface SessionExportRecord {
+  sessionId: string;
+  directory: string;
+  status: SessionExportStatus;
+  /** Absolute path of the session's JSONL file */
+  outputFile: string;
+  /** Lines written (or that would be written in dry-run) */
+  linesWritten: number;
+  messagesSkipped: number;
+  /** Converted messages w/o a recorded OpenCode cost */
+  messagesMissingCost: number;
+  skipReason?: SessionSkipReason;
+  errorClass?: SessionErrorClass;
+  error?: string;
+  /** Retries of `opencode export` after a failed attempt */
+  retries: number;
+}
+
+// structured export result (printed by `export --json`)
+export interface ExportResult extends ExportStats {
+  dryRun: boolean;
+  sessions: SessionExportRecord[];
+}
+
+// export run event (ExportOptions.onEvent; session events carry the session's record)
+export type ExportEvent =
+  | { type: "session-started"; session: SessionListItem }
+  | { type: "session-exported"; session: SessionListItem; record: SessionExportRecord }
+  | { type: "session-skipped"; session: SessionListItem; record: SessionExportRecord }
+  | {
+      type: "session-failed";
+      session: SessionListItem;
+      record: SessionExportRecord;
+      error: string;
+    }
+  | { type: "progress"; processed: number; total: number }
+  /** No sessions left to export after discovery & filters */
+  | { type: "no-sessions" }
+  /** Run stopped early because the error rate exceeded the threshold */
+  | { type: "aborted"; errorRate: number };
+
+// export manifest (tracks what was exported, for incremental runs)
+
+export const ManifestOptionsSchema = z.object({
+  includeReasoningInOutput: z.boolean(),
+  groupBy: z.string(),
+  costMode: z.string(),
+  granularity: z.string(),
+  model: z.string().optional(),
+  provider: z.string().optional(),
+});
+export type ManifestOptions = z.infer<typeof ManifestOptionsSchema>;
+
+export const ManifestEntrySchema = z.object({
+  /** Source session updated time (ms) */
+  updated: z.number(),
+  /** Output file path relative to the output directory */
+  file: z.string(),
+  /** sha256 of the emitted JSONL */
+  hash: z.string(),
+  lines: z.number(),
+  options: ManifestOptionsSchema,
+  /** OpenCode storage dir read from, or the converted export file (unset in older manifests) */
+  root: z.string().optional(),
+  /** Session left storage (reported once; kept so prune can still attribute its file) */
+  vanished: z.boolean().optional(),
+});
+export type ManifestEntry = z.infer<typeof ManifestEntrySchema>;
+
+export const ExportManifestSchema = z.object({
+  version: z.literal(1),
+  sessions: z.record(ManifestEntrySchema),
+});
+export type ExportManifest = z.infer<typeof ExportManifestSchema>;
+
+// verify results (exported JSONL compared w/ lines re-derived from OpenCode storage)
+
+export type VerifyIssueKind =
+  | "malformed"
+  | "missing"
+  | "extra"
+  | "token-mismatch"
+  | "duplicate-request"
+  | "orphaned"
+  | "unreadable-session";
+
+export interface VerifyIssue {
+  kind: VerifyIssueKind;
+  /** Exported file (absolute path) */
+  file: string;
+  sessionId?: string;
+  requestId?: string;
+  /** 1-based line number in file */
+  line?: number;
+  detail: string;
+}
+
+export interface VerifyReport {
+  files: number;
+  lines: number;
+  sessions: number;
+  issues: VerifyIssue[];
+  counts: Partial<Record<VerifyIssueKind, number>>;
+}
@@ -0,0 +1,191 @@
+// src/usage-sources.ts
+// usage sources - built-in Claude Code & OpenCode sources plus modules registered in config
+
+import { existsSync } from "node:fs";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { loadCcusageJson, parseCcusageOutput, runCcusageJson } from "./ccusage-merge.js";
+import { CLAUDE_CONFIG_PATHS } from "./constants.js";
+import { printSummary, runExport } from "./exporter.js";
+import { runNativeReport } from "./native-report.js";
+import { checkOpenCodeAvailable, getStorageDir } from "./session.js";
+import type {
+  CcusageDailyOutput,
+  ConfigFile,
+  SourceModuleConfig,
+  UsageSource,
+  UsageSourceContext,
+} from "./types.js";
+import { getErrorMessage, pluralize, verboseLog } from "./utils.js";
+
+// find existing Claude Code data directories
+export function findClaudeConfigDirs(): string[] {
+  const existing: string[] = [];
+  for (const dir of CLAUDE_CONFIG_PATHS) {
+    const projectsDir = path.join(dir, "projects");
+    if (existsSync(projectsDir)) {
+      existing.push(dir);
+    }
+  }
+  return existing;
+}
+
+// Claude Code data directories for the native engine (CLAUDE_CONFIG_DIR wins, like ccusage)
+export function getClaudeDataDirs(): string[] {
+  const fromEnv = process.env.CLAUDE_CONFIG_DIR;
+  if (fromEnv) {
+    return fromEnv
+      .split(",")
+      .map((dir) => dir.trim())
+      .filter(Boolean);
+  }
+  return findClaudeConfigDirs();
+}
+
+// run report for config dirs w/ the resolved engine (undefined = Claude Code defaults)
+function getEngineUsage(
+  configDir: string | undefined,
+  context: UsageSourceContext
+): Promise<CcusageDailyOutput | null> {
+  if (context.engine === "native") {
+    const dirs = configDir ? [configDir] : getClaudeDataDirs();
+    return runNativeReport(dirs, context.view, context.verbose);
+  }
+  return runCcusageJson(configDir, context.ccusageArgs, context.verbose, context.ccusageTimeoutMs);
+}
+
+// Claude Code usage (ccusage finds its own data dirs; native needs one to exist)
+export const claudeCodeSource: UsageSource = {
+  label: "Claude Code",
+  discover: async (context) =>
+    context.engine === "ccusage" || getClaudeDataDirs().length > 0,
+  load: (context) => getEngineUsage(undefined, context),
+};
+
+// OpenCode usage (exports sessions to the export dir first unless skipped)
+export const openCodeSource: UsageSource = {
+  label: "OpenCode",
+  discover: async (context) => {
+    const { outDir, openCodeDir, openCodeRoots } = context.exportOptions;
+    if (existsSync(path.join(outDir, "projects"))) return true;
+    if (context.skipExport) return false;
+    const dataDirs = openCodeRoots?.map((root) => root.dir) ?? [openCodeDir];
+    return (
+      dataDirs.some((dir) => existsSync(getStorageDir(dir))) || (await checkOpenCodeAvailable())
+    );
+  },
+  load: async (context) => {
+    if (!context.skipExport) {
+      await exportOpenCodeSessions(context);
+    }
+    return getEngineUsage(context.exportOptions.outDir, context);
+  },
+};
+
+// export OpenCode sessions (errors are reported, report continues w/ existing exports)
+async function exportOpenCodeSessions(context: UsageSourceContext): Promise<void> {
+  const { verbose } = context;
+  verboseLog(verbose, "Exporting OpenCode sessions...\n");
+
+  try {
+    const stats = await runExport(context.exportOptions);
+
+    if (verbose) {
+      printSummary(stats);
+      console.log("");
+    } else if (stats.sessionsExported > 0) {
+      console.log(`Exported ${pluralize(stats.sessionsExported, "session")}\n`);
+    }
+  } catch (err) {
+    console.error(`Export error: ${getErrorMessage(err)}`);
+    if (!verbose) {
+      console.error("Use --verbose for more details.\n");
+    }
+    // continue even if export fails
+  }
+}
+
+// usage from a saved ccusage JSON file (report --combine <file>)
+export function createFileSource(label: string, filePath: string): UsageSource {
+  return {
+    label,
+    discover: async () => true,
+    load: async (context) => {
+      const data = await loadCcusageJson(filePath);
+      if (!data) {
+        throw new Error(`Failed to load ccusage JSON from: ${filePath}`);
+      }
+      const fileView = data.view ?? "daily";
+      if (fileView !== context.view) {
+        throw new Error(
+          `${filePath} contains a ${fileView} report, but ${context.view} was requested. ` +
+            `Pass "${fileView}" to ccusage or load a ${context.view} JSON file.`
+        );
+      }
+      return data;
+    },
+  };
+}
+
+// check module export shape ({ label, discover, load })
+function isUsageSource(value: unknown): value is UsageSource {
+  if (!value || typeof value !== "object") return false;
+  const source = value as Record<string, unknown>;
+  return (
+    typeof source.label === "string" &&
+    typeof source.discover === "function" &&
+    typeof source.load === "function"
+  );
+}
+
+// import registered module & wrap it (label override, ccusage JSON validated & normalized)
+async function loadSourceModule(
+  spec: SourceModuleConfig,
+  configPath: string
+): Promise<UsageSource> {
+  const modulePath = path.resolve(path.dirname(configPath), spec.module);
+
+  let exported: unknown;
+  try {
+    const mod = await import(pathToFileURL(modulePath).href);
+    exported = mod.default ?? mod.source;
+  } catch (err) {
+    throw new Error(`Cannot load usage source ${modulePath}: ${getErrorMessage(err)}`);
+  }
+
+  const source = typeof exported === "function" ? await exported(spec.options ?? {}) : exported;
+  if (!isUsageSource(source)) {
+    throw new Error(
+      `${modulePath} must export a usage source ({ label, discover, load }) ` +
+        "or a factory returning one"
+    );
+  }
+
+  const label = spec.label ?? source.label;
+  return {
+    label,
+    discover: (context) => source.discover(context),
+    load: async (context) => {
+      const json = await source.load(context);
+      if (json === null || json === undefined) return null;
+
+      const data = parseCcusageOutput(json);
+      if (!data) {
+        throw new Error("load() did not return ccusage JSON");
+      }
+      return data;
+    },
+  };
+}
+
+// * load usage sources registered in config file (in config order)
+export async function loadRegisteredSources(
+  config: ConfigFile,
+  configPath: string
+): Promise<UsageSource[]> {
+  const sources: UsageSource[] = [];
+  for (const spec of config.sources ?? []) {
+    sources.push(await loadSourceModule(spec, configPath));
+  }
+  return sources;
+}
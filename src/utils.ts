@@ -5,6 +5,7 @@ import { spawn } from "node:child_process";
 import { access, constants } from "node:fs/promises";
 import os from "node:os";
 import { MAX_BUFFER } from "./constants.js";
+import type { DailyEntry, OpenCodeRoot, Totals } from "./types.js";
 
 // convert unix timestamp (milliseconds) to ISO 8601 string
 export function toISOTimestamp(unixMs: number): string {
@@ -17,7 +18,7 @@ export function getErrorMessage(err: unknown): string {
 }
 
 // parse --since argument (number of days or ISO date string)
-export function parseSince(value: string): Date {
+export function parseSince(value: string, flag = "--since"): Date {
   const days = parseInt(value, 10);
   if (!isNaN(days) && days.toString() === value.trim()) {
     return new Date(Date.now() - days * 24 * 60 * 60 * 1000);
@@ -25,23 +26,70 @@ export function parseSince(value: string): Date {
   const date = new Date(value);
   if (isNaN(date.getTime())) {
     throw new Error(
-      `Invalid --since value: "${value}". Use a number of days or an ISO date.`
+      `Invalid ${flag} value: "${value}". Use a number of days or an ISO date.`
     );
   }
   return date;
 }
 
-// parse --since value or exit w/ error
-export function parseSinceOrExit(value: string | undefined): Date | undefined {
+// parse --since (or --until) value or exit w/ error
+export function parseSinceOrExit(
+  value: string | undefined,
+  flag = "--since"
+): Date | undefined {
   if (!value) return undefined;
   try {
-    return parseSince(value);
+    return parseSince(value, flag);
   } catch (err) {
     console.error(`Error: ${getErrorMessage(err)}`);
     process.exit(1);
   }
 }
 
+// validate option value against allowed choices or exit w/ error
+export function parseChoiceOrExit<T extends string>(
+  flag: string,
+  value: string,
+  choices: readonly T[]
+): T {
+  if (!(choices as readonly string[]).includes(value)) {
+    console.error(
+      `Error: Invalid ${flag} value "${value}". Must be one of: ${choices.join(", ")}`
+    );
+    process.exit(1);
+  }
+  return value as T;
+}
+
+// parse --opencode-dir value ("<label>=<path>" or "<path>")
+export function parseOpenCodeDirSpec(value: string): OpenCodeRoot {
+  const match = value.match(/^([A-Za-z0-9._-]+)=(.+)$/);
+  if (match) {
+    return { label: match[1], dir: match[2] };
+  }
+  return { dir: value };
+}
+
+// collect repeatable option values into array (commander option parser)
+export function collect(value: string, previous: string[] = []): string[] {
+  return [...previous, value];
+}
+
+// map repeated --opencode-dir values to export options (single unlabeled dir stays openCodeDir)
+export function resolveOpenCodeDirOptions(values: string[] = []): {
+  openCodeDir?: string;
+  openCodeRoots?: OpenCodeRoot[];
+} {
+  const roots = values.map(parseOpenCodeDirSpec);
+  if (roots.length === 0) {
+    return {};
+  }
+  if (roots.length === 1 && !roots[0].label) {
+    return { openCodeDir: roots[0].dir };
+  }
+  return { openCodeRoots: roots };
+}
+
 // check if file exists at given path
 export async function fileExists(path: string): Promise<boolean> {
   try {
@@ -89,6 +137,36 @@ export function formatCurrency(amount: number): string {
   return `$${amount.toFixed(2)}`;
 }
 
+// format date as YYYY-MM-DD in local time
+export function formatLocalDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// sum entry tokens & costs into totals
+export function calculateTotals(entries: DailyEntry[]): Totals {
+  const totals: Totals = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    totalCost: 0,
+  };
+
+  for (const entry of entries) {
+    totals.inputTokens += entry.inputTokens;
+    totals.outputTokens += entry.outputTokens;
+    totals.cacheCreationTokens += entry.cacheCreationTokens;
+    totals.cacheReadTokens += entry.cacheReadTokens;
+    totals.totalTokens += entry.totalTokens;
+    totals.totalCost += entry.totalCost;
+  }
+
+  return totals;
+}
+
 // determine optimal concurrency for parallel I/O operations
 // based on system resources (CPU count)
 export function getOptimalConcurrency(override?: number): number {
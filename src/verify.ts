@@ -0,0 +1,299 @@
+// src/verify.ts
+// verify exported JSONL - schema-checks lines & compares them w/ lines re-derived from storage
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { COST_MODE_CHOICES, GRANULARITY_CHOICES } from "./constants.js";
+import { convertSession, type ConvertOptions } from "./converter.js";
+import { createExportOptions, discoverSessions } from "./exporter.js";
+import { formatFilterCounts } from "./filters.js";
+import { getScannedRoots, isFileFromRoots, loadManifest } from "./manifest.js";
+import { listExportedFiles } from "./pruner.js";
+import { readSessionFromStorage } from "./session.js";
+import {
+  CcusageLineSchema,
+  type CcusageLine,
+  type ManifestEntry,
+  type OpenCodeRoot,
+  type VerifyIssue,
+  type VerifyReport,
+} from "./types.js";
+import { getErrorMessage, pluralize, verboseLog } from "./utils.js";
+
+export interface VerifyOptions {
+  /** Export directory (contains projects/) */
+  outDir: string;
+  openCodeDir?: string;
+  /** Several labeled OpenCode data directories (takes precedence over openCodeDir) */
+  openCodeRoots?: OpenCodeRoot[];
+  skipValidation?: boolean;
+  verbose: boolean;
+}
+
+// exported line w/ its position in the file
+interface ParsedLine {
+  line: CcusageLine;
+  lineNumber: number;
+}
+
+// usage fields compared between exported & expected lines
+const TOKEN_FIELDS = [
+  "input_tokens",
+  "output_tokens",
+  "cache_read_input_tokens",
+  "cache_creation_input_tokens",
+] as const;
+
+// * parse exported JSONL, flagging lines that aren't valid JSON or don't match CcusageLineSchema
+export function parseExportedLines(
+  content: string,
+  file: string
+): { lines: ParsedLine[]; issues: VerifyIssue[] } {
+  const lines: ParsedLine[] = [];
+  const issues: VerifyIssue[] = [];
+
+  content.split("\n").forEach((text, index) => {
+    if (!text.trim()) return;
+    const lineNumber = index + 1;
+
+    let json: unknown;
+    try {
+      json = JSON.parse(text);
+    } catch {
+      issues.push({ kind: "malformed", file, line: lineNumber, detail: "invalid JSON" });
+      return;
+    }
+
+    const parsed = CcusageLineSchema.safeParse(json);
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0];
+      const field = issue.path.join(".") || "line";
+      issues.push({
+        kind: "malformed",
+        file,
+        line: lineNumber,
+        detail: `${field}: ${issue.message}`,
+      });
+      return;
+    }
+    lines.push({ line: parsed.data, lineNumber });
+  });
+
+  return { lines, issues };
+}
+
+// conversion options the session was exported w/ (manifest), else export defaults
+export function getVerifyConvertOptions(entry?: ManifestEntry): ConvertOptions {
+  const defaults = createExportOptions("");
+  const recorded = entry?.options;
+  const costMode = COST_MODE_CHOICES.find((mode) => mode === recorded?.costMode);
+  const granularity = GRANULARITY_CHOICES.find((level) => level === recorded?.granularity);
+
+  return {
+    includeReasoningInOutput:
+      recorded?.includeReasoningInOutput ?? defaults.includeReasoningInOutput,
+    costMode: costMode ?? defaults.costMode,
+    granularity: granularity ?? defaults.granularity,
+    model: recorded?.model,
+    provider: recorded?.provider,
+  };
+}
+
+// describe differing usage fields (null = tokens match)
+function describeTokenDiff(actual: CcusageLine, expected: CcusageLine): string | null {
+  const diffs: string[] = [];
+  for (const field of TOKEN_FIELDS) {
+    const got = actual.message.usage[field] ?? 0;
+    const want = expected.message.usage[field] ?? 0;
+    if (got !== want) {
+      diffs.push(`${field} ${got} (expected ${want})`);
+    }
+  }
+  return diffs.length > 0 ? diffs.join(", ") : null;
+}
+
+// * compare one file's lines w/ the lines re-derived from its session
+export function compareSessionLines(
+  file: string,
+  sessionId: string,
+  actual: ParsedLine[],
+  expected: CcusageLine[]
+): VerifyIssue[] {
+  const issues: VerifyIssue[] = [];
+  const expectedById = new Map(expected.map((line) => [line.requestId, line]));
+  const seen = new Set<string>();
+
+  for (const { line, lineNumber } of actual) {
+    // repeats are reported as duplicate requestIds
+    if (seen.has(line.requestId)) continue;
+    seen.add(line.requestId);
+
+    const want = expectedById.get(line.requestId);
+    if (!want) {
+      issues.push({
+        kind: "extra",
+        file,
+        sessionId,
+        requestId: line.requestId,
+        line: lineNumber,
+        detail: "not in the source session (deleted or filtered message)",
+      });
+      continue;
+    }
+
+    const diff = describeTokenDiff(line, want);
+    if (diff) {
+      issues.push({
+        kind: "token-mismatch",
+        file,
+        sessionId,
+        requestId: line.requestId,
+        line: lineNumber,
+        detail: diff,
+      });
+    }
+  }
+
+  for (const line of expected) {
+    if (!seen.has(line.requestId)) {
+      issues.push({
+        kind: "missing",
+        file,
+        sessionId,
+        requestId: line.requestId,
+        detail: `message ${line.message.id} (${line.timestamp}) not exported`,
+      });
+    }
+  }
+  return issues;
+}
+
+// * verify every exported session file against OpenCode storage
+export async function runVerify(options: VerifyOptions): Promise<VerifyReport> {
+  const sessions = await discoverSessions({
+    openCodeDir: options.openCodeDir,
+    openCodeRoots: options.openCodeRoots,
+  });
+  const { files } = await listExportedFiles(path.join(options.outDir, "projects"));
+
+  // guard against flagging every file when storage lookup is misconfigured
+  if (sessions.length === 0 && files.length > 0) {
+    throw new Error(
+      "No OpenCode sessions found in storage; cannot verify exported files. " +
+        "Check --opencode-dir or OPENCODE_DATA_DIR."
+    );
+  }
+
+  const sessionsById = new Map(sessions.map((s) => [s.id, s]));
+  const manifest = await loadManifest(options.outDir);
+  const roots = getScannedRoots(options);
+  const issues: VerifyIssue[] = [];
+  const occurrences = new Map<string, { file: string; line: number }[]>();
+  let lineCount = 0;
+  let sessionCount = 0;
+
+  files.sort((a, b) => a.path.localeCompare(b.path));
+  for (const file of files) {
+    verboseLog(options.verbose, `Verifying ${path.relative(options.outDir, file.path)}`);
+
+    let content: string;
+    try {
+      content = await readFile(file.path, "utf-8");
+    } catch (err) {
+      issues.push({ kind: "malformed", file: file.path, detail: getErrorMessage(err) });
+      continue;
+    }
+
+    const parsed = parseExportedLines(content, file.path);
+    issues.push(...parsed.issues);
+    lineCount += parsed.lines.length + parsed.issues.length;
+    for (const { line, lineNumber } of parsed.lines) {
+      const list = occurrences.get(line.requestId) ?? [];
+      list.push({ file: file.path, line: lineNumber });
+      occurrences.set(line.requestId, list);
+    }
+
+    const session = sessionsById.get(file.sessionId);
+    if (!session) {
+      // same rule as prune: files from unscanned roots, `convert` or elsewhere aren't orphaned
+      const entry = manifest.sessions[file.sessionId];
+      if (!isFileFromRoots(entry, file.path, options.outDir, roots)) {
+        const name = path.relative(options.outDir, file.path);
+        verboseLog(options.verbose, `Not checking ${name} (not exported from a scanned root)`);
+        continue;
+      }
+      issues.push({
+        kind: "orphaned",
+        file: file.path,
+        sessionId: file.sessionId,
+        detail: "session no longer exists in OpenCode storage",
+      });
+      continue;
+    }
+
+    let expected: CcusageLine[];
+    try {
+      const data = await readSessionFromStorage(session.id, session.projectId, {
+        openCodeDir: session.openCodeDir ?? options.openCodeDir,
+        skipValidation: options.skipValidation,
+      });
+      const convertOptions = getVerifyConvertOptions(manifest.sessions[session.id]);
+      expected = convertSession(data, convertOptions).lines;
+    } catch (err) {
+      issues.push({
+        kind: "unreadable-session",
+        file: file.path,
+        sessionId: session.id,
+        detail: `Failed to read session from storage: ${getErrorMessage(err)}`,
+      });
+      continue;
+    }
+
+    sessionCount++;
+    issues.push(...compareSessionLines(file.path, session.id, parsed.lines, expected));
+  }
+
+  // same requestId in several places (ccusage counts each copy)
+  for (const [requestId, list] of occurrences) {
+    const [first, ...rest] = list;
+    for (const duplicate of rest) {
+      issues.push({
+        kind: "duplicate-request",
+        file: duplicate.file,
+        requestId,
+        line: duplicate.line,
+        detail: `also in ${path.relative(options.outDir, first.file)}:${first.line}`,
+      });
+    }
+  }
+
+  const counts: VerifyReport["counts"] = {};
+  for (const issue of issues) {
+    counts[issue.kind] = (counts[issue.kind] ?? 0) + 1;
+  }
+  return { files: files.length, lines: lineCount, sessions: sessionCount, issues, counts };
+}
+
+// * render issues as "[kind] file:line (requestId) detail" w/ a summary
+export function renderVerifyReport(report: VerifyReport, outDir: string): string {
+  const lines: string[] = [];
+  for (const issue of report.issues) {
+    const location = path.relative(outDir, issue.file) + (issue.line ? `:${issue.line}` : "");
+    const request = issue.requestId ? ` (${issue.requestId})` : "";
+    lines.push(`[${issue.kind}] ${location}${request} ${issue.detail}`);
+  }
+
+  const checked =
+    `Checked ${pluralize(report.files, "file")} (${pluralize(report.lines, "line")}) ` +
+    `against ${pluralize(report.sessions, "session")}`;
+  if (report.issues.length === 0) {
+    lines.push(`${checked}: no drift found.`);
+  } else {
+    lines.push(
+      "",
+      `${checked}: ${pluralize(report.issues.length, "issue")} ` +
+        `(${formatFilterCounts(report.counts)})`
+    );
+  }
+  return lines.join("\n");
+}
@@ -0,0 +1,298 @@
+// src/watcher.ts
+// watch mode - keeps ccusage export in sync w/ OpenCode storage
+
+import { watch, type FSWatcher } from "node:fs";
+import { mkdir, readFile } from "node:fs/promises";
+import path from "node:path";
+import { createCliCheck, discoverSessions, exportSessionToFile } from "./exporter.js";
+import { createSessionFilter } from "./filters.js";
+import { loadManifest, saveManifest } from "./manifest.js";
+import { getSessionOutputPath } from "./output-path.js";
+import { getStorageDir, readSessionListItem, resolveOpenCodeRoots } from "./session.js";
+import type { ExportOptions, SessionListItem } from "./types.js";
+import { fileExists, getErrorMessage, pluralize, verboseLog, warn } from "./utils.js";
+
+// default delay before re-exporting a changed session
+export const DEFAULT_WATCH_DEBOUNCE_MS = 1000;
+
+export interface WatchOptions {
+  /** Delay after last change before re-exporting a session (ms) */
+  debounceMs?: number;
+}
+
+export interface WatchHandle {
+  /** Stop watching & wait for in-flight exports to finish */
+  close(): Promise<void>;
+}
+
+// watched OpenCode root (label & dir only set for labeled multi-root exports)
+interface WatchedRoot {
+  storageDir: string;
+  dir?: string;
+  label?: string;
+}
+
+// changed storage file, resolved to the session or message it belongs to
+type StorageChange =
+  | { kind: "session"; sessionId: string; filePath: string }
+  | { kind: "message"; sessionId: string; messageId: string }
+  | { kind: "part"; messageId: string; filePath: string };
+
+// map path relative to storage dir to the session it affects
+// layout: session/<projectID>/<sessionID>.json, message/<sessionID>/<messageID>.json,
+// part/<messageID>/<partID>.json
+export function parseStorageChange(
+  storageDir: string,
+  relativePath: string
+): StorageChange | null {
+  const segments = relativePath.split(path.sep);
+  if (segments.length !== 3 || !segments[2].endsWith(".json")) {
+    return null;
+  }
+
+  const [kind, parent, file] = segments;
+  const id = file.slice(0, -".json".length);
+  switch (kind) {
+    case "session":
+      return { kind, sessionId: id, filePath: path.join(storageDir, relativePath) };
+    case "message":
+      return { kind, sessionId: parent, messageId: id };
+    case "part":
+      return { kind, messageId: parent, filePath: path.join(storageDir, relativePath) };
+    default:
+      return null;
+  }
+}
+
+// format current time for watch log lines
+function timestamp(): string {
+  return new Date().toLocaleTimeString("en-US", { hour12: false });
+}
+
+// * watch OpenCode storage & re-export changed sessions (debounced per session)
+export async function watchExport(
+  options: ExportOptions,
+  watchOptions: WatchOptions = {}
+): Promise<WatchHandle> {
+  const debounceMs = watchOptions.debounceMs ?? DEFAULT_WATCH_DEBOUNCE_MS;
+
+  // single (unlabeled) root unless several --opencode-dir values were given
+  const roots: WatchedRoot[] =
+    options.openCodeRoots && options.openCodeRoots.length > 0
+      ? resolveOpenCodeRoots(options.openCodeRoots).map((root) => ({
+          ...root,
+          storageDir: getStorageDir(root.dir),
+        }))
+      : [{ storageDir: getStorageDir(options.openCodeDir) }];
+
+  for (const root of roots) {
+    if (!(await fileExists(root.storageDir))) {
+      throw new Error(`OpenCode storage not found: ${root.storageDir}`);
+    }
+  }
+
+  // watch mode always rewrites changed sessions
+  const exportOptions: ExportOptions = { ...options, overwrite: true, incremental: false };
+  const cliAvailable = createCliCheck();
+
+  // index known sessions & message -> session mapping (for part changes)
+  const rejects = createSessionFilter(options);
+  const sessions = new Map<string, SessionListItem>();
+  for (const session of await discoverSessions({ ...options, since: undefined })) {
+    if (!rejects(session)) {
+      sessions.set(session.id, session);
+    }
+  }
+  const messageSessions = new Map<string, string>();
+
+  // keep manifest in step w/ re-exports (--incremental & vanished-session detection use it)
+  const manifest = await loadManifest(options.outDir);
+  let saving = Promise.resolve();
+  function persistManifest(): Promise<void> {
+    saving = saving
+      .then(() => saveManifest(options.outDir, manifest))
+      .catch((err) => warn(`Failed to save export manifest: ${getErrorMessage(err)}`));
+    return saving;
+  }
+
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const running = new Map<string, Promise<void>>();
+
+  // re-export single session (serialized per session)
+  async function reexport(sessionId: string): Promise<void> {
+    const session = sessions.get(sessionId);
+    if (!session) {
+      verboseLog(options.verbose, `Ignoring change to unknown session ${sessionId}`);
+      return;
+    }
+
+    try {
+      if (!exportOptions.dryRun) {
+        const { outFile } = getSessionOutputPath(session, exportOptions);
+        await mkdir(path.dirname(outFile), { recursive: true });
+      }
+
+      const result = await exportSessionToFile(session, exportOptions, cliAvailable);
+      if (result.manifestEntry) {
+        manifest.sessions[session.id] = result.manifestEntry;
+        await persistManifest();
+      }
+      if (result.error) {
+        warn(result.error);
+      } else if (result.exported) {
+        console.log(
+          `[${timestamp()}] Updated ${session.id} (${pluralize(result.messagesConverted, "line")})`
+        );
+      }
+    } catch (err) {
+      warn(`Failed to re-export session ${sessionId}: ${getErrorMessage(err)}`);
+    }
+  }
+
+  // debounce changes per session
+  function schedule(sessionId: string): void {
+    const existing = timers.get(sessionId);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    timers.set(
+      sessionId,
+      setTimeout(() => {
+        timers.delete(sessionId);
+        const previous = running.get(sessionId) ?? Promise.resolve();
+        const next = previous.then(() => reexport(sessionId));
+        running.set(sessionId, next);
+        void next.finally(() => {
+          if (running.get(sessionId) === next) {
+            running.delete(sessionId);
+          }
+        });
+      }, debounceMs)
+    );
+  }
+
+  // handle session file change (may be a newly created session)
+  async function onSessionFile(
+    root: WatchedRoot,
+    sessionId: string,
+    filePath: string
+  ): Promise<void> {
+    const stored = await readSessionListItem(filePath);
+    if (!stored) return;
+
+    if (rejects(stored)) {
+      return;
+    }
+
+    const item: SessionListItem = root.label
+      ? { ...stored, rootLabel: root.label, openCodeDir: root.dir }
+      : stored;
+
+    // same session synced into several roots: most recently updated copy wins
+    const existing = sessions.get(sessionId);
+    if (!existing) {
+      verboseLog(options.verbose, `Discovered new session ${sessionId}`);
+    } else if (existing.rootLabel !== item.rootLabel && existing.updated > item.updated) {
+      return;
+    }
+    sessions.set(sessionId, item);
+    schedule(sessionId);
+  }
+
+  // find session of message that existed before watching started
+  // (part files record their sessionID; otherwise look for the message file)
+  async function findMessageSession(
+    root: WatchedRoot,
+    messageId: string,
+    partFile: string
+  ): Promise<string | null> {
+    try {
+      const part = JSON.parse(await readFile(partFile, "utf-8")) as { sessionID?: unknown };
+      if (typeof part.sessionID === "string") {
+        return part.sessionID;
+      }
+    } catch {
+      // part file removed or still being written
+    }
+
+    for (const sessionId of sessions.keys()) {
+      const messageFile = path.join(root.storageDir, "message", sessionId, `${messageId}.json`);
+      if (await fileExists(messageFile)) {
+        return sessionId;
+      }
+    }
+    return null;
+  }
+
+  // handle part file change (message -> session mapping resolved on first sight)
+  async function onPartFile(
+    root: WatchedRoot,
+    messageId: string,
+    filePath: string
+  ): Promise<void> {
+    const sessionId =
+      messageSessions.get(messageId) ?? (await findMessageSession(root, messageId, filePath));
+    if (!sessionId) return;
+    messageSessions.set(messageId, sessionId);
+    schedule(sessionId);
+  }
+
+  function onChange(root: WatchedRoot, filename: string | null): void {
+    if (!filename) return;
+
+    const change = parseStorageChange(root.storageDir, filename);
+    if (!change) return;
+
+    switch (change.kind) {
+      case "session":
+        void onSessionFile(root, change.sessionId, change.filePath);
+        break;
+      case "message":
+        messageSessions.set(change.messageId, change.sessionId);
+        schedule(change.sessionId);
+        break;
+      case "part":
+        void onPartFile(root, change.messageId, change.filePath);
+        break;
+    }
+  }
+
+  // recursive watch (supported on macOS, Windows & Linux w/ Node 20+, hence engines >=20)
+  const watchers: FSWatcher[] = [];
+  for (const root of roots) {
+    let watcher: FSWatcher;
+    try {
+      watcher = watch(root.storageDir, { recursive: true }, (_event, filename) => {
+        onChange(root, filename);
+      });
+    } catch (err) {
+      watchers.forEach((w) => w.close());
+      throw new Error(
+        `Failed to watch OpenCode storage ${root.storageDir}: ${getErrorMessage(err)}`
+      );
+    }
+    watcher.on("error", (err) => {
+      warn(`Watch error: ${getErrorMessage(err)}`);
+    });
+    watchers.push(watcher);
+
+    verboseLog(options.verbose, `Watching ${root.storageDir}`);
+  }
+
+  verboseLog(
+    options.verbose,
+    `Tracking ${pluralize(sessions.size, "session")} (debounce ${debounceMs}ms)`
+  );
+
+  return {
+    async close() {
+      watchers.forEach((w) => w.close());
+      for (const timer of timers.values()) {
+        clearTimeout(timer);
+      }
+      timers.clear();
+      await Promise.all(running.values());
+      await saving;
+    },
+  };
+}
@@ -0,0 +1,209 @@
+// test/budget.test.ts
+// tests for budget limits, projections & over-budget days
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { stripVTControlCharacters } from "node:util";
+import {
+  evaluateBudget,
+  getBudgetPeriodKey,
+  isOverBudget,
+  loadBudgetConfig,
+  mergeBudgetLimits,
+  renderBudgetTable,
+} from "../src/budget.js";
+import { mergeDailyReports, mergeDailyReportsAggregated } from "../src/ccusage-merge.js";
+import { renderReport } from "../src/report-formats.js";
+import type { BudgetConfig } from "../src/types.js";
+import { dailyEntry, dailyReport } from "./helpers.js";
+
+const reports = [
+  {
+    data: dailyReport([
+      dailyEntry("2025-01-15", 12),
+      dailyEntry("2025-01-14", 5),
+      dailyEntry("2025-01-10", 30),
+    ]),
+    source: "Claude Code",
+  },
+  {
+    data: dailyReport([dailyEntry("2025-01-15", 10), dailyEntry("2024-12-31", 50)]),
+    source: "OpenCode",
+  },
+];
+
+const config: BudgetConfig = {
+  daily: 20,
+  weekly: 60,
+  monthly: 100,
+  sources: { OpenCode: { daily: 8, monthly: 40 } },
+};
+
+// Wednesday, Jan 15 2025 (local time)
+const now = new Date(2025, 0, 15, 12);
+
+describe("getBudgetPeriodKey", () => {
+  it("maps dates to day, week start (Sunday) or month", () => {
+    expect(getBudgetPeriodKey("2025-01-15", "daily")).toBe("2025-01-15");
+    expect(getBudgetPeriodKey("2025-01-15", "weekly")).toBe("2025-01-12");
+    expect(getBudgetPeriodKey("2025-01-12", "weekly")).toBe("2025-01-12");
+    expect(getBudgetPeriodKey("2025-01-02", "weekly")).toBe("2024-12-29");
+    expect(getBudgetPeriodKey("2025-01-15", "monthly")).toBe("2025-01");
+  });
+});
+
+describe("evaluateBudget", () => {
+  it("reports current-period spend & remaining budget per scope", () => {
+    const budget = evaluateBudget(mergeDailyReports(reports), config, now);
+
+    expect(budget.statuses.map((s) => [s.scope, s.period, s.periodKey, s.spent])).toEqual([
+      ["All sources", "daily", "2025-01-15", 22],
+      ["All sources", "weekly", "2025-01-12", 27],
+      ["All sources", "monthly", "2025-01", 57],
+      ["OpenCode", "daily", "2025-01-15", 10],
+      ["OpenCode", "monthly", "2025-01", 10],
+    ]);
+    expect(budget.statuses[0]).toMatchObject({ remaining: -2, exceeded: true });
+    expect(budget.statuses[2]).toMatchObject({ remaining: 43, exceeded: false });
+    expect(budget.exceeded).toBe(true);
+  });
+
+  it("lists every reported day over a daily limit, newest first", () => {
+    const budget = evaluateBudget(mergeDailyReports(reports), config, now);
+
+    expect(budget.overBudgetDays.map((d) => [d.date, d.source ?? "all", d.spent])).toEqual([
+      ["2025-01-15", "all", 22],
+      ["2025-01-15", "OpenCode", 10],
+      ["2025-01-10", "all", 30],
+      ["2024-12-31", "all", 50],
+      ["2024-12-31", "OpenCode", 50],
+    ]);
+  });
+
+  it("projects month-end spend from the daily average", () => {
+    const budget = evaluateBudget(mergeDailyReports(reports), config, now);
+
+    expect(budget.projections).toHaveLength(2);
+    expect(budget.projections[0]).toMatchObject({ scope: "All sources", month: "2025-01" });
+    expect(budget.projections[0].projected).toBeCloseTo((57 / 15) * 31);
+    expect(budget.projections[1]).toMatchObject({ scope: "OpenCode", limit: 40 });
+  });
+
+  it("gives the same result for aggregated output", () => {
+    const plain = evaluateBudget(mergeDailyReports(reports), config, now);
+    const aggregated = evaluateBudget(mergeDailyReportsAggregated(reports), config, now);
+    expect(aggregated).toEqual(plain);
+  });
+
+  it("passes when spend is within limits", () => {
+    const budget = evaluateBudget(mergeDailyReports(reports), { monthly: 500 }, now);
+    expect(budget.exceeded).toBe(false);
+    expect(budget.overBudgetDays).toEqual([]);
+  });
+});
+
+describe("isOverBudget", () => {
+  it("matches overall & per-source days", () => {
+    const merged = mergeDailyReports(reports);
+    const budget = evaluateBudget(merged, { sources: { OpenCode: { daily: 8 } } }, now);
+
+    const claudeJan15 = merged.daily.find(
+      (e) => e.date === "2025-01-15" && e.source === "Claude Code"
+    )!;
+    const opencodeJan15 = merged.daily.find(
+      (e) => e.date === "2025-01-15" && e.source === "OpenCode"
+    )!;
+    expect(isOverBudget(opencodeJan15, budget)).toBe(true);
+    expect(isOverBudget(claudeJan15, budget)).toBe(false);
+    expect(isOverBudget(claudeJan15, undefined)).toBe(false);
+  });
+
+  it("reads aggregated sources from sourceUsage, not the joined label", () => {
+    const merged = mergeDailyReportsAggregated([
+      { data: dailyReport([dailyEntry("2025-01-15", 10)]), source: "Work + Home" },
+      { data: dailyReport([dailyEntry("2025-01-15", 1)]), source: "Home" },
+    ]);
+    const budget = evaluateBudget(merged, { sources: { "Work + Home": { daily: 5 } } }, now);
+
+    expect(merged.daily[0].source).toBe("Work + Home + Home");
+    expect(isOverBudget(merged.daily[0], budget)).toBe(true);
+  });
+});
+
+describe("renderBudgetTable", () => {
+  it("shows limits, projections & days over budget", () => {
+    const output = stripVTControlCharacters(
+      renderBudgetTable(evaluateBudget(mergeDailyReports(reports), config, now))
+    );
+
+    expect(output).toContain("Budget");
+    expect(output).toContain("daily (2025-01-15)");
+    expect(output).toContain("-$2.00");
+    expect(output).toContain("110.0%");
+    expect(output).toContain("Projected 2025-01 (All sources): $117.80 of $100.00");
+    expect(output).toContain("2025-01-10  All sources: $30.00 > $20.00");
+    expect(output).toContain("Budget exceeded");
+  });
+
+  it("is appended to table, markdown & JSON output", () => {
+    const merged = mergeDailyReports(reports);
+    merged.budget = evaluateBudget(merged, config, now);
+
+    const table = stripVTControlCharacters(renderReport(merged, "table"));
+    expect(table).toContain("Days over budget:");
+    const md = renderReport(merged, "markdown");
+    expect(md).toContain("### Budget");
+    expect(md).toContain("| ⚠️ 2025-01-15 | Claude Code |");
+    expect(md).toContain(
+      "| ⚠️ All sources | daily (2025-01-15) | $22.00 | $20.00 | -$2.00 | 110.0% | OVER |"
+    );
+    expect(JSON.parse(renderReport(merged, "json")).budget.exceeded).toBe(true);
+    expect(renderReport(merged, "html")).toContain('<tr class="over">');
+  });
+});
+
+describe("loadBudgetConfig / mergeBudgetLimits", () => {
+  const testDir = path.join(os.tmpdir(), "budget-test-" + Date.now());
+
+  beforeEach(async () => {
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("loads a valid budget file", async () => {
+    const file = path.join(testDir, "budget.json");
+    await writeFile(file, JSON.stringify(config));
+    expect(await loadBudgetConfig(file)).toEqual(config);
+  });
+
+  it("rejects invalid JSON, unknown keys & non-positive limits", async () => {
+    const file = path.join(testDir, "budget.json");
+
+    await writeFile(file, "{ nope");
+    await expect(loadBudgetConfig(file)).rejects.toThrow("not valid JSON");
+
+    await writeFile(file, JSON.stringify({ yearly: 1000 }));
+    await expect(loadBudgetConfig(file)).rejects.toThrow("Invalid budget file");
+
+    await writeFile(file, JSON.stringify({ sources: { OpenCode: { daily: -5 } } }));
+    await expect(loadBudgetConfig(file)).rejects.toThrow("sources.OpenCode.daily");
+
+    await expect(loadBudgetConfig(path.join(testDir, "missing.json"))).rejects.toThrow(
+      "Cannot read budget file"
+    );
+  });
+
+  it("applies CLI overrides over file limits", () => {
+    expect(mergeBudgetLimits(undefined, {})).toBeUndefined();
+    expect(mergeBudgetLimits(undefined, { daily: 5 })).toEqual({ daily: 5 });
+    expect(mergeBudgetLimits(config, { monthly: 200, weekly: undefined })).toEqual({
+      ...config,
+      monthly: 200,
+    });
+  });
+});
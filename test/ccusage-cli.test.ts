@@ -0,0 +1,70 @@
+// test/ccusage-cli.test.ts
+// tests for resolving & running the installed ccusage
+
+import { describe, expect, it } from "vitest";
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  execCcusage,
+  formatCcusageCommand,
+  getCcusageVersionError,
+  resolveCcusage,
+  type CcusageBinary,
+} from "../src/ccusage-cli.js";
+
+const bundledVersion = JSON.parse(
+  readFileSync(path.join("node_modules", "ccusage", "package.json"), "utf-8")
+).version;
+
+function binary(version: string): CcusageBinary {
+  return { command: "ccusage", args: [], version, origin: "path" };
+}
+
+describe("resolveCcusage", () => {
+  it("prefers the bundled ccusage dependency (run w/ node, no npx)", async () => {
+    const resolved = await resolveCcusage();
+    expect(resolved).toMatchObject({
+      command: process.execPath,
+      version: bundledVersion,
+      origin: "package",
+    });
+    expect(resolved?.args[0]).toMatch(/ccusage/);
+  });
+});
+
+describe("getCcusageVersionError", () => {
+  it("accepts supported major versions", () => {
+    expect(getCcusageVersionError(binary("15.0.0"))).toBeNull();
+    expect(getCcusageVersionError(binary("17.2.0"))).toBeNull();
+  });
+
+  it("explains incompatible versions", () => {
+    const error = getCcusageVersionError(binary("14.3.1"));
+    expect(error).toContain("ccusage 14.3.1 (on PATH) is not supported");
+    expect(error).toContain("npm install ccusage@17");
+    expect(getCcusageVersionError(binary("18.0.0"))).toContain("expected 15.x to 17.x");
+  });
+});
+
+describe("formatCcusageCommand", () => {
+  it("shows CLAUDE_CONFIG_DIR only when set", () => {
+    expect(formatCcusageCommand(["daily", "--json"])).toBe("ccusage daily --json");
+    expect(formatCcusageCommand(["weekly"], `/tmp/it's "here"`)).toBe(
+      `CLAUDE_CONFIG_DIR="/tmp/it's \\"here\\"" ccusage weekly`
+    );
+  });
+});
+
+describe("execCcusage", () => {
+  it("runs ccusage w/ an argument array", async () => {
+    const result = await execCcusage(["--version"], { timeoutMs: 30000 });
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toContain(bundledVersion);
+  });
+
+  it("stops ccusage after the timeout", async () => {
+    await expect(execCcusage(["daily", "--json"], { timeoutMs: 1 })).rejects.toThrow(
+      "ccusage timed out after 0.001s"
+    );
+  });
+});
@@ -6,11 +6,15 @@ import { mkdir, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
 import os from "node:os";
 import {
+  formatSourceLabel,
+  getModelTotals,
   loadCcusageJson,
   mergeDailyReports,
   mergeDailyReportsAggregated,
+  parseCcusageOutput,
   renderMergedTable,
   renderMergedTableCompact,
+  resolveCcusageInputs,
   runCcusageJson,
 } from "../src/ccusage-merge.js";
 import type { CcusageDailyOutput } from "../src/types.js";
@@ -227,6 +231,49 @@ describe("ccusage-merge", () => {
       expect(sonnetBreakdown).toBeDefined();
       expect(sonnetBreakdown!.inputTokens).toBe(1500); // 1000 + 500
     });
+
+    it("should keep per-source usage & cost shares", () => {
+      const merged = mergeDailyReportsAggregated([
+        { data: claudeData, source: "Claude Code" },
+        { data: opencodeData, source: "OpenCode" },
+      ]);
+
+      const dec25 = merged.daily.find((e) => e.date === "2024-12-25");
+      expect(dec25!.sourceUsage!.map((u) => [u.source, u.totalTokens])).toEqual([
+        ["Claude Code", 1650],
+        ["OpenCode", 825],
+      ]);
+      expect(dec25!.sourceUsage![0].costShare).toBeCloseTo(2 / 3);
+
+      const dec23 = merged.daily.find((e) => e.date === "2024-12-23");
+      expect(dec23!.sourceUsage).toEqual([
+        { source: "OpenCode", totalTokens: 1320, totalCost: 0.04, costShare: 1 },
+      ]);
+
+      expect(merged.sourceTotals!.map((u) => u.source)).toEqual(["Claude Code", "OpenCode"]);
+      expect(merged.sourceTotals![0].totalCost).toBeCloseTo(0.15);
+      expect(merged.sourceTotals![1].costShare).toBeCloseTo(0.065 / 0.215);
+    });
+
+    it("should render per-source columns & shares", () => {
+      const merged = mergeDailyReportsAggregated([
+        { data: claudeData, source: "Claude Code" },
+        { data: opencodeData, source: "OpenCode" },
+      ]);
+
+      const table = renderMergedTable(merged);
+      expect(table).toContain("Claude Tokens");
+      expect(table).toContain("OC Cost");
+      expect(table).toContain("Share");
+      expect(table).toContain("Claude 66.7%, OC 33.3%");
+      expect(table).toContain("Claude 69.8%, OC 30.2%");
+      expect(table).not.toContain("Source");
+
+      const compact = renderMergedTableCompact(merged);
+      expect(compact).toContain("Claude Cost");
+      expect(compact).not.toContain("Claude Tokens");
+      expect(compact).toContain("OC 100.0%");
+    });
   });
 
   describe("renderMergedTable", () => {
@@ -276,6 +323,64 @@ describe("ccusage-merge", () => {
     });
   });
 
+  describe("getModelTotals", () => {
+    it("sums models across sources & dates w/ cost share", () => {
+      const merged = mergeDailyReports([
+        { data: claudeData, source: "Claude Code" },
+        { data: opencodeData, source: "OpenCode" },
+      ]);
+
+      const models = getModelTotals(merged.daily);
+
+      expect(models.map((m) => m.modelName)).toEqual([
+        "claude-sonnet-4-20250514",
+        "claude-opus-4-20250514",
+      ]);
+      expect(models[0].inputTokens).toBe(2300);
+      expect(models[0].totalTokens).toBe(3795);
+      expect(models[0].cost).toBeCloseTo(0.115);
+      expect(models[0].costShare).toBeCloseTo(0.115 / 0.215);
+      expect(models[0].costShare + models[1].costShare).toBeCloseTo(1);
+    });
+
+    it("returns no models when entries have no breakdowns", () => {
+      expect(getModelTotals([{ ...claudeData.daily[0], modelBreakdowns: [] }])).toEqual([]);
+    });
+  });
+
+  describe("renderMergedTable w/ breakdown", () => {
+    const merged = mergeDailyReports([
+      { data: claudeData, source: "Claude Code" },
+      { data: opencodeData, source: "OpenCode" },
+    ]);
+
+    it("adds a sub-row per model & a model totals section", () => {
+      const table = renderMergedTable(merged, false, true);
+
+      // one sub-row per entry (each fixture entry has one model)
+      expect((table.match(/└─ /g) || []).length).toBe(4);
+      expect(table).toContain("└─ sonnet-4");
+      expect(table).toContain("└─ opus-4");
+      expect(table).toContain("Models");
+      expect(table).toContain("Share");
+      expect(table).toContain("53.5%");
+      expect(table).toContain("46.5%");
+    });
+
+    it("renders breakdown in compact mode", () => {
+      const table = renderMergedTable(merged, true, true);
+      expect(table).toContain("└─ sonnet-4");
+      expect(table).toContain("53.5%");
+      expect(table).not.toContain("Cache Create");
+    });
+
+    it("omits breakdown by default", () => {
+      const table = renderMergedTable(merged);
+      expect(table).not.toContain("└─ ");
+      expect(table).not.toContain("Share");
+    });
+  });
+
   describe("renderMergedTableCompact", () => {
     it("should render a compact table", () => {
       const merged = mergeDailyReports([
@@ -376,6 +481,232 @@ describe("loadCcusageJson", () => {
   });
 });
 
+describe("formatSourceLabel", () => {
+  it("keeps full labels unless compact", () => {
+    expect(formatSourceLabel("alexander.kowalski", false)).toBe("alexander.kowalski");
+  });
+
+  it("shortens built-in & arbitrary labels", () => {
+    expect(formatSourceLabel("Claude Code", true)).toBe("Claude");
+    expect(formatSourceLabel("Claude Code + OpenCode", true)).toBe("Claude+OC");
+    expect(formatSourceLabel("alice", true)).toBe("alice");
+    expect(formatSourceLabel("alexander.kowalski", true)).toBe("alexanderK");
+    expect(formatSourceLabel("alexander.mueller", true)).toBe("alexanderM");
+    expect(formatSourceLabel("BuildServerLinux", true)).toBe("BuildSL");
+    expect(formatSourceLabel("supercalifragilistic", true)).toBe("superca...");
+  });
+});
+
+describe("resolveCcusageInputs", () => {
+  const testDir = path.join(os.tmpdir(), "ccusage-inputs-test-" + Date.now());
+
+  beforeEach(async () => {
+    await mkdir(path.join(testDir, "team", "nested"), { recursive: true });
+    for (const name of ["alice.json", "bob.json", "notes.txt", path.join("nested", "carol.json")]) {
+      await writeFile(path.join(testDir, "team", name), "{}");
+    }
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("parses labeled & unlabeled paths", async () => {
+    const inputs = await resolveCcusageInputs([
+      "Alice Smith=/data/alice.json",
+      "/data/bob-laptop.json",
+    ]);
+    expect(inputs).toEqual([
+      { label: "Alice Smith", path: "/data/alice.json" },
+      { label: "bob-laptop", path: "/data/bob-laptop.json" },
+    ]);
+  });
+
+  it("expands globs to one source per file", async () => {
+    const shallow = await resolveCcusageInputs([path.join(testDir, "team", "*.json")]);
+    expect(shallow.map((input) => input.label)).toEqual(["alice", "bob"]);
+
+    const deep = await resolveCcusageInputs([path.join(testDir, "team", "**", "*.json")]);
+    expect(deep.map((input) => input.label)).toEqual(["carol"]);
+  });
+
+  it("labels matches w/ the same file name by the segments that differ", async () => {
+    await mkdir(path.join(testDir, "team", "bob"), { recursive: true });
+    await writeFile(path.join(testDir, "team", "nested", "usage.json"), "{}");
+    await writeFile(path.join(testDir, "team", "bob", "usage.json"), "{}");
+
+    const inputs = await resolveCcusageInputs([path.join(testDir, "team", "*", "usage.json")]);
+    expect(inputs.map((input) => input.label)).toEqual(["bob", "nested"]);
+  });
+
+  it("prefixes glob matches w/ the glob's label", async () => {
+    const many = await resolveCcusageInputs([`team=${testDir}/team/*.json`]);
+    expect(many.map((input) => input.label)).toEqual(["team/alice", "team/bob"]);
+
+    const one = await resolveCcusageInputs([`Carol=${testDir}/team/nested/*.json`]);
+    expect(one).toEqual([
+      { label: "Carol", path: path.join(testDir, "team", "nested", "carol.json") },
+    ]);
+  });
+
+  it("rejects empty globs & duplicate labels", async () => {
+    await expect(resolveCcusageInputs([path.join(testDir, "*.csv")])).rejects.toThrow(
+      "No files match"
+    );
+    await expect(
+      resolveCcusageInputs([path.join(testDir, "team", "*.json"), "/other/alice.json"])
+    ).rejects.toThrow('Duplicate --input label "alice"');
+  });
+});
+
+describe("parseCcusageOutput", () => {
+  const tokens = {
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheCreationTokens: 10,
+    cacheReadTokens: 5,
+    totalTokens: 165,
+    totalCost: 0.5,
+    modelsUsed: ["claude-sonnet-4-20250514"],
+    modelBreakdowns: [],
+  };
+  const totals = {
+    inputTokens: 100,
+    outputTokens: 50,
+    cacheCreationTokens: 10,
+    cacheReadTokens: 5,
+    totalTokens: 165,
+    totalCost: 0.5,
+  };
+
+  it("keeps daily output as-is", () => {
+    const result = parseCcusageOutput({ daily: [{ date: "2024-12-25", ...tokens }], totals });
+    expect(result?.view).toBeUndefined();
+    expect(result?.daily[0].date).toBe("2024-12-25");
+  });
+
+  it("normalizes weekly & monthly periods to date keys", () => {
+    const weekly = parseCcusageOutput({ weekly: [{ week: "2024-12-22", ...tokens }], totals });
+    expect(weekly?.view).toBe("weekly");
+    expect(weekly?.daily[0].date).toBe("2024-12-22");
+
+    const monthly = parseCcusageOutput({ monthly: [{ month: "2024-12", ...tokens }], totals });
+    expect(monthly?.view).toBe("monthly");
+    expect(monthly?.daily[0].date).toBe("2024-12");
+    expect(monthly?.totals).toEqual(totals);
+  });
+
+  it("normalizes sessions & keeps last activity", () => {
+    const result = parseCcusageOutput({
+      sessions: [
+        {
+          sessionId: "ses_abc",
+          ...tokens,
+          lastActivity: "2024-12-25",
+          projectPath: "opencode",
+        },
+      ],
+      totals,
+    });
+    expect(result?.view).toBe("session");
+    expect(result?.daily[0]).toMatchObject({
+      date: "ses_abc",
+      lastActivity: "2024-12-25",
+      projectPath: "opencode",
+    });
+  });
+
+  it("converts billing blocks, drops gaps & computes totals", () => {
+    const block = {
+      id: "2024-12-25T10:00:00.000Z",
+      startTime: "2024-12-25T10:00:00.000Z",
+      endTime: "2024-12-25T15:00:00.000Z",
+      actualEndTime: "2024-12-25T11:30:00.000Z",
+      isActive: false,
+      tokenCounts: {
+        inputTokens: 100,
+        outputTokens: 50,
+        cacheCreationInputTokens: 10,
+        cacheReadInputTokens: 5,
+      },
+      totalTokens: 165,
+      costUSD: 0.5,
+      models: ["claude-sonnet-4-20250514"],
+    };
+    const gap = { ...block, id: "gap", isGap: true, costUSD: 0, models: [] };
+
+    const result = parseCcusageOutput({ blocks: [block, gap, block] });
+    expect(result?.view).toBe("blocks");
+    expect(result?.daily).toHaveLength(2);
+    expect(result?.daily[0]).toMatchObject({
+      date: "2024-12-25T10:00:00.000Z",
+      cacheCreationTokens: 10,
+      endTime: "2024-12-25T11:30:00.000Z",
+      isActive: false,
+    });
+    expect(result?.totals.totalCost).toBe(1);
+    expect(result?.totals.totalTokens).toBe(330);
+  });
+
+  it("returns null for unknown or invalid shapes", () => {
+    expect(parseCcusageOutput(null)).toBeNull();
+    expect(parseCcusageOutput({ foo: [] })).toBeNull();
+    expect(parseCcusageOutput({ monthly: [{ month: 1 }], totals })).toBeNull();
+  });
+
+  it("renders view-specific columns for merged sessions & blocks", () => {
+    const sessions = parseCcusageOutput({
+      sessions: [{ sessionId: "ses_abc", ...tokens, lastActivity: "2024-12-25" }],
+      totals,
+    })!;
+    const sessionMerged = mergeDailyReports([{ data: sessions, source: "OpenCode" }]);
+    expect(sessionMerged.view).toBe("session");
+    const sessionTable = renderMergedTable(sessionMerged);
+    expect(sessionTable).toContain("Combined Session Usage Report");
+    expect(sessionTable).toContain("Last Activity");
+    expect(sessionTable).toContain("ses_abc");
+
+    const blocks = parseCcusageOutput({
+      blocks: [
+        {
+          id: "b1",
+          startTime: "2024-12-25T10:00:00.000Z",
+          endTime: "2024-12-25T15:00:00.000Z",
+          isActive: true,
+          tokenCounts: {
+            inputTokens: 1,
+            outputTokens: 1,
+            cacheCreationInputTokens: 0,
+            cacheReadInputTokens: 0,
+          },
+          totalTokens: 2,
+          costUSD: 0.01,
+          models: [],
+        },
+      ],
+    })!;
+    const blocksTable = renderMergedTable(mergeDailyReports([{ data: blocks, source: "OpenCode" }]));
+    expect(blocksTable).toContain("Block Start");
+    expect(blocksTable).toContain("ACTIVE");
+  });
+
+  it("sorts merged sessions by last activity", () => {
+    const first = parseCcusageOutput({
+      sessions: [{ sessionId: "zzz", ...tokens, lastActivity: "2024-12-01" }],
+      totals,
+    })!;
+    const second = parseCcusageOutput({
+      sessions: [{ sessionId: "aaa", ...tokens, lastActivity: "2024-12-20" }],
+      totals,
+    })!;
+    const merged = mergeDailyReports([
+      { data: first, source: "Claude Code" },
+      { data: second, source: "OpenCode" },
+    ]);
+    expect(merged.daily.map((entry) => entry.date)).toEqual(["aaa", "zzz"]);
+  });
+});
+
 describe("runCcusageJson", () => {
   // These tests verify behavior without mocking since ccusage may or may not be installed.
   // We test the function's response to various conditions.
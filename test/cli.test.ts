@@ -3,7 +3,7 @@
 
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
 import { exec } from "node:child_process";
-import { mkdir, rm } from "node:fs/promises";
+import { mkdir, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
 import os from "node:os";
 import { promisify } from "node:util";
@@ -94,12 +94,33 @@ describe("CLI", () => {
       expect(result.stderr).not.toContain("Invalid --since value");
     }, 20000);
 
+    it("prints a JSON result with --json", async () => {
+      await mkdir(path.join(testDir, "data", "storage", "session"), { recursive: true });
+      const result = await runCli(
+        `export --out "${testDir}" --opencode-dir "${path.join(testDir, "data")}" --json --dry-run`,
+        { timeout: 15000 }
+      );
+
+      expect(result.exitCode).toBe(0);
+      const parsed = JSON.parse(result.stdout);
+      expect(parsed.sessionsDiscovered).toBe(0);
+      expect(parsed.dryRun).toBe(true);
+      expect(parsed.sessions).toEqual([]);
+    }, 20000);
+
     it("reports error for invalid --since value", async () => {
       const result = await runCli(`export --out "${testDir}" --since invalid-date`);
 
       expect(result.exitCode).toBe(1);
       expect(result.stderr).toContain("Invalid --since value");
     });
+
+    it("rejects a non-numeric --debounce", async () => {
+      const result = await runCli(`export --out "${testDir}" --watch --debounce abc`);
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain("--debounce must be a positive number");
+    });
   });
 
   describe("report command", () => {
@@ -119,6 +140,148 @@ describe("CLI", () => {
       expect(result.exitCode).toBe(0);
       expect(result.stdout).toContain("--opencode-only");
     });
+
+    it("rejects live-usage options w/ --input", async () => {
+      for (const option of ["--engine native", "--since 7"]) {
+        const result = await runCli(`report --input missing.json ${option}`);
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain(`--input conflicts with ${option.split(" ")[0]}`);
+      }
+    }, 20000);
+  });
+
+  describe("convert command", () => {
+    it("displays convert help", async () => {
+      const result = await runCli("convert --help");
+
+      expect(result.exitCode).toBe(0);
+      expect(result.stdout).toContain("--out");
+      expect(result.stdout).toContain("--group-by");
+    });
+
+    it("converts a saved export file", async () => {
+      const testDir = path.join(os.tmpdir(), "cli-convert-test-" + Date.now());
+      const fixturePath = path.join(process.cwd(), "test", "fixtures", "sample-export.json");
+
+      try {
+        const result = await runCli(`convert "${fixturePath}" --out "${testDir}"`);
+
+        expect(result.exitCode).toBe(0);
+        expect(result.stdout).toContain("Converted 1 session");
+      } finally {
+        await rm(testDir, { recursive: true, force: true });
+      }
+    }, 20000);
+  });
+
+  describe("doctor command", () => {
+    it("prints checks as JSON", async () => {
+      const testDir = path.join(os.tmpdir(), "cli-doctor-test-" + Date.now());
+      const result = await runCli(
+        `doctor --json --opencode-dir "${testDir}" --out "${testDir}"`
+      );
+
+      // missing storage fails the run, but every check is still reported
+      expect(result.exitCode).toBe(1);
+      const report = JSON.parse(result.stdout);
+      expect(report.checks).toHaveLength(6);
+      expect(report.checks[1]).toMatchObject({ id: "storage-dir", status: "fail" });
+    }, 20000);
+
+    it("reads directories from the selected settings profile", async () => {
+      const testDir = path.join(os.tmpdir(), "cli-doctor-profile-test-" + Date.now());
+      const configPath = path.join(testDir, "config.json");
+      const profile = { opencodeDir: path.join(testDir, "data"), out: path.join(testDir, "out") };
+      await mkdir(testDir, { recursive: true });
+      await writeFile(configPath, JSON.stringify({ profiles: { work: profile } }));
+      try {
+        const result = await runCli(`doctor --json --config "${configPath}" --profile work`);
+
+        const checks = JSON.parse(result.stdout).checks;
+        const byId = (id: string) => checks.find((check: { id: string }) => check.id === id);
+        expect(byId("storage-dir").data.dir).toBe(path.join(testDir, "data", "storage"));
+        expect(byId("export-dir").data.dir).toBe(path.join(testDir, "out"));
+      } finally {
+        await rm(testDir, { recursive: true, force: true });
+      }
+    }, 20000);
+  });
+
+  describe("sessions command", () => {
+    it("prints sessions as JSON", async () => {
+      const testDir = path.join(os.tmpdir(), "cli-sessions-test-" + Date.now());
+      await mkdir(path.join(testDir, "storage", "session"), { recursive: true });
+      try {
+        const result = await runCli(`sessions --json --opencode-dir "${testDir}"`);
+
+        expect(result.exitCode).toBe(0);
+        expect(JSON.parse(result.stdout)).toEqual([]);
+      } finally {
+        await rm(testDir, { recursive: true, force: true });
+      }
+    }, 20000);
+
+    it("rejects unknown sort keys", async () => {
+      const result = await runCli("sessions --sort size");
+
+      expect(result.exitCode).toBe(1);
+      expect(result.stderr).toContain("--sort");
+    }, 20000);
+  });
+
+  describe("show command", () => {
+    it("reports unknown sessions", async () => {
+      const testDir = path.join(os.tmpdir(), "cli-show-test-" + Date.now());
+      await mkdir(path.join(testDir, "storage", "session"), { recursive: true });
+      try {
+        const result = await runCli(`show ses_missing --opencode-dir "${testDir}"`);
+
+        expect(result.exitCode).toBe(1);
+        expect(result.stderr).toContain('No session matches "ses_missing"');
+      } finally {
+        await rm(testDir, { recursive: true, force: true });
+      }
+    }, 20000);
+  });
+
+  describe("verify command", () => {
+    it("reports no drift for an empty export directory", async () => {
+      const testDir = path.join(os.tmpdir(), "cli-verify-test-" + Date.now());
+      const result = await runCli(
+        `verify --json --opencode-dir "${testDir}" --out "${testDir}"`
+      );
+
+      expect(result.exitCode).toBe(0);
+      expect(JSON.parse(result.stdout)).toMatchObject({ files: 0, issues: [] });
+    }, 20000);
+  });
+
+  describe("config command", () => {
+    it("prints effective settings w/ their sources", async () => {
+      const testDir = path.join(os.tmpdir(), "cli-config-test-" + Date.now());
+      const configPath = path.join(testDir, "config.json");
+      await mkdir(testDir, { recursive: true });
+      await writeFile(configPath, JSON.stringify({ profiles: { work: { out: "/exports" } } }));
+      try {
+        const result = await runCli(`config --json --config "${configPath}" --profile work`);
+
+        expect(result.exitCode).toBe(0);
+        const resolved = JSON.parse(result.stdout);
+        expect(resolved.values.out).toBe("/exports");
+        expect(resolved.origins.out).toEqual({ source: "profile", from: "work" });
+
+        const flagged = JSON.parse(
+          (await runCli(`config --json --config "${configPath}" --profile work --out /cli`))
+            .stdout
+        );
+        expect(flagged.values.out).toBe("/cli");
+        expect(flagged.origins.out).toEqual({ source: "cli", from: "--out" });
+        expect(flagged.origins.groupBy).toEqual({ source: "default" });
+      } finally {
+        await rm(testDir, { recursive: true, force: true });
+      }
+    }, 20000);
   });
 
   describe("advanced command", () => {
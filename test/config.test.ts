@@ -0,0 +1,173 @@
+// test/config.test.ts
+// tests for config profiles & effective settings resolution
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { Command } from "commander";
+import {
+  getCliSettings,
+  getExportSettingsOrExit,
+  loadConfigFile,
+  renderResolvedSettings,
+  resolveSettings,
+  type LoadedConfig,
+} from "../src/config.js";
+import { OPENCODE_CONFIG_DIR } from "../src/constants.js";
+
+const config: LoadedConfig = {
+  path: "/home/me/.config/opencode-to-ccusage/config.json",
+  config: {
+    profiles: {
+      default: { groupBy: "project" },
+      work: {
+        out: "/exports/work",
+        opencodeDir: ["work=/data/work"],
+        since: "30",
+        concurrency: 4,
+      },
+    },
+  },
+};
+
+describe("resolveSettings", () => {
+  it("falls back to built-in defaults w/o config", () => {
+    const resolved = resolveSettings({ config: null, env: {} });
+    expect(resolved.profile).toBeNull();
+    expect(resolved.values).toMatchObject({
+      out: OPENCODE_CONFIG_DIR,
+      groupBy: "flat",
+      includeReasoningInOutput: true,
+      costMode: "auto",
+    });
+    expect(resolved.values.opencodeDir).toBeUndefined();
+    expect(resolved.origins.out).toEqual({ source: "default" });
+  });
+
+  it("applies the default profile when none is selected", () => {
+    const resolved = resolveSettings({ config, env: {} });
+    expect(resolved).toMatchObject({ profile: "default", profileFrom: "default" });
+    expect(resolved.values.groupBy).toBe("project");
+    expect(resolved.origins.groupBy).toEqual({ source: "profile", from: "default" });
+  });
+
+  it("orders CLI > env > profile > defaults", () => {
+    const resolved = resolveSettings({
+      config,
+      profile: "work",
+      cli: { out: "/cli/out" },
+      env: {
+        OPENCODE_TO_CCUSAGE_OUT: "/env/out",
+        OPENCODE_TO_CCUSAGE_CONCURRENCY: "8",
+        OPENCODE_TO_CCUSAGE_INCLUDE_REASONING: "false",
+      },
+    });
+
+    expect(resolved.values).toMatchObject({
+      out: "/cli/out",
+      concurrency: 8,
+      includeReasoningInOutput: false,
+      since: "30",
+      opencodeDir: ["work=/data/work"],
+      groupBy: "flat",
+    });
+    expect(resolved.origins).toMatchObject({
+      out: { source: "cli", from: "--out" },
+      concurrency: { source: "env", from: "OPENCODE_TO_CCUSAGE_CONCURRENCY" },
+      since: { source: "profile", from: "work" },
+      groupBy: { source: "default" },
+    });
+  });
+
+  it("selects profile from env & treats OPENCODE_DATA_DIR as --opencode-dir", () => {
+    const resolved = resolveSettings({
+      config,
+      env: { OPENCODE_TO_CCUSAGE_PROFILE: "work", OPENCODE_DATA_DIR: "/env/opencode" },
+    });
+    expect(resolved).toMatchObject({ profile: "work", profileFrom: "OPENCODE_TO_CCUSAGE_PROFILE" });
+    expect(resolved.values.opencodeDir).toEqual(["/env/opencode"]);
+    expect(resolved.origins.opencodeDir).toEqual({ source: "env", from: "OPENCODE_DATA_DIR" });
+  });
+
+  it("rejects unknown profiles & invalid env or profile values", () => {
+    expect(() => resolveSettings({ config, profile: "home", env: {} })).toThrow(
+      'Profile "home" (from --profile) is not defined in ' +
+        "/home/me/.config/opencode-to-ccusage/config.json; available: default, work"
+    );
+    expect(() => resolveSettings({ config: null, profile: "work", env: {} })).toThrow(
+      "(not found)"
+    );
+    expect(() =>
+      resolveSettings({ config: null, env: { OPENCODE_TO_CCUSAGE_GROUP_BY: "tree" } })
+    ).toThrow("Invalid OPENCODE_TO_CCUSAGE_GROUP_BY");
+
+    const badSince: LoadedConfig = { ...config, config: { profiles: { x: { since: "soon" } } } };
+    expect(() => resolveSettings({ config: badSince, profile: "x", env: {} })).toThrow(
+      'Invalid since in profile "x"'
+    );
+  });
+
+  it("renders each value w/ its source", () => {
+    const output = renderResolvedSettings(
+      resolveSettings({ config, profile: "work", env: { OPENCODE_TO_CCUSAGE_SOURCE: "storage" } })
+    );
+    expect(output).toContain(`Config file: ${config.path}`);
+    expect(output).toContain("Profile: work (from --profile)");
+    expect(output).toContain('profile "work"');
+    expect(output).toContain("env OPENCODE_TO_CCUSAGE_SOURCE");
+  });
+});
+
+describe("getCliSettings", () => {
+  it("only counts options given on the command line", () => {
+    const command = new Command("export")
+      .exitOverride()
+      .option("--out <dir>", "Output directory", "/default/out")
+      .option("--since <value>", "Cutoff")
+      .option("-c, --concurrency <number>", "Concurrency", (val) => parseInt(val, 10))
+      .action(() => {});
+    command.parse(["--since", "7", "-c", "3"], { from: "user" });
+
+    expect(getCliSettings(command)).toEqual({ since: "7", concurrency: 3 });
+  });
+});
+
+describe("getExportSettingsOrExit", () => {
+  it("maps resolved settings to export options", () => {
+    const { values } = resolveSettings({ env: {}, config, profile: "work" });
+    const options = getExportSettingsOrExit(values);
+
+    expect(options).toMatchObject({
+      concurrency: 4,
+      groupBy: "flat",
+      source: "auto",
+      costMode: "auto",
+      granularity: "message",
+      includeReasoningInOutput: true,
+      openCodeRoots: [{ label: "work", dir: "/data/work" }],
+    });
+    expect(options.since).toBeInstanceOf(Date);
+  });
+});
+
+describe("loadConfigFile profiles", () => {
+  const testDir = path.join(os.tmpdir(), "config-test-" + Date.now());
+  const configPath = path.join(testDir, "config.json");
+
+  beforeEach(async () => {
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("accepts a single opencodeDir & rejects unknown profile keys", async () => {
+    await writeFile(configPath, JSON.stringify({ profiles: { a: { opencodeDir: "/data" } } }));
+    expect((await loadConfigFile(configPath))?.config.profiles?.a.opencodeDir).toEqual(["/data"]);
+
+    await writeFile(configPath, JSON.stringify({ profiles: { a: { outDir: "/x" } } }));
+    await expect(loadConfigFile(configPath)).rejects.toThrow("profiles.a");
+  });
+});
@@ -0,0 +1,160 @@
+// test/convert-runner.test.ts
+// tests for offline conversion of saved export JSON files
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { readConvertInputs, runConvert } from "../src/convert-runner.js";
+import { createExportOptions } from "../src/exporter.js";
+import { loadManifest } from "../src/manifest.js";
+import fixture from "./fixtures/sample-export.json";
+
+const fixtureJson = JSON.stringify(fixture);
+
+describe("readConvertInputs", () => {
+  const testDir = path.join(os.tmpdir(), "convert-inputs-test-" + Date.now());
+
+  beforeEach(async () => {
+    await mkdir(path.join(testDir, "dumps"), { recursive: true });
+    await writeFile(path.join(testDir, "single.json"), fixtureJson);
+    await writeFile(path.join(testDir, "dumps", "b.json"), fixtureJson);
+    await writeFile(path.join(testDir, "dumps", "a.json"), fixtureJson);
+    await writeFile(path.join(testDir, "dumps", "notes.txt"), "ignored");
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("reads files & JSON files from directories in order", async () => {
+    const inputs = await readConvertInputs([
+      path.join(testDir, "single.json"),
+      path.join(testDir, "dumps"),
+    ]);
+
+    expect(inputs.map((i) => path.basename(i.label))).toEqual([
+      "single.json",
+      "a.json",
+      "b.json",
+    ]);
+    expect(inputs[0].content).toBe(fixtureJson);
+  });
+
+  it("throws when an input does not exist", async () => {
+    await expect(
+      readConvertInputs([path.join(testDir, "missing.json")])
+    ).rejects.toThrow("Input does not exist");
+  });
+});
+
+describe("runConvert", () => {
+  const outDir = path.join(os.tmpdir(), "convert-out-test-" + Date.now());
+  let warnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(() => {
+    warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    warnSpy.mockRestore();
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it("writes JSONL using the group-by layout", async () => {
+    const stats = await runConvert(
+      [{ label: "dump.json", content: fixtureJson }],
+      createExportOptions(outDir, { groupBy: "project" })
+    );
+
+    expect(stats.sessionsExported).toBe(1);
+    expect(stats.messagesConverted).toBe(5);
+
+    const content = await readFile(
+      path.join(outDir, "projects", "opencode-global", "ses_test123abc.jsonl"),
+      "utf-8"
+    );
+    expect(content.trim().split("\n")).toHaveLength(5);
+  });
+
+  it("strips the 'Exporting session:' prefix", async () => {
+    const stats = await runConvert(
+      [{ label: "dump.json", content: `Exporting session: ses_test123abc\n${fixtureJson}` }],
+      createExportOptions(outDir)
+    );
+
+    expect(stats.sessionsExported).toBe(1);
+    expect(stats.errors).toEqual([]);
+  });
+
+  it("records errors for invalid inputs & continues", async () => {
+    const stats = await runConvert(
+      [
+        { label: "bad.json", content: JSON.stringify({ info: { id: "x" } }) },
+        { label: "dump.json", content: fixtureJson },
+      ],
+      createExportOptions(outDir)
+    );
+
+    expect(stats.sessionsExported).toBe(1);
+    expect(stats.errors).toHaveLength(1);
+    expect(stats.errors[0]).toContain("Invalid export JSON for bad.json");
+  });
+
+  it("records an error for malformed session info w/ --skip-validation", async () => {
+    const stats = await runConvert(
+      [{ label: "bad.json", content: JSON.stringify({ messages: [] }) }],
+      createExportOptions(outDir, { skipValidation: true })
+    );
+
+    expect(stats.sessionsDiscovered).toBe(0);
+    expect(stats.errors).toEqual(["Invalid export JSON for bad.json: missing session info"]);
+  });
+
+  it("records converted sessions in the manifest w/ their export file as root", async () => {
+    await runConvert(
+      [{ label: "dump.json", content: fixtureJson }],
+      createExportOptions(outDir)
+    );
+
+    const entry = (await loadManifest(outDir)).sessions.ses_test123abc;
+    expect(entry.file).toBe(path.join("projects", "opencode", "ses_test123abc.jsonl"));
+    expect(entry.lines).toBe(5);
+    expect(entry.root).toBe(path.resolve("dump.json"));
+  });
+
+  it("records write failures per input & continues", async () => {
+    // a directory in place of the first session's output file
+    await mkdir(path.join(outDir, "projects", "opencode", "ses_test123abc.jsonl"), {
+      recursive: true,
+    });
+    const other = { ...fixture, info: { ...fixture.info, id: "ses_other" } };
+
+    const stats = await runConvert(
+      [
+        { label: "a.json", content: fixtureJson },
+        { label: "b.json", content: JSON.stringify(other) },
+      ],
+      createExportOptions(outDir, { overwrite: true })
+    );
+
+    expect(stats.sessionsExported).toBe(1);
+    expect(stats.errors).toHaveLength(1);
+    expect(stats.errors[0]).toContain("Failed to write");
+    expect(Object.keys((await loadManifest(outDir)).sessions)).toEqual(["ses_other"]);
+  });
+
+  it("skips duplicate sessions across inputs", async () => {
+    const stats = await runConvert(
+      [
+        { label: "a.json", content: fixtureJson },
+        { label: "b.json", content: fixtureJson },
+      ],
+      createExportOptions(outDir)
+    );
+
+    expect(stats.sessionsDiscovered).toBe(2);
+    expect(stats.sessionsExported).toBe(1);
+    expect(stats.sessionsSkipped).toBe(1);
+  });
+});
@@ -193,6 +193,30 @@ describe("convertSession", () => {
     expect(result.skippedCount).toBe(1);
   });
 
+  it("lists skipped messages & why", () => {
+    const duplicateExport: OpenCodeExport = {
+      info: sampleExport.info,
+      messages: [...sampleExport.messages, sampleExport.messages[1]],
+    };
+
+    const filtered = convertSession(duplicateExport, {
+      includeReasoningInOutput: true,
+      model: "gpt-*",
+    });
+    expect(new Set(filtered.skippedMessages.map((m) => m.reason))).toEqual(
+      new Set(["user-role", "filtered"])
+    );
+
+    const unfiltered = convertSession(duplicateExport, { includeReasoningInOutput: true });
+    expect(unfiltered.skippedMessages.map((m) => [m.messageId, m.reason])).toEqual([
+      ["msg_user001", "user-role"],
+      ["msg_user002", "user-role"],
+      ["msg_assistant003_no_tokens", "no-tokens"],
+      ["msg_assistant001", "duplicate"],
+    ]);
+    expect(unfiltered.skippedCount).toBe(2);
+  });
+
   it("uses 'unknown' when modelID is missing", () => {
     const exportWithMissingModel: OpenCodeExport = {
       info: sampleExport.info,
@@ -267,6 +291,288 @@ describe("convertSession", () => {
   });
 });
 
+describe("convertSession cost mode", () => {
+  // one message w/ recorded cost, one w/o
+  const exportWithCosts: OpenCodeExport = {
+    info: sampleExport.info,
+    messages: [
+      {
+        info: {
+          id: "msg_priced",
+          sessionID: "ses_test123abc",
+          role: "assistant",
+          time: { created: 1766803109115 },
+          modelID: "openrouter/some-model",
+          cost: 0.0425,
+          tokens: { input: 100, output: 200, reasoning: 0, cache: { read: 0, write: 0 } },
+        },
+        parts: [],
+      },
+      {
+        info: {
+          id: "msg_unpriced",
+          sessionID: "ses_test123abc",
+          role: "assistant",
+          time: { created: 1766803109200 },
+          modelID: "claude-opus-4-5",
+          cost: 0,
+          tokens: { input: 50, output: 60, reasoning: 0, cache: { read: 0, write: 0 } },
+        },
+        parts: [],
+      },
+    ],
+  };
+
+  function costsById(costMode?: "auto" | "opencode" | "calculate") {
+    const result = convertSession(exportWithCosts, {
+      includeReasoningInOutput: true,
+      costMode,
+    });
+    return Object.fromEntries(result.lines.map((l) => [l.message.id, l.costUSD]));
+  }
+
+  it("auto writes recorded cost & omits zero cost", () => {
+    const costs = costsById("auto");
+    expect(costs.msg_priced).toBe(0.0425);
+    expect(costs.msg_unpriced).toBeUndefined();
+  });
+
+  it("defaults to auto when costMode is omitted", () => {
+    expect(costsById()).toEqual(costsById("auto"));
+  });
+
+  it("opencode always writes recorded cost", () => {
+    const costs = costsById("opencode");
+    expect(costs.msg_priced).toBe(0.0425);
+    expect(costs.msg_unpriced).toBe(0);
+  });
+
+  it("calculate never writes costUSD", () => {
+    const result = convertSession(exportWithCosts, {
+      includeReasoningInOutput: true,
+      costMode: "calculate",
+    });
+    for (const line of result.lines) {
+      expect(line).not.toHaveProperty("costUSD");
+    }
+  });
+
+  it("counts converted messages without recorded cost", () => {
+    const result = convertSession(exportWithCosts, {
+      includeReasoningInOutput: true,
+    });
+    expect(result.missingCostCount).toBe(1);
+
+    const sampleResult = convertSession(sampleExport, {
+      includeReasoningInOutput: true,
+    });
+    expect(sampleResult.missingCostCount).toBe(sampleResult.lines.length);
+  });
+});
+
+describe("convertSession step granularity", () => {
+  const stepTokens = (input: number, output: number) => ({
+    input,
+    output,
+    reasoning: 0,
+    cache: { read: 0, write: 0 },
+  });
+
+  // assistant message w/ two model calls recorded as step-finish parts
+  const exportWithSteps: OpenCodeExport = {
+    info: sampleExport.info,
+    messages: [
+      {
+        info: {
+          id: "msg_steps",
+          sessionID: "ses_test123abc",
+          role: "assistant",
+          time: { created: 1766803100000, completed: 1766803900000 },
+          modelID: "claude-opus-4-5",
+          cost: 0.3,
+          tokens: stepTokens(30, 70),
+        },
+        parts: [
+          { id: "prt_1", type: "step-start" },
+          { id: "prt_2", type: "text", text: "a", time: { start: 1766803200000, end: 1766803300000 } },
+          { id: "prt_3", type: "step-finish", cost: 0.1, tokens: stepTokens(10, 20) },
+          { id: "prt_4", type: "step-start" },
+          {
+            id: "prt_5",
+            type: "tool",
+            state: { status: "completed", time: { start: 1766803400000, end: 1766803500000 } },
+          },
+          { id: "prt_6", type: "step-finish", cost: 0.2, tokens: stepTokens(20, 50) },
+          { id: "prt_7", type: "step-finish", cost: 0, tokens: stepTokens(0, 0) },
+        ],
+      },
+      {
+        info: {
+          id: "msg_no_steps",
+          sessionID: "ses_test123abc",
+          role: "assistant",
+          time: { created: 1766804000000 },
+          modelID: "claude-opus-4-5",
+          tokens: stepTokens(5, 5),
+        },
+        parts: [{ id: "prt_8", type: "text", text: "b" }],
+      },
+    ],
+  };
+
+  it("emits one line per message by default", () => {
+    const result = convertSession(exportWithSteps, { includeReasoningInOutput: true });
+    expect(result.lines.map((l) => l.requestId)).toEqual([
+      "opencode:ses_test123abc:msg_steps",
+      "opencode:ses_test123abc:msg_no_steps",
+    ]);
+  });
+
+  it("emits one line per step-finish part w/ stable request ids", () => {
+    const result = convertSession(exportWithSteps, {
+      includeReasoningInOutput: true,
+      granularity: "step",
+    });
+    expect(result.lines.map((l) => l.requestId)).toEqual([
+      "opencode:ses_test123abc:msg_steps:0",
+      "opencode:ses_test123abc:msg_steps:1",
+      "opencode:ses_test123abc:msg_no_steps",
+    ]);
+  });
+
+  it("uses per-step tokens & cost", () => {
+    const result = convertSession(exportWithSteps, {
+      includeReasoningInOutput: true,
+      granularity: "step",
+    });
+    expect(result.lines[0].message.usage).toEqual({ input_tokens: 10, output_tokens: 20 });
+    expect(result.lines[0].costUSD).toBe(0.1);
+    expect(result.lines[1].message.usage).toEqual({ input_tokens: 20, output_tokens: 50 });
+    expect(result.lines[1].costUSD).toBe(0.2);
+  });
+
+  it("times each step by the latest part before it", () => {
+    const result = convertSession(exportWithSteps, {
+      includeReasoningInOutput: true,
+      granularity: "step",
+    });
+    expect(result.lines[0].timestamp).toBe(new Date(1766803300000).toISOString());
+    expect(result.lines[1].timestamp).toBe(new Date(1766803500000).toISOString());
+  });
+
+  it("falls back to message time when steps have no part timing", () => {
+    const exportNoTiming: OpenCodeExport = {
+      info: sampleExport.info,
+      messages: [
+        {
+          ...exportWithSteps.messages[0],
+          parts: [{ id: "prt_1", type: "step-finish", cost: 0.1, tokens: stepTokens(1, 2) }],
+        },
+      ],
+    };
+    const result = convertSession(exportNoTiming, {
+      includeReasoningInOutput: true,
+      granularity: "step",
+    });
+    expect(result.lines[0].timestamp).toBe(new Date(1766803900000).toISOString());
+  });
+
+  it("skips messages whose steps all have zero tokens", () => {
+    const exportZeroSteps: OpenCodeExport = {
+      info: sampleExport.info,
+      messages: [
+        {
+          ...exportWithSteps.messages[0],
+          parts: [{ id: "prt_1", type: "step-finish", cost: 0, tokens: stepTokens(0, 0) }],
+        },
+      ],
+    };
+    const result = convertSession(exportZeroSteps, {
+      includeReasoningInOutput: true,
+      granularity: "step",
+    });
+    expect(result.lines).toEqual([]);
+    expect(result.skippedCount).toBe(1);
+    expect(result.skippedMessages).toEqual([
+      { messageId: "msg_steps", role: "assistant", reason: "no-tokens" },
+    ]);
+  });
+
+  it("keeps messages w/ zero totals whose steps carry tokens", () => {
+    const exportZeroTotals: OpenCodeExport = {
+      info: sampleExport.info,
+      messages: [
+        {
+          ...exportWithSteps.messages[0],
+          info: { ...exportWithSteps.messages[0].info, tokens: stepTokens(0, 0) },
+        },
+      ],
+    };
+    const result = convertSession(exportZeroTotals, {
+      includeReasoningInOutput: true,
+      granularity: "step",
+    });
+    expect(result.lines.map((l) => l.requestId)).toEqual([
+      "opencode:ses_test123abc:msg_steps:0",
+      "opencode:ses_test123abc:msg_steps:1",
+    ]);
+    expect(result.skippedCount).toBe(0);
+    expect(convertSession(exportZeroTotals, { includeReasoningInOutput: true }).lines).toEqual(
+      []
+    );
+  });
+
+  it("counts messages (not steps) w/o recorded cost", () => {
+    const exportUnpricedSteps: OpenCodeExport = {
+      info: sampleExport.info,
+      messages: [
+        {
+          ...exportWithSteps.messages[0],
+          parts: [
+            { id: "prt_1", type: "step-finish", tokens: stepTokens(1, 2) },
+            { id: "prt_2", type: "step-finish", tokens: stepTokens(3, 4) },
+          ],
+        },
+      ],
+    };
+    const result = convertSession(exportUnpricedSteps, {
+      includeReasoningInOutput: true,
+      granularity: "step",
+    });
+    expect(result.lines).toHaveLength(2);
+    expect(result.missingCostCount).toBe(1);
+  });
+});
+
+describe("convertSession message filters", () => {
+  it("keeps only messages whose model matches --model glob", () => {
+    const result = convertSession(sampleExport, {
+      includeReasoningInOutput: true,
+      model: "claude-sonnet-*",
+    });
+    expect(result.lines.map((l) => l.message.id)).toEqual(["msg_assistant002"]);
+    expect(result.filteredCounts.model).toBeGreaterThanOrEqual(4);
+    expect(result.filteredCounts.provider).toBeUndefined();
+  });
+
+  it("counts messages removed by --provider", () => {
+    const all = convertSession(sampleExport, { includeReasoningInOutput: true });
+    const result = convertSession(sampleExport, {
+      includeReasoningInOutput: true,
+      provider: "openai",
+    });
+    expect(result.lines).toEqual([]);
+    expect(result.filteredCounts).toEqual({
+      provider: all.lines.length + all.skippedCount,
+    });
+  });
+
+  it("reports no filter counts without filters", () => {
+    const result = convertSession(sampleExport, { includeReasoningInOutput: true });
+    expect(result.filteredCounts).toEqual({});
+  });
+});
+
 describe("toJsonl", () => {
   it("returns empty string for empty array", () => {
     expect(toJsonl([])).toBe("");
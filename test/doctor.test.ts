@@ -0,0 +1,151 @@
+// test/doctor.test.ts
+// tests for doctor checks
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+  checkExportDir,
+  checkSessions,
+  checkStorageDir,
+  renderDoctorReport,
+  runDoctor,
+} from "../src/doctor.js";
+import { resolveStorageDir } from "../src/session.js";
+
+function sessionInfo(id: string): string {
+  return JSON.stringify({
+    id,
+    projectID: "proj_1",
+    directory: "/work/app",
+    title: "Refactor",
+    time: { created: 1704067200000, updated: 1704067300000 },
+  });
+}
+
+function usageLine(requestId: string): string {
+  return JSON.stringify({
+    timestamp: "2025-01-15T12:00:00.000Z",
+    sessionId: "ses_1",
+    requestId,
+    message: {
+      id: `msg_${requestId}`,
+      model: "claude-sonnet-4-20250514",
+      usage: { input_tokens: 10, output_tokens: 5 },
+    },
+  });
+}
+
+describe("resolveStorageDir", () => {
+  const saved = { data: process.env.OPENCODE_DATA_DIR, xdg: process.env.XDG_DATA_HOME };
+
+  afterEach(() => {
+    for (const [key, value] of [
+      ["OPENCODE_DATA_DIR", saved.data],
+      ["XDG_DATA_HOME", saved.xdg],
+    ] as const) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+  });
+
+  it("reports why a directory was picked (override > env > XDG)", () => {
+    process.env.OPENCODE_DATA_DIR = "/env/opencode";
+    process.env.XDG_DATA_HOME = "/xdg";
+    expect(resolveStorageDir("/custom")).toEqual({
+      dir: path.join("/custom", "storage"),
+      source: "override",
+    });
+    expect(resolveStorageDir().source).toBe("env");
+
+    delete process.env.OPENCODE_DATA_DIR;
+    if (os.platform() !== "win32") {
+      expect(resolveStorageDir()).toEqual({
+        dir: path.join("/xdg", "opencode", "storage"),
+        source: "xdg",
+      });
+    }
+  });
+});
+
+describe("doctor checks", () => {
+  const testDir = path.join(os.tmpdir(), "doctor-test-" + Date.now());
+  const openCodeDir = path.join(testDir, "opencode");
+  const outDir = path.join(testDir, "export");
+  const sessionDir = path.join(openCodeDir, "storage", "session", "proj_1");
+
+  beforeEach(async () => {
+    await mkdir(sessionDir, { recursive: true });
+    await mkdir(path.join(outDir, "projects", "opencode"), { recursive: true });
+    await writeFile(path.join(sessionDir, "ses_1.json"), sessionInfo("ses_1"));
+    await writeFile(path.join(sessionDir, "ses_2.json"), sessionInfo("ses_2"));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("passes w/ an existing storage dir & parseable sessions", async () => {
+    expect(await checkStorageDir(openCodeDir)).toMatchObject({
+      status: "pass",
+      detail: expect.stringContaining("(from --opencode-dir or config profile)"),
+    });
+    expect(await checkSessions(openCodeDir)).toMatchObject({
+      status: "pass",
+      detail: "2 sessions",
+    });
+  });
+
+  it("fails w/ a fix when storage is missing", async () => {
+    const check = await checkStorageDir(path.join(testDir, "missing"));
+    expect(check.status).toBe("fail");
+    expect(check.fix).toContain("--opencode-dir");
+    expect((await checkSessions(path.join(testDir, "missing"))).status).toBe("fail");
+  });
+
+  it("lists unparseable session files", async () => {
+    await writeFile(path.join(sessionDir, "ses_bad.json"), "{ truncated");
+    const check = await checkSessions(openCodeDir);
+    expect(check.status).toBe("warn");
+    expect(check.detail).toContain("2 sessions, 1 unparseable session file");
+    expect(check.detail).toContain("ses_bad.json");
+    expect(check.data?.unparseable).toEqual([path.join(sessionDir, "ses_bad.json")]);
+  });
+
+  it("checks exported JSONL files ccusage reads", async () => {
+    expect((await checkExportDir(outDir)).status).toBe("warn");
+
+    const file = path.join(outDir, "projects", "opencode", "ses_1.jsonl");
+    await writeFile(file, "not json\n");
+    expect(await checkExportDir(outDir)).toMatchObject({
+      status: "fail",
+      detail: expect.stringContaining("can't read any usage"),
+    });
+
+    await writeFile(file, [usageLine("req_1"), usageLine("req_2")].join("\n"));
+    expect(await checkExportDir(outDir)).toMatchObject({
+      status: "pass",
+      data: { files: 1, usageLines: 2 },
+    });
+  });
+
+  it("runs all checks & summarizes them", async () => {
+    const report = await runDoctor({ openCodeDir, outDir });
+    expect(report.checks.map((check) => check.id)).toEqual([
+      "opencode-cli",
+      "storage-dir",
+      "sessions",
+      "claude-dirs",
+      "ccusage",
+      "export-dir",
+    ]);
+    const total = report.summary.pass + report.summary.warn + report.summary.fail;
+    expect(total).toBe(6);
+
+    const output = renderDoctorReport(report);
+    expect(output).toContain("[PASS] OpenCode sessions: 2 sessions");
+    expect(output).toContain("[WARN] Exported usage:");
+    expect(output).toContain("       Fix: Run opencode-to-ccusage export");
+  });
+});
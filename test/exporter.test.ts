@@ -2,8 +2,12 @@
 // tests for export orchestration functions
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { createExportOptions, printSummary } from "../src/exporter.js";
-import type { ExportStats } from "../src/types.js";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createExportOptions, printSummary, runExport } from "../src/exporter.js";
+import { loadManifest } from "../src/manifest.js";
+import type { ExportEvent, ExportStats } from "../src/types.js";
 
 describe("createExportOptions", () => {
   it("creates options with required outDir", () => {
@@ -16,6 +20,9 @@ describe("createExportOptions", () => {
     expect(options.overwrite).toBe(true);
     expect(options.includeReasoningInOutput).toBe(true);
     expect(options.groupBy).toBe("flat");
+    expect(options.source).toBe("auto");
+    expect(options.costMode).toBe("auto");
+    expect(options.granularity).toBe("message");
     expect(options.dryRun).toBe(false);
     expect(options.verbose).toBe(false);
   });
@@ -86,6 +93,300 @@ describe("createExportOptions", () => {
   });
 });
 
+describe("runExport", () => {
+  const testDir = path.join(os.tmpdir(), "run-export-test-" + Date.now());
+  const dataDir = path.join(testDir, "data");
+  const outDir = path.join(testDir, "out");
+  let warnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const storageDir = path.join(dataDir, "storage");
+    await mkdir(path.join(storageDir, "session", "project1"), { recursive: true });
+    await mkdir(path.join(storageDir, "message", "ses_a"), { recursive: true });
+
+    await writeFile(
+      path.join(storageDir, "session", "project1", "ses_a.json"),
+      JSON.stringify({
+        id: "ses_a",
+        version: "1.0.0",
+        title: "A",
+        time: { created: 1703980800000, updated: 1703980900000 },
+        projectID: "project1",
+        directory: "/nonexistent/project",
+      })
+    );
+    await writeFile(
+      path.join(storageDir, "message", "ses_a", "msg_a1.json"),
+      JSON.stringify({
+        id: "msg_a1",
+        sessionID: "ses_a",
+        role: "assistant",
+        time: { created: 1703980850000 },
+        modelID: "claude-sonnet-4",
+        tokens: { input: 5, output: 7, reasoning: 0, cache: { read: 0, write: 0 } },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    warnSpy.mockRestore();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("exports sessions from storage without the OpenCode CLI", async () => {
+    const stats = await runExport(
+      createExportOptions(outDir, { openCodeDir: dataDir, source: "storage" })
+    );
+
+    expect(stats.sessionsExported).toBe(1);
+    expect(stats.messagesMissingCost).toBe(1);
+    expect(stats.errors).toEqual([]);
+
+    const content = await readFile(
+      path.join(outDir, "projects", "opencode", "ses_a.jsonl"),
+      "utf-8"
+    );
+    const line = JSON.parse(content.trim());
+    expect(line.requestId).toBe("opencode:ses_a:msg_a1");
+    expect(line.message.usage.output_tokens).toBe(7);
+  });
+
+  it("records a per-session result for each session", async () => {
+    const options = createExportOptions(outDir, { openCodeDir: dataDir, source: "storage" });
+    const stats = await runExport(options);
+
+    expect(stats.dryRun).toBe(false);
+    expect(stats.sessions).toEqual([
+      {
+        sessionId: "ses_a",
+        directory: "/nonexistent/project",
+        status: "exported",
+        outputFile: path.join(outDir, "projects", "opencode", "ses_a.jsonl"),
+        linesWritten: 1,
+        messagesSkipped: 0,
+        messagesMissingCost: 1,
+        retries: 0,
+      },
+    ]);
+
+    const second = await runExport({ ...options, overwrite: false });
+    expect(second.sessions[0]).toMatchObject({ status: "skipped", skipReason: "file-exists" });
+  });
+
+  it("honors step granularity", async () => {
+    await mkdir(path.join(dataDir, "storage", "part", "msg_a1"), { recursive: true });
+    await writeFile(
+      path.join(dataDir, "storage", "part", "msg_a1", "prt_1.json"),
+      JSON.stringify({
+        id: "prt_1",
+        type: "step-finish",
+        tokens: { input: 5, output: 7, reasoning: 0, cache: { read: 0, write: 0 } },
+      })
+    );
+
+    await runExport(
+      createExportOptions(outDir, {
+        openCodeDir: dataDir,
+        source: "storage",
+        granularity: "step",
+      })
+    );
+
+    const content = await readFile(
+      path.join(outDir, "projects", "opencode", "ses_a.jsonl"),
+      "utf-8"
+    );
+    expect(JSON.parse(content.trim()).requestId).toBe("opencode:ses_a:msg_a1:0");
+  });
+
+  it("counts sessions & messages removed by filters", async () => {
+    const byProject = await runExport(
+      createExportOptions(outDir, { openCodeDir: dataDir, source: "storage", project: "other" })
+    );
+    expect(byProject.sessionsDiscovered).toBe(0);
+    expect(byProject.sessionsFiltered).toEqual({ project: 1 });
+
+    const byModel = await runExport(
+      createExportOptions(outDir, { openCodeDir: dataDir, source: "storage", model: "gpt-*" })
+    );
+    expect(byModel.sessionsExported).toBe(0);
+    expect(byModel.messagesFiltered).toEqual({ model: 1 });
+  });
+
+  it("writes sessions from labeled roots into per-root subdirectories", async () => {
+    const stats = await runExport(
+      createExportOptions(outDir, {
+        openCodeRoots: [{ dir: dataDir, label: "work" }],
+        groupBy: "project",
+        source: "storage",
+      })
+    );
+
+    expect(stats.sessionsExported).toBe(1);
+    expect(
+      await readFile(
+        path.join(outDir, "projects", "opencode-work-project1", "ses_a.jsonl"),
+        "utf-8"
+      )
+    ).toContain("opencode:ses_a:msg_a1");
+  });
+
+  it("skips unchanged sessions in incremental mode using the manifest", async () => {
+    const options = createExportOptions(outDir, {
+      openCodeDir: dataDir,
+      source: "storage",
+      incremental: true,
+    });
+
+    expect((await runExport(options)).sessionsExported).toBe(1);
+
+    const second = await runExport(options);
+    expect(second.sessionsExported).toBe(0);
+    expect(second.sessionsSkipped).toBe(1);
+  });
+
+  it("re-exports in incremental mode when output was modified or options changed", async () => {
+    const options = createExportOptions(outDir, {
+      openCodeDir: dataDir,
+      source: "storage",
+      incremental: true,
+    });
+    await runExport(options);
+
+    // touched/modified output file
+    await writeFile(path.join(outDir, "projects", "opencode", "ses_a.jsonl"), "{}\n");
+    expect((await runExport(options)).sessionsExported).toBe(1);
+
+    // changed options
+    const changed = await runExport({ ...options, includeReasoningInOutput: false });
+    expect(changed.sessionsExported).toBe(1);
+  });
+
+  it("reports sessions that vanished from storage", async () => {
+    const options = createExportOptions(outDir, { openCodeDir: dataDir, source: "storage" });
+    await runExport(options);
+
+    await rm(path.join(dataDir, "storage", "session", "project1", "ses_a.json"));
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    try {
+      const stats = await runExport(options);
+      expect(stats.vanishedSessions).toEqual(["ses_a"]);
+
+      // reported once, then marked in the manifest
+      expect((await runExport(options)).vanishedSessions).toEqual([]);
+      expect((await loadManifest(outDir)).sessions.ses_a.vanished).toBe(true);
+    } finally {
+      logSpy.mockRestore();
+    }
+  });
+
+  it("records an error when storage read fails in storage mode", async () => {
+    await writeFile(
+      path.join(dataDir, "storage", "message", "ses_a", "msg_a1.json"),
+      "not valid json"
+    );
+
+    const stats = await runExport(
+      createExportOptions(outDir, { openCodeDir: dataDir, source: "storage" })
+    );
+
+    expect(stats.sessionsExported).toBe(0);
+    expect(stats.errors).toHaveLength(1);
+    expect(stats.sessions[0]).toMatchObject({ status: "failed", errorClass: "storage" });
+    expect(warnSpy.mock.calls[0][0]).toContain("Failed to read session ses_a from storage");
+  });
+
+  it("reports session & progress events to onEvent", async () => {
+    const events: ExportEvent[] = [];
+    const options = createExportOptions(outDir, {
+      openCodeDir: dataDir,
+      source: "storage",
+      onEvent: (event) => events.push(event),
+    });
+    await runExport(options);
+
+    expect(events.map((event) => event.type)).toEqual([
+      "session-started",
+      "session-exported",
+      "progress",
+    ]);
+    expect(events[1]).toMatchObject({
+      session: { id: "ses_a" },
+      record: { status: "exported", linesWritten: 1 },
+    });
+    expect(events[2]).toEqual({ type: "progress", processed: 1, total: 1 });
+
+    events.length = 0;
+    await runExport({ ...options, overwrite: false });
+    expect(events[1]).toMatchObject({
+      type: "session-skipped",
+      record: { skipReason: "file-exists" },
+    });
+  });
+
+  it("reports failures as events instead of warnings when onEvent is set", async () => {
+    await writeFile(
+      path.join(dataDir, "storage", "message", "ses_a", "msg_a1.json"),
+      "not valid json"
+    );
+    const events: ExportEvent[] = [];
+
+    await runExport(
+      createExportOptions(outDir, {
+        openCodeDir: dataDir,
+        source: "storage",
+        onEvent: (event) => events.push(event),
+      })
+    );
+
+    const failed = events.find((event) => event.type === "session-failed");
+    expect(failed).toMatchObject({
+      session: { id: "ses_a" },
+      record: { status: "failed", errorClass: "storage" },
+    });
+    expect(failed?.type === "session-failed" && failed.error).toContain(
+      "Failed to read session ses_a from storage"
+    );
+    expect(warnSpy).not.toHaveBeenCalled();
+  });
+
+  it("routes no-sessions & dry-run output to events instead of the console", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const events: ExportEvent[] = [];
+    const options = createExportOptions(outDir, {
+      openCodeDir: dataDir,
+      source: "storage",
+      dryRun: true,
+      prune: true,
+      onEvent: (event) => events.push(event),
+    });
+
+    await runExport(options);
+    await runExport({ ...options, project: "no-such-project" });
+
+    expect(events.map((event) => event.type)).toContain("session-exported");
+    expect(events.at(-1)).toEqual({ type: "no-sessions" });
+    expect(logSpy).not.toHaveBeenCalled();
+    logSpy.mockRestore();
+  });
+
+  it("keeps exporting when an event listener throws", async () => {
+    const stats = await runExport(
+      createExportOptions(outDir, {
+        openCodeDir: dataDir,
+        source: "storage",
+        onEvent: () => {
+          throw new Error("listener bug");
+        },
+      })
+    );
+
+    expect(stats.sessionsExported).toBe(1);
+    expect(warnSpy.mock.calls[0][0]).toContain("listener failed on \"session-started\"");
+  });
+});
+
 describe("printSummary", () => {
   let consoleSpy: ReturnType<typeof vi.spyOn>;
 
@@ -104,6 +405,11 @@ describe("printSummary", () => {
       sessionsSkipped: 2,
       messagesConverted: 100,
       messagesSkipped: 5,
+      messagesMissingCost: 0,
+      vanishedSessions: [],
+      filesPruned: 0,
+      sessionsFiltered: {},
+      messagesFiltered: {},
       errors: [],
     };
 
@@ -125,6 +431,11 @@ describe("printSummary", () => {
       sessionsSkipped: 0,
       messagesConverted: 50,
       messagesSkipped: 0,
+      messagesMissingCost: 0,
+      vanishedSessions: [],
+      filesPruned: 0,
+      sessionsFiltered: {},
+      messagesFiltered: {},
       errors: ["Error 1", "Error 2"],
     };
 
@@ -142,6 +453,11 @@ describe("printSummary", () => {
       sessionsSkipped: 0,
       messagesConverted: 50,
       messagesSkipped: 0,
+      messagesMissingCost: 0,
+      vanishedSessions: [],
+      filesPruned: 0,
+      sessionsFiltered: {},
+      messagesFiltered: {},
       errors: [],
     };
 
@@ -152,6 +468,68 @@ describe("printSummary", () => {
     expect(calls.some((call) => String(call).includes("Errors:"))).toBe(false);
   });
 
+  it("prints vanished sessions when present", () => {
+    const stats: ExportStats = {
+      sessionsDiscovered: 0,
+      sessionsExported: 0,
+      sessionsSkipped: 0,
+      messagesConverted: 0,
+      messagesSkipped: 0,
+      messagesMissingCost: 0,
+      vanishedSessions: ["ses_gone"],
+      filesPruned: 0,
+      sessionsFiltered: {},
+      messagesFiltered: {},
+      errors: [],
+    };
+
+    printSummary(stats);
+
+    expect(consoleSpy).toHaveBeenCalledWith("Sessions vanished:   1");
+    expect(consoleSpy).toHaveBeenCalledWith("  - ses_gone");
+  });
+
+  it("prints messages without recorded cost when present", () => {
+    const stats: ExportStats = {
+      sessionsDiscovered: 1,
+      sessionsExported: 1,
+      sessionsSkipped: 0,
+      messagesConverted: 4,
+      messagesSkipped: 0,
+      messagesMissingCost: 3,
+      vanishedSessions: [],
+      filesPruned: 0,
+      sessionsFiltered: {},
+      messagesFiltered: {},
+      errors: [],
+    };
+
+    printSummary(stats);
+
+    expect(consoleSpy).toHaveBeenCalledWith("Messages w/o cost:   3");
+  });
+
+  it("prints per-filter counts when filters removed sessions or messages", () => {
+    const stats: ExportStats = {
+      sessionsDiscovered: 1,
+      sessionsExported: 1,
+      sessionsSkipped: 0,
+      messagesConverted: 4,
+      messagesSkipped: 0,
+      messagesMissingCost: 0,
+      vanishedSessions: [],
+      filesPruned: 0,
+      sessionsFiltered: { project: 2, title: 1 },
+      messagesFiltered: { model: 5 },
+      errors: [],
+    };
+
+    printSummary(stats);
+
+    expect(consoleSpy).toHaveBeenCalledWith("Sessions filtered:   3 (project: 2, title: 1)");
+    expect(consoleSpy).toHaveBeenCalledWith("Messages filtered:   5 (model: 5)");
+  });
+
   it("handles zero values", () => {
     const stats: ExportStats = {
       sessionsDiscovered: 0,
@@ -159,6 +537,11 @@ describe("printSummary", () => {
       sessionsSkipped: 0,
       messagesConverted: 0,
       messagesSkipped: 0,
+      messagesMissingCost: 0,
+      vanishedSessions: [],
+      filesPruned: 0,
+      sessionsFiltered: {},
+      messagesFiltered: {},
       errors: [],
     };
 
@@ -0,0 +1,117 @@
+// test/filters.test.ts
+// tests for session & message filters
+
+import { describe, it, expect } from "vitest";
+import os from "node:os";
+import {
+  addFilterCounts,
+  createMessageFilter,
+  filterSessions,
+  formatFilterCounts,
+  globToRegExp,
+} from "../src/filters.js";
+import type { OpenCodeMessage, SessionListItem } from "../src/types.js";
+
+function makeSession(overrides: Partial<SessionListItem>): SessionListItem {
+  return {
+    id: "ses_x",
+    title: "Untitled",
+    created: Date.UTC(2025, 0, 15),
+    updated: Date.UTC(2025, 0, 15),
+    projectId: "project1",
+    directory: "/work/app",
+    ...overrides,
+  };
+}
+
+describe("globToRegExp", () => {
+  it("matches * within a path segment & ** across segments", () => {
+    expect(globToRegExp("/work/*").test("/work/app")).toBe(true);
+    expect(globToRegExp("/work/*").test("/work/app/sub")).toBe(false);
+    expect(globToRegExp("/work/**").test("/work/app/sub")).toBe(true);
+    expect(globToRegExp("claude-?-4").test("claude-x-4")).toBe(true);
+  });
+
+  it("escapes regex characters & expands ~", () => {
+    expect(globToRegExp("/a.b/(c)").test("/a.b/(c)")).toBe(true);
+    expect(globToRegExp("/a.b").test("/aXb")).toBe(false);
+    expect(globToRegExp("~/work/*").test(`${os.homedir()}/work/app`)).toBe(true);
+  });
+
+  it("lets * & ? match / when path semantics are off", () => {
+    expect(globToRegExp("*sonnet*", false).test("anthropic/claude-3.5-sonnet")).toBe(true);
+    expect(globToRegExp("a?b", false).test("a/b")).toBe(true);
+    expect(globToRegExp("a?b").test("a/b")).toBe(false);
+  });
+});
+
+describe("filterSessions", () => {
+  const sessions = [
+    makeSession({ id: "ses_old", created: Date.UTC(2024, 11, 31) }),
+    makeSession({ id: "ses_late", created: Date.UTC(2025, 1, 1) }),
+    makeSession({ id: "ses_other", projectId: "project2" }),
+    makeSession({ id: "ses_dir", directory: "/home/me/client-x/api" }),
+    makeSession({ id: "ses_title", title: "Refactor parser" }),
+    makeSession({ id: "ses_keep", title: "Fix login bug" }),
+  ];
+
+  it("applies all discovery filters & counts removals per filter", () => {
+    const result = filterSessions(sessions, {
+      since: new Date(Date.UTC(2025, 0, 1)),
+      until: new Date(Date.UTC(2025, 1, 1)),
+      project: "project1",
+      directory: "/work/**",
+      title: "^fix",
+    });
+
+    expect(result.sessions.map((s) => s.id)).toEqual(["ses_keep"]);
+    expect(result.removed).toEqual({
+      since: 1,
+      until: 1,
+      project: 1,
+      directory: 1,
+      title: 1,
+    });
+  });
+
+  it("keeps everything when no filters are set", () => {
+    const result = filterSessions(sessions, {});
+    expect(result.sessions).toHaveLength(sessions.length);
+    expect(result.removed).toEqual({});
+  });
+
+  it("rejects invalid title regex", () => {
+    expect(() => filterSessions(sessions, { title: "(" })).toThrow("Invalid --title value");
+  });
+});
+
+describe("createMessageFilter", () => {
+  const message = {
+    info: { modelID: "claude-sonnet-4", providerID: "anthropic" },
+    parts: [],
+  } as unknown as OpenCodeMessage;
+
+  it("reports the first filter that rejects a message", () => {
+    expect(createMessageFilter({ model: "claude-*" })(message)).toBeNull();
+    expect(createMessageFilter({ model: "gpt-*" })(message)).toBe("model");
+    expect(createMessageFilter({ provider: "openai" })(message)).toBe("provider");
+  });
+
+  it("matches provider-prefixed model ids w/ a single *", () => {
+    const routed = {
+      info: { modelID: "anthropic/claude-3.5-sonnet", providerID: "openrouter" },
+      parts: [],
+    } as unknown as OpenCodeMessage;
+    expect(createMessageFilter({ model: "*sonnet*" })(routed)).toBeNull();
+    expect(createMessageFilter({ model: "anthropic/*" })(routed)).toBeNull();
+  });
+});
+
+describe("addFilterCounts / formatFilterCounts", () => {
+  it("sums counts & formats them", () => {
+    const totals = { model: 1 };
+    addFilterCounts<"model" | "provider">(totals, { model: 2, provider: 3 });
+    expect(totals).toEqual({ model: 3, provider: 3 });
+    expect(formatFilterCounts(totals)).toBe("model: 3, provider: 3");
+  });
+});
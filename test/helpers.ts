@@ -0,0 +1,47 @@
+// test/helpers.ts
+// shared fixture factories for report tests
+
+import type { CcusageDailyOutput, DailyEntry } from "../src/types.js";
+
+// daily entry w/ one model breakdown carrying the whole cost
+export function dailyEntry(
+  date: string,
+  cost: number,
+  model = "claude-sonnet-4-20250514"
+): DailyEntry {
+  return {
+    date,
+    inputTokens: 1000,
+    outputTokens: 500,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 1500,
+    totalCost: cost,
+    modelsUsed: [model],
+    modelBreakdowns: [
+      {
+        modelName: model,
+        inputTokens: 1000,
+        outputTokens: 500,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        cost,
+      },
+    ],
+  };
+}
+
+// ccusage daily report w/ zeroed totals (merging recalculates them)
+export function dailyReport(daily: DailyEntry[]): CcusageDailyOutput {
+  return {
+    daily,
+    totals: {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      totalTokens: 0,
+      totalCost: 0,
+    },
+  };
+}
@@ -0,0 +1,45 @@
+// test/lib.test.ts
+// tests for the library entry point
+
+import { describe, it, expect, vi } from "vitest";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+describe("library entry", () => {
+  it("imports w/o parsing argv or writing output", async () => {
+    const exitSpy = vi.spyOn(process, "exit").mockImplementation(() => undefined as never);
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const argv = process.argv;
+    process.argv = [argv[0], "opencode-to-ccusage", "--help"];
+
+    try {
+      await import("../src/lib.js");
+      expect(exitSpy).not.toHaveBeenCalled();
+      expect(logSpy).not.toHaveBeenCalled();
+    } finally {
+      process.argv = argv;
+      exitSpy.mockRestore();
+      logSpy.mockRestore();
+    }
+  });
+
+  it("exports the programmatic API", async () => {
+    const lib = await import("../src/lib.js");
+    for (const name of [
+      "listSessions",
+      "convertSession",
+      "createExportOptions",
+      "runExport",
+      "mergeDailyReports",
+    ] as const) {
+      expect(lib[name]).toBeTypeOf("function");
+    }
+  });
+
+  it("is the package's main entry", async () => {
+    const pkg = JSON.parse(await readFile(path.join(process.cwd(), "package.json"), "utf-8"));
+    expect(pkg.main).toBe("src/lib.ts");
+    expect(pkg.exports["."]).toBe("./src/lib.ts");
+    expect(pkg.bin["opencode-to-ccusage"]).toBe("./src/index.ts");
+  });
+});
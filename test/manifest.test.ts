@@ -0,0 +1,158 @@
+// test/manifest.test.ts
+// tests for export manifest used by incremental exports
+
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createExportOptions } from "../src/exporter.js";
+import {
+  createManifest,
+  createManifestEntry,
+  findVanishedSessions,
+  getManifestPath,
+  getScannedRoots,
+  isSessionUnchanged,
+  loadManifest,
+  saveManifest,
+} from "../src/manifest.js";
+import type { SessionListItem } from "../src/types.js";
+
+const session: SessionListItem = {
+  id: "ses_m",
+  title: "Manifest",
+  created: 1000,
+  updated: 2000,
+  projectId: "project1",
+  directory: "/test",
+};
+
+describe("loadManifest / saveManifest", () => {
+  const outDir = path.join(os.tmpdir(), "manifest-test-" + Date.now());
+
+  beforeEach(async () => {
+    await mkdir(outDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it("returns empty manifest when file is missing", async () => {
+    expect(await loadManifest(outDir)).toEqual(createManifest());
+  });
+
+  it("returns empty manifest when file is invalid", async () => {
+    await writeFile(getManifestPath(outDir), "{ not json");
+    expect(await loadManifest(outDir)).toEqual(createManifest());
+  });
+
+  it("round-trips saved manifest", async () => {
+    const options = createExportOptions(outDir);
+    const manifest = createManifest();
+    manifest.sessions.ses_m = createManifestEntry(
+      session,
+      options,
+      path.join(outDir, "projects", "opencode", "ses_m.jsonl"),
+      "line\n",
+      1
+    );
+
+    await saveManifest(outDir, manifest);
+    expect(await loadManifest(outDir)).toEqual(manifest);
+  });
+});
+
+describe("isSessionUnchanged", () => {
+  const outDir = path.join(os.tmpdir(), "manifest-unchanged-test-" + Date.now());
+  const outFile = path.join(outDir, "projects", "opencode", "ses_m.jsonl");
+  const options = createExportOptions(outDir);
+  const entry = createManifestEntry(session, options, outFile, "line\n", 1);
+
+  beforeEach(async () => {
+    await mkdir(path.dirname(outFile), { recursive: true });
+    await writeFile(outFile, "line\n");
+  });
+
+  afterEach(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it("is unchanged when source, options & output match", async () => {
+    expect(await isSessionUnchanged(entry, session, options, outFile)).toBe(true);
+  });
+
+  it("is changed when there is no entry", async () => {
+    expect(await isSessionUnchanged(undefined, session, options, outFile)).toBe(false);
+  });
+
+  it("is changed when session was updated", async () => {
+    const updated = { ...session, updated: 3000 };
+    expect(await isSessionUnchanged(entry, updated, options, outFile)).toBe(false);
+  });
+
+  it("is changed when options differ", async () => {
+    const noReasoning = createExportOptions(outDir, { includeReasoningInOutput: false });
+    expect(await isSessionUnchanged(entry, session, noReasoning, outFile)).toBe(false);
+  });
+
+  it("is changed when output file was modified or removed", async () => {
+    await writeFile(outFile, "tampered\n");
+    expect(await isSessionUnchanged(entry, session, options, outFile)).toBe(false);
+
+    await rm(outFile);
+    expect(await isSessionUnchanged(entry, session, options, outFile)).toBe(false);
+  });
+
+  it("is unchanged for empty sessions w/o output file", async () => {
+    const emptyEntry = createManifestEntry(session, options, outFile, "", 0);
+    await rm(outFile);
+    expect(await isSessionUnchanged(emptyEntry, session, options, outFile)).toBe(true);
+  });
+});
+
+describe("findVanishedSessions", () => {
+  it("lists manifest sessions missing from storage", () => {
+    const manifest = createManifest();
+    const options = createExportOptions("/out");
+    for (const id of ["ses_b", "ses_a", "ses_keep"]) {
+      manifest.sessions[id] = createManifestEntry(
+        { ...session, id },
+        options,
+        `/out/projects/opencode/${id}.jsonl`,
+        "",
+        0
+      );
+    }
+
+    const roots = getScannedRoots(options);
+    expect(findVanishedSessions(manifest, new Set(["ses_keep"]), roots)).toEqual([
+      "ses_a",
+      "ses_b",
+    ]);
+  });
+
+  it("ignores sessions exported from roots that weren't scanned", () => {
+    const manifest = createManifest();
+    const work = createExportOptions("/out", { openCodeDir: "/data/work" });
+    const home = createExportOptions("/out", { openCodeDir: "/data/home" });
+    manifest.sessions.ses_work = createManifestEntry(
+      { ...session, id: "ses_work" },
+      work,
+      "/out/projects/opencode/ses_work.jsonl",
+      "",
+      0
+    );
+    manifest.sessions.ses_home = createManifestEntry(
+      { ...session, id: "ses_home" },
+      home,
+      "/out/projects/opencode/ses_home.jsonl",
+      "",
+      0
+    );
+
+    expect(findVanishedSessions(manifest, new Set(), getScannedRoots(home))).toEqual([
+      "ses_home",
+    ]);
+  });
+});
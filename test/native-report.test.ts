@@ -0,0 +1,192 @@
+// test/native-report.test.ts
+// tests for the native (ccusage-free) report engine
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import {
+  buildNativeReport,
+  getPeriodKey,
+  loadUsageEntries,
+  parseUsageLines,
+  runNativeReport,
+  type UsageEntry,
+} from "../src/native-report.js";
+
+// local-time timestamp (keeps period keys stable across time zones)
+function localTime(year: number, month: number, day: number): string {
+  return new Date(year, month - 1, day, 12).toISOString();
+}
+
+function usageLine(overrides: {
+  timestamp: string;
+  sessionId?: string;
+  requestId?: string;
+  messageId?: string;
+  model?: string;
+  input?: number;
+  output?: number;
+  costUSD?: number;
+}): string {
+  return JSON.stringify({
+    timestamp: overrides.timestamp,
+    sessionId: overrides.sessionId ?? "ses_1",
+    requestId: overrides.requestId ?? "req_1",
+    ...(overrides.costUSD !== undefined && { costUSD: overrides.costUSD }),
+    message: {
+      id: overrides.messageId ?? "msg_1",
+      model: overrides.model ?? "claude-sonnet-4-20250514",
+      usage: {
+        input_tokens: overrides.input ?? 1000,
+        output_tokens: overrides.output ?? 500,
+        cache_creation_input_tokens: 0,
+        cache_read_input_tokens: 0,
+      },
+    },
+  });
+}
+
+function entry(overrides: Partial<UsageEntry>): UsageEntry {
+  return {
+    timestamp: new Date(localTime(2025, 1, 15)),
+    sessionId: "ses_1",
+    model: "claude-sonnet-4-20250514",
+    inputTokens: 1_000_000,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    ...overrides,
+  };
+}
+
+describe("parseUsageLines", () => {
+  it("parses usage lines & ignores other or malformed lines", () => {
+    const content = [
+      usageLine({ timestamp: localTime(2025, 1, 15) }),
+      JSON.stringify({ type: "user", timestamp: localTime(2025, 1, 15), message: {} }),
+      "not json",
+      "",
+    ].join("\n");
+
+    const entries = parseUsageLines(content, "fallback");
+    expect(entries).toHaveLength(1);
+    expect(entries[0]).toMatchObject({
+      sessionId: "ses_1",
+      inputTokens: 1000,
+      outputTokens: 500,
+      dedupeKey: "msg_1:req_1",
+    });
+  });
+});
+
+describe("getPeriodKey", () => {
+  const wednesday = entry({ timestamp: new Date(2025, 0, 15, 12) });
+
+  it("maps timestamps to day, week start, month or session", () => {
+    expect(getPeriodKey(wednesday, "daily")).toBe("2025-01-15");
+    expect(getPeriodKey(wednesday, "weekly")).toBe("2025-01-12");
+    expect(getPeriodKey(wednesday, "monthly")).toBe("2025-01");
+    expect(getPeriodKey(wednesday, "session")).toBe("ses_1");
+  });
+});
+
+describe("buildNativeReport", () => {
+  it("rolls up tokens & costs per period w/ model breakdowns", () => {
+    const { report, unpricedModels } = buildNativeReport(
+      [
+        entry({}),
+        entry({ model: "claude-opus-4-5", inputTokens: 1_000_000 }),
+        entry({ timestamp: new Date(2025, 0, 16, 12), costUSD: 1.25 }),
+      ],
+      "daily"
+    );
+
+    expect(unpricedModels).toEqual([]);
+    expect(report.daily.map((d) => d.date)).toEqual(["2025-01-15", "2025-01-16"]);
+
+    const first = report.daily[0];
+    expect(first.totalCost).toBeCloseTo(3 + 5);
+    expect(first.modelsUsed).toEqual(["claude-sonnet-4-20250514", "claude-opus-4-5"]);
+    expect(first.modelBreakdowns.map((b) => b.modelName)).toEqual([
+      "claude-opus-4-5",
+      "claude-sonnet-4-20250514",
+    ]);
+
+    // recorded cost wins over pricing table
+    expect(report.daily[1].totalCost).toBe(1.25);
+    expect(report.totals.totalCost).toBeCloseTo(9.25);
+    expect(report.totals.totalTokens).toBe(3_000_000);
+  });
+
+  it("prices unknown models at $0 & reports them", () => {
+    const { report, unpricedModels } = buildNativeReport(
+      [entry({ model: "local-llama" })],
+      "monthly"
+    );
+    expect(report.daily[0].date).toBe("2025-01");
+    expect(report.daily[0].totalCost).toBe(0);
+    expect(unpricedModels).toEqual(["local-llama"]);
+  });
+});
+
+describe("loadUsageEntries / runNativeReport", () => {
+  const testDir = path.join(os.tmpdir(), "native-report-test-" + Date.now());
+  const claudeDir = path.join(testDir, "claude");
+  const opencodeDir = path.join(testDir, "opencode");
+
+  beforeEach(async () => {
+    await mkdir(path.join(claudeDir, "projects", "-Users-me-app"), { recursive: true });
+    await mkdir(path.join(opencodeDir, "projects", "opencode"), { recursive: true });
+    await writeFile(
+      path.join(claudeDir, "projects", "-Users-me-app", "ses_c.jsonl"),
+      [
+        usageLine({ timestamp: localTime(2025, 1, 15), sessionId: "ses_c" }),
+        // duplicate request (e.g. resumed session) is counted once
+        usageLine({ timestamp: localTime(2025, 1, 15), sessionId: "ses_c" }),
+      ].join("\n")
+    );
+    await writeFile(
+      path.join(opencodeDir, "projects", "opencode", "ses_o.jsonl"),
+      usageLine({
+        timestamp: localTime(2025, 1, 20),
+        sessionId: "ses_o",
+        requestId: "opencode:ses_o:msg_o",
+        messageId: "msg_o",
+        costUSD: 0.5,
+      })
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("reads projects/**/*.jsonl & dedupes by message & request ID", async () => {
+    const entries = await loadUsageEntries([claudeDir, opencodeDir]);
+    expect(entries.map((e) => e.sessionId)).toEqual(["ses_c", "ses_o"]);
+  });
+
+  it("returns a ccusage-shaped report, or null when there is no usage", async () => {
+    const report = await runNativeReport([claudeDir, opencodeDir], "session");
+    expect(report?.daily.map((d) => d.date)).toEqual(["ses_c", "ses_o"]);
+    expect(report?.view).toBe("session");
+    expect(report?.daily[0].lastActivity).toBe("2025-01-15");
+
+    expect(await runNativeReport([path.join(testDir, "missing")], "daily")).toBeNull();
+  });
+
+  it("warns about models missing from the pricing table", async () => {
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await writeFile(
+      path.join(claudeDir, "projects", "-Users-me-app", "ses_x.jsonl"),
+      usageLine({ timestamp: localTime(2025, 1, 15), requestId: "req_x", model: "mystery" })
+    );
+    try {
+      await runNativeReport([claudeDir], "daily");
+      expect(warnSpy.mock.calls[0][0]).toContain("No bundled pricing for mystery");
+    } finally {
+      warnSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,67 @@
+// test/pricing.test.ts
+// tests for bundled offline model pricing
+
+import { describe, it, expect } from "vitest";
+import { calculateCost, getModelPricing, normalizeModelName } from "../src/pricing.js";
+
+describe("normalizeModelName", () => {
+  it("drops provider prefix, lowercases & replaces dots", () => {
+    expect(normalizeModelName("anthropic/Claude-Sonnet-4.5")).toBe("claude-sonnet-4-5");
+    expect(normalizeModelName("gpt-4.1-mini")).toBe("gpt-4-1-mini");
+  });
+});
+
+describe("getModelPricing", () => {
+  it("matches exact names & dated snapshots", () => {
+    expect(getModelPricing("claude-opus-4-5-20251101")?.input).toBe(5);
+    expect(getModelPricing("claude-opus-4-1-20250805")?.input).toBe(15);
+    expect(getModelPricing("gpt-4o-mini-2024-07-18")?.input).toBe(0.15);
+    expect(getModelPricing("gpt-4o-2024-08-06")?.input).toBe(2.5);
+  });
+
+  it("does not price other variants at a family's rates", () => {
+    expect(getModelPricing("o3")?.input).toBe(2);
+    expect(getModelPricing("o3-2025-04-16")?.input).toBe(2);
+    expect(getModelPricing("o3pro")).toBeUndefined();
+    expect(getModelPricing("o3-pro")).toBeUndefined();
+    expect(getModelPricing("gpt-5-chat-latest")).toBeUndefined();
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(getModelPricing("my-local-llama")).toBeUndefined();
+    expect(getModelPricing("constructor")).toBeUndefined();
+  });
+});
+
+describe("calculateCost", () => {
+  it("prices each token type per million tokens", () => {
+    const cost = calculateCost("claude-sonnet-4-20250514", {
+      inputTokens: 1_000_000,
+      outputTokens: 1_000_000,
+      cacheCreationTokens: 1_000_000,
+      cacheReadTokens: 1_000_000,
+    });
+    expect(cost).toBeCloseTo(3 + 15 + 3.75 + 0.3);
+  });
+
+  it("falls back to input price for cache writes when not listed", () => {
+    const cost = calculateCost("gpt-4o", {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 1_000_000,
+      cacheReadTokens: 0,
+    });
+    expect(cost).toBeCloseTo(2.5);
+  });
+
+  it("returns undefined for unknown models", () => {
+    expect(
+      calculateCost("mystery", {
+        inputTokens: 1,
+        outputTokens: 1,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+      })
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,254 @@
+// test/pruner.test.ts
+// tests for pruning orphaned, duplicate & empty entries from the export directory
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, rm, utimes, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createExportOptions, runExport } from "../src/exporter.js";
+import { createManifest, loadManifest, saveManifest } from "../src/manifest.js";
+import { applyPrune, planPrune } from "../src/pruner.js";
+import type { ManifestEntry, SessionListItem } from "../src/types.js";
+import { fileExists } from "../src/utils.js";
+
+const session: SessionListItem = {
+  id: "ses_keep",
+  title: "Keep",
+  created: 1000,
+  updated: 2000,
+  projectId: "project1",
+  directory: "/work/app",
+};
+
+// manifest entry of a flat export w/o recorded root
+function manifestEntry(file: string): ManifestEntry {
+  return {
+    updated: 1,
+    file,
+    hash: "x",
+    lines: 1,
+    options: {
+      includeReasoningInOutput: true,
+      groupBy: "flat",
+      costMode: "auto",
+      granularity: "message",
+    },
+  };
+}
+
+describe("planPrune / applyPrune", () => {
+  const outDir = path.join(os.tmpdir(), "prune-test-" + Date.now());
+  const projectsDir = path.join(outDir, "projects");
+  const options = { outDir, groupBy: "flat" as const, verbose: false };
+
+  async function writeExported(subdir: string, id: string): Promise<string> {
+    const file = path.join(projectsDir, subdir, `${id}.jsonl`);
+    await mkdir(path.dirname(file), { recursive: true });
+    await writeFile(file, "{}\n");
+    return file;
+  }
+
+  beforeEach(async () => {
+    await mkdir(projectsDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(outDir, { recursive: true, force: true });
+  });
+
+  it("flags orphaned files, stale copies & empty directories", async () => {
+    const kept = await writeExported("opencode", "ses_keep");
+    const stale = await writeExported("opencode-app", "ses_keep");
+    const orphan = await writeExported("opencode", "ses_gone");
+    await mkdir(path.join(projectsDir, "opencode-empty"));
+    const manifest = createManifest();
+    manifest.sessions.ses_gone = manifestEntry(path.join("projects", "opencode", "ses_gone.jsonl"));
+
+    const candidates = await planPrune([session], manifest, options);
+
+    expect(candidates.map((c) => [c.kind, c.path])).toEqual([
+      ["empty-dir", path.join(projectsDir, "opencode-app")],
+      ["stale", stale],
+      ["empty-dir", path.join(projectsDir, "opencode-empty")],
+      ["orphaned", orphan],
+    ]);
+    expect(candidates.some((c) => c.path === kept)).toBe(false);
+  });
+
+  it("keeps files of missing sessions the manifest doesn't list", async () => {
+    const converted = await writeExported("opencode", "ses_converted");
+    await writeExported("opencode", "ses_keep");
+
+    const candidates = await planPrune([session], createManifest(), options);
+
+    expect(candidates.some((c) => c.path === converted)).toBe(false);
+  });
+
+  it("flags duplicates when no copy is at an expected location", async () => {
+    const older = await writeExported("opencode-a", "ses_keep");
+    const newer = await writeExported("opencode-b", "ses_keep");
+    await utimes(older, new Date(1000), new Date(1000));
+
+    const candidates = await planPrune([session], createManifest(), options);
+
+    expect(candidates.map((c) => [c.kind, c.path])).toEqual([
+      ["empty-dir", path.join(projectsDir, "opencode-a")],
+      ["duplicate", older],
+    ]);
+    expect(await fileExists(newer)).toBe(true);
+  });
+
+  it("keeps the copy recorded in the manifest over the --group-by location", async () => {
+    const flat = await writeExported("opencode", "ses_keep");
+    const grouped = await writeExported("opencode-app", "ses_keep");
+    const manifest = createManifest();
+    manifest.sessions.ses_keep = {
+      updated: 2000,
+      file: path.join("projects", "opencode-app", "ses_keep.jsonl"),
+      hash: "x",
+      lines: 1,
+      options: {
+        includeReasoningInOutput: true,
+        groupBy: "directory",
+        costMode: "auto",
+        granularity: "message",
+      },
+    };
+
+    const candidates = await planPrune([session], manifest, options);
+    expect(candidates.map((c) => [c.kind, c.path])).toEqual([
+      ["empty-dir", path.join(projectsDir, "opencode")],
+      ["duplicate", flat],
+    ]);
+    expect(candidates[1].reason).toContain(path.join("opencode-app", "ses_keep.jsonl"));
+    expect(await fileExists(grouped)).toBe(true);
+  });
+
+  it("never touches Claude Code project directories", async () => {
+    await writeExported("-Users-me-app", "ses_other");
+    expect(await planPrune([session], createManifest(), options)).toEqual([]);
+  });
+
+  it("refuses to prune when no sessions were found", async () => {
+    await writeExported("opencode", "ses_keep");
+    await expect(planPrune([], createManifest(), options)).rejects.toThrow(
+      "No OpenCode sessions found"
+    );
+  });
+
+  it("keeps a session's only file when it isn't at the --group-by location", async () => {
+    await writeExported("opencode-project1", "ses_keep");
+
+    expect(await planPrune([session], createManifest(), options)).toEqual([]);
+  });
+
+  it("keeps files the manifest attributes to an OpenCode root that wasn't scanned", async () => {
+    const other = await writeExported("opencode", "ses_other");
+    const manifest = createManifest();
+    manifest.sessions.ses_other = {
+      ...manifestEntry(path.join("projects", "opencode", "ses_other.jsonl")),
+      root: path.resolve("/data/other/storage"),
+    };
+    await writeExported("opencode", "ses_keep");
+
+    const candidates = await planPrune([session], manifest, {
+      ...options,
+      openCodeDir: "/data/work",
+    });
+
+    expect(candidates.some((c) => c.path === other)).toBe(false);
+  });
+
+  it("removes candidates & drops orphaned sessions from the manifest", async () => {
+    const orphan = await writeExported("opencode-old", "ses_gone");
+    const manifest = createManifest();
+    manifest.sessions.ses_gone = manifestEntry(
+      path.join("projects", "opencode-old", "ses_gone.jsonl")
+    );
+
+    const candidates = await planPrune([session], manifest, options);
+    const result = await applyPrune(candidates, manifest, options);
+
+    expect(result).toEqual({ removed: 2, errors: [] });
+    expect(await fileExists(orphan)).toBe(false);
+    expect(await fileExists(path.join(projectsDir, "opencode-old"))).toBe(false);
+    expect((await loadManifest(outDir)).sessions.ses_gone).toBeUndefined();
+  });
+});
+
+describe("runExport w/ prune", () => {
+  const testDir = path.join(os.tmpdir(), "prune-export-test-" + Date.now());
+  const dataDir = path.join(testDir, "data");
+  const outDir = path.join(testDir, "out");
+  let warnSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const storageDir = path.join(dataDir, "storage");
+    await mkdir(path.join(storageDir, "session", "project1"), { recursive: true });
+    await mkdir(path.join(storageDir, "message", "ses_a"), { recursive: true });
+    await writeFile(
+      path.join(storageDir, "session", "project1", "ses_a.json"),
+      JSON.stringify({
+        id: "ses_a",
+        version: "1.0.0",
+        title: "A",
+        time: { created: 1703980800000, updated: 1703980900000 },
+        projectID: "project1",
+        directory: "/nonexistent/project",
+      })
+    );
+    await writeFile(
+      path.join(storageDir, "message", "ses_a", "msg_a1.json"),
+      JSON.stringify({
+        id: "msg_a1",
+        sessionID: "ses_a",
+        role: "assistant",
+        time: { created: 1703980850000 },
+        modelID: "claude-sonnet-4",
+        tokens: { input: 5, output: 7, reasoning: 0, cache: { read: 0, write: 0 } },
+      })
+    );
+  });
+
+  afterEach(async () => {
+    warnSpy.mockRestore();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("removes orphaned files the manifest recorded after export", async () => {
+    const options = createExportOptions(outDir, { openCodeDir: dataDir, source: "storage" });
+    await runExport(options);
+    const manifest = await loadManifest(outDir);
+    const exported = path.join(outDir, "projects", "opencode", "ses_a.jsonl");
+    const orphan = path.join(outDir, "projects", "opencode", "ses_deleted.jsonl");
+    await writeFile(orphan, "{}\n");
+    await saveManifest(outDir, {
+      ...manifest,
+      sessions: {
+        ...manifest.sessions,
+        ses_deleted: { ...manifest.sessions.ses_a, file: path.relative(outDir, orphan) },
+      },
+    });
+
+    const stats = await runExport({ ...options, prune: true });
+
+    expect(stats.filesPruned).toBe(1);
+    expect(await fileExists(orphan)).toBe(false);
+    expect(await fileExists(exported)).toBe(true);
+  });
+
+  it("keeps files the manifest doesn't list (e.g. from convert)", async () => {
+    const unlisted = path.join(outDir, "projects", "opencode", "ses_converted.jsonl");
+    await mkdir(path.dirname(unlisted), { recursive: true });
+    await writeFile(unlisted, "{}\n");
+
+    const stats = await runExport(
+      createExportOptions(outDir, { openCodeDir: dataDir, source: "storage", prune: true })
+    );
+
+    expect(stats.sessionsExported).toBe(1);
+    expect(stats.filesPruned).toBe(0);
+    expect(await fileExists(unlisted)).toBe(true);
+  });
+});
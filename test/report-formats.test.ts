@@ -0,0 +1,150 @@
+// test/report-formats.test.ts
+// tests for markdown, CSV & HTML report renderers
+
+import { stripVTControlCharacters } from "node:util";
+import { describe, expect, it } from "vitest";
+import { mergeDailyReports, mergeDailyReportsAggregated } from "../src/ccusage-merge.js";
+import { renderCsv, renderHtml, renderMarkdown, renderReport } from "../src/report-formats.js";
+import { dailyEntry, dailyReport } from "./helpers.js";
+
+const reports = [
+  { data: dailyReport([dailyEntry("2024-12-25", 1.5)]), source: "Claude Code" },
+  {
+    data: dailyReport([dailyEntry("2024-12-25", 0.5, "gpt-5"), dailyEntry("2024-12-24", 1)]),
+    source: "OpenCode",
+  },
+];
+
+describe("renderMarkdown", () => {
+  it("renders a titled table w/ right-aligned numbers & bold totals", () => {
+    const md = renderMarkdown(mergeDailyReports(reports));
+
+    expect(md).toContain("## Combined Usage Report (Claude Code + OpenCode)");
+    expect(md).toContain("| Date | Source | Models | Input |");
+    expect(md).toContain("| --- | --- | --- | ---: |");
+    expect(md).toContain("| 2024-12-25 | Claude Code | sonnet-4 | 1,000 |");
+    expect(md).toContain("| **Total** |  |  | **3,000** |");
+    expect(md).toContain("**$3.00**");
+    expect(md).not.toContain("### Models");
+  });
+
+  it("adds model sub-rows & a models section w/ breakdown", () => {
+    const md = renderMarkdown(mergeDailyReports(reports), true);
+
+    expect(md).toContain("|  |  | └─ gpt-5 |");
+    expect(md).toContain("### Models");
+    expect(md).toContain("| sonnet-4 | 2,000 | 1,000 | 0 | 0 | 3,000 | $2.50 | 83.3% |");
+  });
+
+  it("escapes pipes in cells", () => {
+    const md = renderMarkdown(
+      mergeDailyReports([
+        { data: dailyReport([dailyEntry("2024-12-25", 1)]), source: "a|b" },
+      ])
+    );
+    expect(md).toContain("| 2024-12-25 | a\\|b |");
+  });
+});
+
+describe("renderCsv", () => {
+  it("renders one row per entry w/ raw numbers & no totals row", () => {
+    const csv = renderCsv(mergeDailyReports(reports));
+    const lines = csv.trimEnd().split("\n");
+
+    expect(lines[0]).toBe(
+      "Date,Source,Models,Input,Output,Cache Create,Cache Read,Total,Cost"
+    );
+    expect(lines).toHaveLength(4);
+    expect(lines[1]).toBe("2024-12-25,Claude Code,sonnet-4,1000,500,0,0,1500,1.5");
+  });
+
+  it("renders per-source columns for aggregated output", () => {
+    const csv = renderCsv(mergeDailyReportsAggregated(reports));
+    const lines = csv.trimEnd().split("\n");
+
+    expect(lines[0]).toBe(
+      "Date,Models,Claude Code Tokens,Claude Code Cost,Claude Code Share," +
+        "OpenCode Tokens,OpenCode Cost,OpenCode Share,Total,Cost"
+    );
+    expect(lines[1]).toBe('2024-12-25,"gpt-5, sonnet-4",1500,1.5,0.75,1500,0.5,0.25,3000,2');
+    // source w/o usage that day stays empty
+    expect(lines[2]).toBe("2024-12-24,sonnet-4,,,,1500,1,1,1500,1");
+  });
+
+  it("emits one row per entry & model w/ breakdown", () => {
+    const merged = mergeDailyReportsAggregated([
+      {
+        data: dailyReport([
+          {
+            ...dailyEntry("2024-12-25", 2),
+            modelsUsed: ["claude-sonnet-4-20250514", "gpt-5"],
+            modelBreakdowns: [
+              ...dailyEntry("2024-12-25", 1.5).modelBreakdowns,
+              ...dailyEntry("2024-12-25", 0.5, "gpt-5").modelBreakdowns,
+            ],
+          },
+        ]),
+        source: "OpenCode",
+      },
+    ]);
+    const lines = renderCsv(merged, true).trimEnd().split("\n");
+
+    expect(lines[0]).toContain("Date,Model,");
+    expect(lines.slice(1)).toEqual([
+      "2024-12-25,sonnet-4,,,,1500,1.5",
+      "2024-12-25,gpt-5,,,,1500,0.5",
+    ]);
+  });
+
+  it("quotes fields containing commas or quotes", () => {
+    const csv = renderCsv(
+      mergeDailyReports([
+        { data: dailyReport([dailyEntry("2024-12-25", 1)]), source: 'My "tool", v2' },
+      ])
+    );
+    expect(csv).toContain('2024-12-25,"My ""tool"", v2",');
+  });
+});
+
+describe("renderHtml", () => {
+  const generatedAt = new Date("2024-12-26T00:00:00.000Z");
+
+  it("renders a self-contained page w/ inline CSS, chart & table", () => {
+    const html = renderHtml(mergeDailyReportsAggregated(reports), false, generatedAt);
+
+    expect(html.startsWith("<!DOCTYPE html>")).toBe(true);
+    expect(html).toContain("<style>");
+    expect(html).not.toMatch(/<link|<script|src="http/);
+    expect(html).toContain("Generated 2024-12-26T00:00:00.000Z");
+    expect(html).toContain("<h2>Cost per day</h2>");
+    expect(html).toContain("<svg");
+    // stacked bars: Dec 24 (OpenCode) + Dec 25 (Claude Code & OpenCode)
+    expect(html.match(/<rect /g)).toHaveLength(3);
+    expect(html).toContain("<title>2024-12-25 · Claude Code: $1.50</title>");
+    expect(html).toContain('<td class="num">$2.00</td>');
+    expect(html).toContain("<tfoot>");
+  });
+
+  it("escapes HTML in labels & labels the chart by view", () => {
+    const data = { ...dailyReport([dailyEntry("2024-12", 1)]), view: "monthly" as const };
+    const html = renderHtml(mergeDailyReports([{ data, source: "<b>x</b>" }]), true, generatedAt);
+
+    expect(html).toContain("&lt;b&gt;x&lt;/b&gt;");
+    expect(html).not.toContain("<b>x</b>");
+    expect(html).toContain("<h2>Cost per month</h2>");
+    expect(html).toContain("<h2>Models</h2>");
+    expect(html).toContain('<tr class="model">');
+  });
+});
+
+describe("renderReport", () => {
+  const merged = mergeDailyReports(reports);
+
+  it("dispatches to the requested format", () => {
+    expect(JSON.parse(renderReport(merged, "json"))).toEqual(merged);
+    expect(renderReport(merged, "markdown")).toBe(renderMarkdown(merged));
+    expect(renderReport(merged, "csv")).toBe(renderCsv(merged));
+    const table = stripVTControlCharacters(renderReport(merged, "table"));
+    expect(table).toContain("Combined Usage Report");
+  });
+});
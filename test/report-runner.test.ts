@@ -1,11 +1,19 @@
 // test/report-runner.test.ts
 // tests for report runner utilities
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, afterEach, beforeEach, vi } from "vitest";
 import { existsSync } from "node:fs";
+import { mkdir, rm, writeFile } from "node:fs/promises";
 import path from "node:path";
 import os from "node:os";
-import { findClaudeConfigDirs } from "../src/report-runner.js";
+import {
+  findClaudeConfigDirs,
+  getClaudeDataDirs,
+  getCcusageView,
+  getNativeReportView,
+  resolveReportEngine,
+  runCombinedReport,
+} from "../src/report-runner.js";
 import { CLAUDE_CONFIG_PATHS } from "../src/constants.js";
 
 describe("findClaudeConfigDirs", () => {
@@ -45,3 +53,220 @@ describe("CLAUDE_CONFIG_PATHS", () => {
     expect(CLAUDE_CONFIG_PATHS).toContain(path.join(os.homedir(), ".claude"));
   });
 });
+
+describe("getClaudeDataDirs", () => {
+  const original = process.env.CLAUDE_CONFIG_DIR;
+
+  afterEach(() => {
+    if (original === undefined) {
+      delete process.env.CLAUDE_CONFIG_DIR;
+    } else {
+      process.env.CLAUDE_CONFIG_DIR = original;
+    }
+  });
+
+  it("uses comma-separated CLAUDE_CONFIG_DIR when set", () => {
+    process.env.CLAUDE_CONFIG_DIR = "/a, /b";
+    expect(getClaudeDataDirs()).toEqual(["/a", "/b"]);
+  });
+
+  it("falls back to known Claude config paths", () => {
+    delete process.env.CLAUDE_CONFIG_DIR;
+    expect(getClaudeDataDirs()).toEqual(findClaudeConfigDirs());
+  });
+});
+
+describe("getCcusageView", () => {
+  it("reads the ccusage subcommand (default: daily)", () => {
+    expect(getCcusageView([])).toBe("daily");
+    expect(getCcusageView(["--since", "20250101"])).toBe("daily");
+    expect(getCcusageView(["blocks", "--active"])).toBe("blocks");
+    expect(getCcusageView(["session"])).toBe("session");
+  });
+
+  it("finds the subcommand after options & their values", () => {
+    expect(getCcusageView(["-z", "UTC", "weekly"])).toBe("weekly");
+    expect(getCcusageView(["--offline", "--until", "20250131", "monthly"])).toBe("monthly");
+    expect(getCcusageView(["--timezone=UTC", "blocks"])).toBe("blocks");
+  });
+
+  it("rejects commands that have no mergeable JSON output", () => {
+    expect(() => getCcusageView(["statusline"])).toThrow("does not support \"statusline\"");
+  });
+});
+
+describe("getNativeReportView", () => {
+  it("defaults to daily & reads the ccusage subcommand", () => {
+    expect(getNativeReportView([])).toBe("daily");
+    expect(getNativeReportView(["monthly"])).toBe("monthly");
+  });
+
+  it("rejects ccusage options & extra arguments instead of ignoring them", () => {
+    expect(() => getNativeReportView(["--until", "20250131"])).toThrow(
+      "does not support ccusage option \"--until\""
+    );
+    expect(() => getNativeReportView(["weekly", "-z", "UTC"])).toThrow("\"-z\"");
+    expect(() => getNativeReportView(["weekly", "monthly"])).toThrow(
+      "does not support extra argument \"monthly\""
+    );
+  });
+
+  it("rejects views the native engine does not support", () => {
+    expect(() => getNativeReportView(["blocks"])).toThrow("does not support \"blocks\"");
+  });
+});
+
+describe("resolveReportEngine", () => {
+  it("uses native engine without probing ccusage", async () => {
+    expect(await resolveReportEngine("native")).toBe("native");
+  });
+});
+
+describe("runCombinedReport w/ live sources", () => {
+  const testDir = path.join(os.tmpdir(), "report-sources-test-" + Date.now());
+  const daily = {
+    daily: [
+      {
+        date: "2025-01-15",
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        totalTokens: 100,
+        totalCost: 1,
+        modelsUsed: [],
+        modelBreakdowns: [],
+      },
+    ],
+    totals: {
+      inputTokens: 0,
+      outputTokens: 0,
+      cacheCreationTokens: 0,
+      cacheReadTokens: 0,
+      totalTokens: 100,
+      totalCost: 1,
+    },
+  };
+
+  beforeEach(async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(path.join(testDir, "claude.json"), JSON.stringify(daily));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it("skips a failing source w/ a warning & reports the others", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    const exitCode = await runCombinedReport({
+      combineArg: path.join(testDir, "claude.json"),
+      ccusageArgs: [],
+      engine: "native",
+      sources: [
+        {
+          label: "Broken",
+          discover: async () => true,
+          load: async () => {
+            throw new Error("log dir unreadable");
+          },
+        },
+        { label: "Agent", discover: async () => true, load: async () => daily },
+      ],
+      skipExport: true,
+      since: undefined,
+      verbose: false,
+      format: "json",
+    });
+
+    expect(exitCode).toBe(0);
+    expect(warnSpy.mock.calls.flat().join("\n")).toContain("Broken: log dir unreadable");
+    const output = JSON.parse(logSpy.mock.calls.at(-1)![0]);
+    expect(output.sources).toContain("Claude Code");
+    expect(output.sources).toContain("Agent");
+    expect(output.sources).not.toContain("Broken");
+  });
+});
+
+describe("runCombinedReport w/ --input files", () => {
+  const testDir = path.join(os.tmpdir(), "report-inputs-test-" + Date.now());
+  const totals = {
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    totalTokens: 0,
+    totalCost: 0,
+  };
+  const day = (date: string, totalCost: number) => ({
+    ...totals,
+    date,
+    totalTokens: 100,
+    totalCost,
+    modelsUsed: [],
+    modelBreakdowns: [],
+  });
+
+  beforeEach(async () => {
+    await mkdir(testDir, { recursive: true });
+    await writeFile(
+      path.join(testDir, "alice.json"),
+      JSON.stringify({ daily: [day("2025-01-15", 2)], totals })
+    );
+    await writeFile(
+      path.join(testDir, "bob.json"),
+      JSON.stringify({ daily: [day("2025-01-15", 1), day("2025-01-16", 3)], totals })
+    );
+    await writeFile(
+      path.join(testDir, "weekly.json"),
+      JSON.stringify({ weekly: [{ ...day("", 1), week: "2025-01-12" }], totals })
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  const run = (inputs: { label: string; path: string }[], aggregate = false) =>
+    runCombinedReport({
+      combineArg: false,
+      ccusageArgs: [],
+      inputs,
+      aggregate,
+      skipExport: true,
+      since: undefined,
+      verbose: false,
+      format: "json",
+    });
+
+  it("merges each file under its label", async () => {
+    const logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    const exitCode = await run(
+      [
+        { label: "alice", path: path.join(testDir, "alice.json") },
+        { label: "bob", path: path.join(testDir, "bob.json") },
+      ],
+      true
+    );
+
+    expect(exitCode).toBe(0);
+    const output = JSON.parse(logSpy.mock.calls[0][0]);
+    expect(output.sources).toEqual(["alice", "bob"]);
+    expect(output.daily).toHaveLength(2);
+    expect(output.sourceTotals.map((s: { totalCost: number }) => s.totalCost)).toEqual([2, 4]);
+  });
+
+  it("rejects inputs w/ different views", async () => {
+    const errorSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+    const exitCode = await run([
+      { label: "alice", path: path.join(testDir, "alice.json") },
+      { label: "team", path: path.join(testDir, "weekly.json") },
+    ]);
+
+    expect(exitCode).toBe(1);
+    expect(errorSpy.mock.calls[0][0]).toContain("contains a weekly report, but daily was found");
+  });
+});
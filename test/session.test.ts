@@ -11,6 +11,9 @@ import {
   exportSessionWithRetry,
   getStorageDir,
   listSessions,
+  listSessionsFromRoots,
+  readSessionFromStorage,
+  resolveOpenCodeRoots,
 } from "../src/session.js";
 
 describe("getStorageDir", () => {
@@ -339,6 +342,229 @@ describe("listSessions", () => {
   });
 });
 
+describe("resolveOpenCodeRoots", () => {
+  it("keeps explicit labels", () => {
+    expect(resolveOpenCodeRoots([{ dir: "/a", label: "work" }])).toEqual([
+      { dir: "/a", label: "work" },
+    ]);
+  });
+
+  it("derives labels from directory basename & makes them unique", () => {
+    const roots = resolveOpenCodeRoots([
+      { dir: "/machines/laptop/opencode" },
+      { dir: "/backup/opencode" },
+      { dir: "/x", label: "my profile!" },
+    ]);
+    expect(roots.map((r) => r.label)).toEqual(["opencode", "opencode-2", "my-profile"]);
+  });
+});
+
+describe("listSessionsFromRoots", () => {
+  const testDir = path.join(os.tmpdir(), "roots-test-" + Date.now());
+
+  async function writeSession(root: string, id: string, created: number, updated: number) {
+    const projectDir = path.join(testDir, root, "storage", "session", "project1");
+    await mkdir(projectDir, { recursive: true });
+    await writeFile(
+      path.join(projectDir, `${id}.json`),
+      JSON.stringify({
+        id,
+        title: id,
+        time: { created, updated },
+        projectID: "project1",
+        directory: "/test",
+      })
+    );
+  }
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("tags sessions with root label & data directory", async () => {
+    await writeSession("a", "ses_a", 1000, 2000);
+    await writeSession("b", "ses_b", 500, 600);
+
+    const result = await listSessionsFromRoots([
+      { dir: path.join(testDir, "a"), label: "work" },
+      { dir: path.join(testDir, "b"), label: "laptop" },
+    ]);
+
+    expect(result.map((s) => [s.id, s.rootLabel])).toEqual([
+      ["ses_b", "laptop"],
+      ["ses_a", "work"],
+    ]);
+    expect(result[1].openCodeDir).toBe(path.join(testDir, "a"));
+  });
+
+  it("de-duplicates by session id keeping the most recently updated copy", async () => {
+    await writeSession("a", "ses_shared", 1000, 2000);
+    await writeSession("b", "ses_shared", 1000, 3000);
+
+    const result = await listSessionsFromRoots([
+      { dir: path.join(testDir, "a"), label: "work" },
+      { dir: path.join(testDir, "b"), label: "laptop" },
+    ]);
+
+    expect(result).toHaveLength(1);
+    expect(result[0].rootLabel).toBe("laptop");
+    expect(result[0].updated).toBe(3000);
+  });
+
+  it("applies since filter to every root", async () => {
+    await writeSession("a", "ses_old", 1000, 1000);
+    await writeSession("b", "ses_new", 5000, 5000);
+
+    const result = await listSessionsFromRoots(
+      [{ dir: path.join(testDir, "a") }, { dir: path.join(testDir, "b") }],
+      new Date(2000)
+    );
+
+    expect(result.map((s) => s.id)).toEqual(["ses_new"]);
+  });
+});
+
+describe("readSessionFromStorage", () => {
+  const testDir = path.join(os.tmpdir(), "storage-read-test-" + Date.now());
+  const storageDir = path.join(testDir, "storage");
+
+  const sessionInfo = {
+    id: "ses_stored",
+    version: "1.0.201",
+    title: "Stored Session",
+    time: { created: 1703980800000, updated: 1703980900000 },
+    projectID: "project1",
+    directory: "/test/project",
+  };
+
+  const assistantMessage = {
+    id: "msg_002",
+    sessionID: "ses_stored",
+    role: "assistant",
+    time: { created: 1703980850000, completed: 1703980860000 },
+    modelID: "claude-sonnet-4",
+    providerID: "anthropic",
+    cost: 0.01,
+    tokens: { input: 10, output: 20, reasoning: 0, cache: { read: 0, write: 0 } },
+  };
+
+  const userMessage = {
+    id: "msg_001",
+    sessionID: "ses_stored",
+    role: "user",
+    time: { created: 1703980840000 },
+  };
+
+  beforeEach(async () => {
+    const sessionDir = path.join(storageDir, "session", "project1");
+    const messageDir = path.join(storageDir, "message", "ses_stored");
+    const partDir = path.join(storageDir, "part", "msg_002");
+    await mkdir(sessionDir, { recursive: true });
+    await mkdir(messageDir, { recursive: true });
+    await mkdir(partDir, { recursive: true });
+
+    await writeFile(path.join(sessionDir, "ses_stored.json"), JSON.stringify(sessionInfo));
+    await writeFile(path.join(messageDir, "msg_002.json"), JSON.stringify(assistantMessage));
+    await writeFile(path.join(messageDir, "msg_001.json"), JSON.stringify(userMessage));
+    await writeFile(
+      path.join(partDir, "prt_001.json"),
+      JSON.stringify({ id: "prt_001", messageID: "msg_002", type: "text", text: "hi" })
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("builds export from session, message & part files", async () => {
+    const result = await readSessionFromStorage("ses_stored", "project1", {
+      openCodeDir: testDir,
+    });
+
+    expect(result.info.id).toBe("ses_stored");
+    expect(result.info.version).toBe("1.0.201");
+    expect(result.messages).toHaveLength(2);
+    expect(result.messages[1].info.tokens?.output).toBe(20);
+    expect(result.messages[1].parts).toHaveLength(1);
+    expect(result.messages[0].parts).toEqual([]);
+  });
+
+  it("orders messages by creation time", async () => {
+    const result = await readSessionFromStorage("ses_stored", "project1", {
+      openCodeDir: testDir,
+    });
+    expect(result.messages.map((m) => m.info.id)).toEqual(["msg_001", "msg_002"]);
+  });
+
+  it("returns no messages when message directory is missing", async () => {
+    await rm(path.join(storageDir, "message"), { recursive: true, force: true });
+
+    const result = await readSessionFromStorage("ses_stored", "project1", {
+      openCodeDir: testDir,
+    });
+    expect(result.messages).toEqual([]);
+  });
+
+  it("defaults version when missing from session file", async () => {
+    const { version: _version, ...withoutVersion } = sessionInfo;
+    await writeFile(
+      path.join(storageDir, "session", "project1", "ses_stored.json"),
+      JSON.stringify(withoutVersion)
+    );
+
+    const result = await readSessionFromStorage("ses_stored", "project1", {
+      openCodeDir: testDir,
+    });
+    expect(result.info.version).toBe("unknown");
+  });
+
+  it("throws when session file does not exist", async () => {
+    await expect(
+      readSessionFromStorage("ses_missing", "project1", { openCodeDir: testDir })
+    ).rejects.toThrow("Session file does not exist");
+  });
+
+  it("throws naming the file when a message file is corrupt", async () => {
+    await writeFile(
+      path.join(storageDir, "message", "ses_stored", "msg_003.json"),
+      "not valid json {{{"
+    );
+
+    await expect(
+      readSessionFromStorage("ses_stored", "project1", { openCodeDir: testDir })
+    ).rejects.toThrow("msg_003.json");
+  });
+
+  it("throws on invalid message data unless validation is skipped", async () => {
+    await writeFile(
+      path.join(storageDir, "message", "ses_stored", "msg_003.json"),
+      JSON.stringify({ id: "msg_003", role: "assistant" })
+    );
+
+    await expect(
+      readSessionFromStorage("ses_stored", "project1", { openCodeDir: testDir })
+    ).rejects.toThrow("Invalid stored data for session ses_stored");
+
+    const result = await readSessionFromStorage("ses_stored", "project1", {
+      openCodeDir: testDir,
+      skipValidation: true,
+    });
+    expect(result.messages).toHaveLength(3);
+  });
+
+  it("accepts parts w/o a type", async () => {
+    await writeFile(
+      path.join(storageDir, "part", "msg_002", "prt_002.json"),
+      JSON.stringify({ id: "prt_002", messageID: "msg_002" })
+    );
+
+    const result = await readSessionFromStorage("ses_stored", "project1", {
+      openCodeDir: testDir,
+    });
+    expect(result.messages[1].parts).toHaveLength(2);
+  });
+});
+
 describe("checkOpenCodeAvailable", () => {
   it("returns a boolean", async () => {
     // This test verifies the function signature and basic behavior
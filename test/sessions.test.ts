@@ -0,0 +1,170 @@
+// test/sessions.test.ts
+// tests for session listing w/ usage totals
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { stripVTControlCharacters } from "node:util";
+import {
+  listSessionUsage,
+  renderSessionsTable,
+  sortSessions,
+  summarizeSession,
+} from "../src/sessions.js";
+import type { OpenCodeExport, SessionListItem, SessionUsage } from "../src/types.js";
+
+const item: SessionListItem = {
+  id: "ses_a",
+  title: "Refactor",
+  created: 1704067200000,
+  updated: 1704067300000,
+  projectId: "proj_1",
+  directory: "/work/app",
+};
+
+function assistant(
+  id: string,
+  modelID: string,
+  tokens: { input: number; output: number; read?: number },
+  cost?: number
+) {
+  return {
+    info: {
+      id,
+      sessionID: "ses_a",
+      role: "assistant" as const,
+      time: { created: 1704067250000 },
+      modelID,
+      providerID: "anthropic",
+      cost,
+      tokens: {
+        input: tokens.input,
+        output: tokens.output,
+        reasoning: 0,
+        cache: { read: tokens.read ?? 0, write: 0 },
+      },
+    },
+    parts: [],
+  };
+}
+
+describe("summarizeSession", () => {
+  const data = {
+    info: { id: "ses_a" },
+    messages: [
+      { info: { id: "msg_u", sessionID: "ses_a", role: "user" }, parts: [] },
+      assistant("msg_1", "claude-sonnet-4", { input: 100, output: 50, read: 1000 }, 0.5),
+      assistant("msg_2", "gpt-5", { input: 10, output: 5 }, 0.25),
+      assistant("msg_3", "gpt-5", { input: 0, output: 0 }),
+    ],
+  } as unknown as OpenCodeExport;
+
+  it("sums tokens & recorded cost from converted lines", () => {
+    const usage = summarizeSession(item, data);
+    expect(usage).toMatchObject({
+      id: "ses_a",
+      messages: 4,
+      usageLines: 2,
+      inputTokens: 110,
+      outputTokens: 55,
+      cacheReadTokens: 1000,
+      cacheCreationTokens: 0,
+      totalTokens: 1165,
+      cost: 0.75,
+      topModel: "claude-sonnet-4",
+    });
+  });
+
+  it("applies model filters", () => {
+    const usage = summarizeSession(item, data, { model: "gpt-*" });
+    expect(usage).toMatchObject({ usageLines: 1, totalTokens: 15, topModel: "gpt-5" });
+  });
+
+  it("reports no top model w/o usage", () => {
+    const empty = { info: { id: "ses_a" }, messages: [] } as unknown as OpenCodeExport;
+    expect(summarizeSession(item, empty)).toMatchObject({ totalTokens: 0, topModel: null });
+  });
+});
+
+describe("sortSessions", () => {
+  const sessions = [
+    { id: "a", updated: 3, cost: 1, totalTokens: 50 },
+    { id: "b", updated: 1, cost: 5, totalTokens: 10 },
+    { id: "c", updated: 2, cost: 1, totalTokens: 100 },
+  ] as SessionUsage[];
+
+  it("sorts largest or newest first", () => {
+    expect(sortSessions(sessions, "updated").map((s) => s.id)).toEqual(["a", "c", "b"]);
+    expect(sortSessions(sessions, "cost").map((s) => s.id)).toEqual(["b", "a", "c"]);
+    expect(sortSessions(sessions, "tokens").map((s) => s.id)).toEqual(["c", "a", "b"]);
+  });
+});
+
+describe("listSessionUsage", () => {
+  const testDir = path.join(os.tmpdir(), "sessions-test-" + Date.now());
+  const storageDir = path.join(testDir, "storage");
+  let warnSpy: ReturnType<typeof vi.spyOn>;
+
+  async function writeSession(id: string, title: string, updated: number, output: number) {
+    await mkdir(path.join(storageDir, "session", "proj_1"), { recursive: true });
+    await mkdir(path.join(storageDir, "message", id), { recursive: true });
+    await writeFile(
+      path.join(storageDir, "session", "proj_1", `${id}.json`),
+      JSON.stringify({
+        id,
+        title,
+        projectID: "proj_1",
+        directory: "/work/app",
+        time: { created: updated - 1000, updated },
+      })
+    );
+    await writeFile(
+      path.join(storageDir, "message", id, "msg_1.json"),
+      JSON.stringify({
+        id: "msg_1",
+        sessionID: id,
+        role: "assistant",
+        time: { created: updated - 500 },
+        modelID: "claude-sonnet-4",
+        cost: output / 100,
+        tokens: { input: 1, output, reasoning: 0, cache: { read: 0, write: 0 } },
+      })
+    );
+  }
+
+  beforeEach(async () => {
+    warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await writeSession("ses_old", "Expensive", 1704067200000, 500);
+    await writeSession("ses_new", "Cheap", 1704153600000, 10);
+  });
+
+  afterEach(async () => {
+    warnSpy.mockRestore();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("lists sessions from storage, newest first", async () => {
+    const sessions = await listSessionUsage({ openCodeDir: testDir });
+    expect(sessions.map((s) => s.id)).toEqual(["ses_new", "ses_old"]);
+    expect(sessions[1]).toMatchObject({ totalTokens: 501, cost: 5, messages: 1 });
+  });
+
+  it("sorts, limits & filters", async () => {
+    const top = await listSessionUsage({ openCodeDir: testDir, sort: "cost", limit: 1 });
+    expect(top.map((s) => s.id)).toEqual(["ses_old"]);
+
+    const cheap = await listSessionUsage({ openCodeDir: testDir, title: "cheap" });
+    expect(cheap.map((s) => s.id)).toEqual(["ses_new"]);
+  });
+
+  it("renders table w/ totals", async () => {
+    const sessions = await listSessionUsage({ openCodeDir: testDir });
+    const output = stripVTControlCharacters(renderSessionsTable(sessions));
+    expect(output).toContain("Expensive");
+    expect(output).toContain("claude-sonnet-4");
+    expect(output).toContain("$5.00");
+    expect(output).toContain("2 sessions: 512 tokens, $5.10");
+    expect(renderSessionsTable([])).toBe("No sessions found.");
+  });
+});
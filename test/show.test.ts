@@ -0,0 +1,169 @@
+// test/show.test.ts
+// tests for single-session usage timeline
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { stripVTControlCharacters } from "node:util";
+import {
+  buildSessionTimeline,
+  formatElapsed,
+  matchSession,
+  renderSessionTimeline,
+  showSession,
+} from "../src/show.js";
+import type { OpenCodeExport, SessionListItem } from "../src/types.js";
+
+function listItem(id: string): SessionListItem {
+  return {
+    id,
+    title: "Refactor",
+    created: 1704067200000,
+    updated: 1704067300000,
+    projectId: "proj_1",
+    directory: "/work/app",
+  };
+}
+
+function message(
+  id: string,
+  role: "user" | "assistant",
+  created: number,
+  extra: Record<string, unknown> = {}
+) {
+  return { id, sessionID: "ses_abc", role, time: { created }, ...extra };
+}
+
+const assistant1 = message("msg_a1", "assistant", 1704067210000, {
+  time: { created: 1704067210000, completed: 1704067222500 },
+  modelID: "claude-sonnet-4",
+  providerID: "anthropic",
+  cost: 0.5,
+  tokens: { input: 100, output: 40, reasoning: 10, cache: { read: 1000, write: 200 } },
+});
+const assistant2 = message("msg_a2", "assistant", 1704067230000, {
+  modelID: "gpt-5",
+  providerID: "openai",
+  cost: 0.25,
+  tokens: { input: 20, output: 5, reasoning: 0, cache: { read: 0, write: 0 } },
+});
+
+describe("matchSession", () => {
+  const sessions = [listItem("ses_abc"), listItem("ses_abd"), listItem("ses_x")];
+
+  it("matches exact IDs & unique prefixes", () => {
+    expect(matchSession(sessions, "ses_abc").id).toBe("ses_abc");
+    expect(matchSession(sessions, "ses_x").id).toBe("ses_x");
+    expect(matchSession(sessions, "ses_abd").id).toBe("ses_abd");
+  });
+
+  it("rejects unknown & ambiguous prefixes", () => {
+    expect(() => matchSession(sessions, "ses_zz")).toThrow('No session matches "ses_zz"');
+    expect(() => matchSession(sessions, "ses_ab")).toThrow(
+      'Session prefix "ses_ab" is ambiguous (2 matches): ses_abc, ses_abd'
+    );
+  });
+});
+
+describe("buildSessionTimeline", () => {
+  const data = {
+    info: { id: "ses_abc" },
+    messages: [
+      { info: message("msg_u1", "user", 1704067200000), parts: [] },
+      { info: assistant1, parts: [] },
+      { info: assistant2, parts: [] },
+      {
+        info: message("msg_a3", "assistant", 1704067240000, {
+          tokens: { input: 0, output: 0, reasoning: 0, cache: { read: 0, write: 0 } },
+        }),
+        parts: [],
+      },
+    ],
+  } as unknown as OpenCodeExport;
+
+  it("builds rows w/ reasoning split out & running totals", () => {
+    const timeline = buildSessionTimeline(listItem("ses_abc"), data);
+
+    expect(timeline.rows).toHaveLength(2);
+    expect(timeline.rows[0]).toMatchObject({
+      messageId: "msg_a1",
+      model: "claude-sonnet-4",
+      provider: "anthropic",
+      inputTokens: 100,
+      outputTokens: 40,
+      reasoningTokens: 10,
+      cacheCreationTokens: 200,
+      cacheReadTokens: 1000,
+      cost: 0.5,
+      elapsedMs: 12500,
+      cumulativeTokens: 1350,
+      cumulativeCost: 0.5,
+    });
+    expect(timeline.rows[1]).toMatchObject({
+      provider: "openai",
+      elapsedMs: null,
+      cumulativeTokens: 1375,
+      cumulativeCost: 0.75,
+    });
+    expect(timeline.totalTokens).toBe(1375);
+    expect(timeline.skipped).toEqual([
+      { messageId: "msg_u1", role: "user", reason: "user-role" },
+      { messageId: "msg_a3", role: "assistant", reason: "no-tokens" },
+    ]);
+  });
+
+  it("renders table, totals & skipped reasons", () => {
+    const timeline = buildSessionTimeline(listItem("ses_abc"), data);
+    const output = stripVTControlCharacters(renderSessionTimeline(timeline));
+    expect(output).toContain("Refactor");
+    expect(output).toContain("12.5s");
+    expect(output).toContain("2 usage lines: 1,375 tokens, $0.75");
+    expect(output).toContain("Skipped 2 messages:");
+    expect(output).toContain("user message (not billed) (1): msg_u1");
+    expect(output).toContain("no token usage (1): msg_a3");
+  });
+});
+
+describe("formatElapsed", () => {
+  it("formats durations", () => {
+    expect(formatElapsed(null)).toBe("-");
+    expect(formatElapsed(850)).toBe("850ms");
+    expect(formatElapsed(12_340)).toBe("12.3s");
+    expect(formatElapsed(125_000)).toBe("2m 05s");
+  });
+});
+
+describe("showSession", () => {
+  const testDir = path.join(os.tmpdir(), "show-test-" + Date.now());
+  const storageDir = path.join(testDir, "storage");
+
+  beforeEach(async () => {
+    await mkdir(path.join(storageDir, "session", "proj_1"), { recursive: true });
+    await mkdir(path.join(storageDir, "message", "ses_abc"), { recursive: true });
+    await writeFile(
+      path.join(storageDir, "session", "proj_1", "ses_abc.json"),
+      JSON.stringify({
+        id: "ses_abc",
+        title: "Refactor",
+        projectID: "proj_1",
+        directory: "/work/app",
+        time: { created: 1704067200000, updated: 1704067300000 },
+      })
+    );
+    await writeFile(
+      path.join(storageDir, "message", "ses_abc", "msg_a1.json"),
+      JSON.stringify(assistant1)
+    );
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("loads session from storage by ID prefix", async () => {
+    const timeline = await showSession("ses_a", { openCodeDir: testDir });
+    expect(timeline.session.id).toBe("ses_abc");
+    expect(timeline.rows.map((row) => row.messageId)).toEqual(["msg_a1"]);
+  });
+});
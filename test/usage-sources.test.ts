@@ -0,0 +1,144 @@
+// test/usage-sources.test.ts
+// tests for usage sources (file source & modules registered in config)
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { loadConfigFile } from "../src/config.js";
+import { createExportOptions } from "../src/exporter.js";
+import {
+  createFileSource,
+  loadRegisteredSources,
+  openCodeSource,
+} from "../src/usage-sources.js";
+import type { UsageSourceContext } from "../src/types.js";
+
+const totals = {
+  inputTokens: 100,
+  outputTokens: 50,
+  cacheCreationTokens: 0,
+  cacheReadTokens: 0,
+  totalTokens: 150,
+  totalCost: 0.5,
+};
+
+const weekly = {
+  weekly: [{ ...totals, week: "2025-01-12", modelsUsed: [], modelBreakdowns: [] }],
+  totals,
+};
+
+const context: UsageSourceContext = {
+  view: "weekly",
+  engine: "native",
+  ccusageArgs: ["weekly"],
+  skipExport: true,
+  since: undefined,
+  verbose: false,
+  exportOptions: createExportOptions(path.join(os.tmpdir(), "usage-sources-out-" + Date.now())),
+};
+
+describe("usage sources", () => {
+  const testDir = path.join(os.tmpdir(), "usage-sources-test-" + Date.now());
+  const configPath = path.join(testDir, "config.json");
+
+  beforeEach(async () => {
+    await mkdir(path.join(testDir, "sources"), { recursive: true });
+    await writeFile(path.join(testDir, "weekly.json"), JSON.stringify(weekly));
+    // factory taking options, returns raw ccusage weekly JSON
+    await writeFile(
+      path.join(testDir, "sources", "agent.mjs"),
+      `export default (options) => ({
+        label: "Agent",
+        discover: async () => options.enabled !== false,
+        load: async () => (${JSON.stringify(weekly)}),
+      });`
+    );
+    await writeFile(
+      path.join(testDir, "sources", "broken.mjs"),
+      `export const source = {
+        label: "Broken",
+        discover: async () => true,
+        load: async () => ({ nope: true }),
+      };`
+    );
+    await writeFile(path.join(testDir, "sources", "empty.mjs"), "export default 42;");
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("loads a saved ccusage JSON file for the requested view", async () => {
+    const source = createFileSource("Claude Code", path.join(testDir, "weekly.json"));
+    const data = await source.load(context);
+    expect(data?.view).toBe("weekly");
+    expect(data?.daily[0].date).toBe("2025-01-12");
+
+    await expect(source.load({ ...context, view: "daily" })).rejects.toThrow(
+      "contains a weekly report, but daily was requested"
+    );
+    await expect(
+      createFileSource("Claude Code", path.join(testDir, "missing.json")).load(context)
+    ).rejects.toThrow("Failed to load ccusage JSON");
+  });
+
+  it("looks for OpenCode exports in the export options' out dir", async () => {
+    const exportOptions = createExportOptions(path.join(testDir, "exports"));
+    expect(await openCodeSource.discover({ ...context, exportOptions })).toBe(false);
+
+    await mkdir(path.join(testDir, "exports", "projects"), { recursive: true });
+    expect(await openCodeSource.discover({ ...context, exportOptions })).toBe(true);
+  });
+
+  it("registers modules relative to the config file w/ label overrides & options", async () => {
+    const sources = await loadRegisteredSources(
+      {
+        sources: [
+          { module: "./sources/agent.mjs" },
+          { module: "./sources/agent.mjs", label: "Agent (CI)", options: { enabled: false } },
+        ],
+      },
+      configPath
+    );
+
+    expect(sources.map((s) => s.label)).toEqual(["Agent", "Agent (CI)"]);
+    expect(await sources[0].discover(context)).toBe(true);
+    expect(await sources[1].discover(context)).toBe(false);
+
+    // raw ccusage JSON is normalized
+    const data = await sources[0].load(context);
+    expect(data?.view).toBe("weekly");
+    expect(data?.totals.totalCost).toBe(0.5);
+  });
+
+  it("rejects modules w/o a usage source or w/ invalid output", async () => {
+    await expect(
+      loadRegisteredSources({ sources: [{ module: "./sources/empty.mjs" }] }, configPath)
+    ).rejects.toThrow("must export a usage source");
+    await expect(
+      loadRegisteredSources({ sources: [{ module: "./sources/missing.mjs" }] }, configPath)
+    ).rejects.toThrow("Cannot load usage source");
+
+    const [broken] = await loadRegisteredSources(
+      { sources: [{ module: "./sources/broken.mjs" }] },
+      configPath
+    );
+    await expect(broken.load(context)).rejects.toThrow(/^load\(\) did not return ccusage JSON$/);
+  });
+
+  it("loads & validates the config file", async () => {
+    await writeFile(configPath, JSON.stringify({ sources: [{ module: "./sources/agent.mjs" }] }));
+    expect(await loadConfigFile(configPath)).toEqual({
+      config: { sources: [{ module: "./sources/agent.mjs" }] },
+      path: configPath,
+    });
+
+    await writeFile(configPath, JSON.stringify({ sources: [{ path: "./agent.mjs" }] }));
+    await expect(loadConfigFile(configPath)).rejects.toThrow("Invalid config file");
+
+    await expect(loadConfigFile(path.join(testDir, "missing.json"))).rejects.toThrow(
+      "Cannot read config file"
+    );
+  });
+});
@@ -18,6 +18,9 @@ import {
   formatCurrency,
   isExecError,
   getOptimalConcurrency,
+  parseOpenCodeDirSpec,
+  resolveOpenCodeDirOptions,
+  collect,
   type ExecError,
 } from "../src/utils.js";
 
@@ -150,6 +153,49 @@ describe("fileExists", () => {
   });
 });
 
+describe("parseOpenCodeDirSpec", () => {
+  it("parses label=path", () => {
+    expect(parseOpenCodeDirSpec("work=/data/work")).toEqual({
+      label: "work",
+      dir: "/data/work",
+    });
+  });
+
+  it("treats value without label as plain path", () => {
+    expect(parseOpenCodeDirSpec("/data/opencode")).toEqual({ dir: "/data/opencode" });
+  });
+
+  it("does not treat '=' inside a path as a label separator", () => {
+    expect(parseOpenCodeDirSpec("/data/a=b")).toEqual({ dir: "/data/a=b" });
+  });
+});
+
+describe("resolveOpenCodeDirOptions", () => {
+  it("returns empty options when no values given", () => {
+    expect(resolveOpenCodeDirOptions()).toEqual({});
+    expect(resolveOpenCodeDirOptions([])).toEqual({});
+  });
+
+  it("keeps single unlabeled directory as openCodeDir", () => {
+    expect(resolveOpenCodeDirOptions(["/data"])).toEqual({ openCodeDir: "/data" });
+  });
+
+  it("uses roots for labeled or repeated directories", () => {
+    expect(resolveOpenCodeDirOptions(["work=/w"])).toEqual({
+      openCodeRoots: [{ label: "work", dir: "/w" }],
+    });
+    expect(resolveOpenCodeDirOptions(["/a", "laptop=/b"])).toEqual({
+      openCodeRoots: [{ dir: "/a" }, { label: "laptop", dir: "/b" }],
+    });
+  });
+});
+
+describe("collect", () => {
+  it("appends values across repeated options", () => {
+    expect(collect("b", collect("a"))).toEqual(["a", "b"]);
+  });
+});
+
 describe("dedupeKey", () => {
   it("creates key in correct format", () => {
     expect(dedupeKey("msg_123", 1703980800000)).toBe("msg_123:1703980800000");
@@ -0,0 +1,193 @@
+// test/verify.test.ts
+// tests for verifying exported JSONL against OpenCode storage
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createExportOptions, runExport } from "../src/exporter.js";
+import { loadManifest, saveManifest } from "../src/manifest.js";
+import type { ManifestEntry } from "../src/types.js";
+import {
+  getVerifyConvertOptions,
+  parseExportedLines,
+  renderVerifyReport,
+  runVerify,
+} from "../src/verify.js";
+
+const validLine = {
+  timestamp: "2024-01-01T00:00:00.000Z",
+  sessionId: "ses_a",
+  requestId: "opencode:ses_a:msg_1",
+  message: { id: "msg_1", model: "claude-sonnet-4", usage: { input_tokens: 1, output_tokens: 2 } },
+};
+
+describe("parseExportedLines", () => {
+  it("flags invalid JSON & schema mismatches w/ line numbers", () => {
+    const content = [
+      JSON.stringify(validLine),
+      "",
+      "{not json",
+      JSON.stringify({ ...validLine, timestamp: "yesterday" }),
+      JSON.stringify({ ...validLine, message: { id: "msg_2", model: "x", usage: {} } }),
+    ].join("\n");
+
+    const { lines, issues } = parseExportedLines(content, "/out/ses_a.jsonl");
+    expect(lines).toHaveLength(1);
+    expect(issues.map((issue) => [issue.line, issue.detail])).toEqual([
+      [3, "invalid JSON"],
+      [4, "timestamp: Invalid datetime"],
+      [5, "message.usage.input_tokens: Required"],
+    ]);
+  });
+});
+
+describe("getVerifyConvertOptions", () => {
+  it("uses manifest options, falling back to export defaults", () => {
+    expect(getVerifyConvertOptions()).toEqual({
+      includeReasoningInOutput: true,
+      costMode: "auto",
+      granularity: "message",
+      model: undefined,
+      provider: undefined,
+    });
+
+    const entry = {
+      options: {
+        includeReasoningInOutput: false,
+        groupBy: "flat",
+        costMode: "calculate",
+        granularity: "bogus",
+        model: "gpt-*",
+      },
+    } as ManifestEntry;
+    expect(getVerifyConvertOptions(entry)).toMatchObject({
+      includeReasoningInOutput: false,
+      costMode: "calculate",
+      granularity: "message",
+      model: "gpt-*",
+    });
+  });
+});
+
+describe("runVerify", () => {
+  const testDir = path.join(os.tmpdir(), "verify-test-" + Date.now());
+  const dataDir = path.join(testDir, "data");
+  const outDir = path.join(testDir, "out");
+  const exportedDir = path.join(outDir, "projects", "opencode");
+  let warnSpy: ReturnType<typeof vi.spyOn>;
+
+  async function writeSession(id: string, messages: { id: string; output: number }[]) {
+    const storageDir = path.join(dataDir, "storage");
+    await mkdir(path.join(storageDir, "session", "project1"), { recursive: true });
+    await mkdir(path.join(storageDir, "message", id), { recursive: true });
+    await writeFile(
+      path.join(storageDir, "session", "project1", `${id}.json`),
+      JSON.stringify({
+        id,
+        title: id,
+        projectID: "project1",
+        directory: "/work/app",
+        time: { created: 1703980800000, updated: 1703980900000 },
+      })
+    );
+    for (const [index, msg] of messages.entries()) {
+      await writeFile(
+        path.join(storageDir, "message", id, `${msg.id}.json`),
+        JSON.stringify({
+          id: msg.id,
+          sessionID: id,
+          role: "assistant",
+          time: { created: 1703980850000 + index * 1000 },
+          modelID: "claude-sonnet-4",
+          tokens: { input: 5, output: msg.output, reasoning: 0, cache: { read: 0, write: 0 } },
+        })
+      );
+    }
+  }
+
+  beforeEach(async () => {
+    warnSpy = vi.spyOn(console, "warn").mockImplementation(() => {});
+    await writeSession("ses_a", [
+      { id: "msg_a1", output: 7 },
+      { id: "msg_a2", output: 9 },
+    ]);
+    await writeSession("ses_b", [{ id: "msg_b1", output: 3 }]);
+    await runExport(createExportOptions(outDir, { openCodeDir: dataDir, source: "storage" }));
+  });
+
+  afterEach(async () => {
+    warnSpy.mockRestore();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("finds no drift right after an export", async () => {
+    const report = await runVerify({ outDir, openCodeDir: dataDir, verbose: false });
+    expect(report).toMatchObject({ files: 2, lines: 3, sessions: 2, issues: [], counts: {} });
+    expect(renderVerifyReport(report, outDir)).toBe(
+      "Checked 2 files (3 lines) against 2 sessions: no drift found."
+    );
+  });
+
+  it("flags malformed, missing, extra, mismatched, duplicate & orphaned lines", async () => {
+    const fileA = path.join(exportedDir, "ses_a.jsonl");
+    const [first] = (await readFile(fileA, "utf-8")).trim().split("\n").map((l) => JSON.parse(l));
+    first.message.usage.output_tokens = 70;
+    const extra = { ...first, requestId: "opencode:ses_a:msg_gone" };
+    await writeFile(
+      fileA,
+      [JSON.stringify(first), "{oops", JSON.stringify(extra)].join("\n") + "\n"
+    );
+    const lineB = await readFile(path.join(exportedDir, "ses_b.jsonl"), "utf-8");
+    await writeFile(path.join(exportedDir, "ses_deleted.jsonl"), lineB);
+    const manifest = await loadManifest(outDir);
+    manifest.sessions.ses_deleted = {
+      ...manifest.sessions.ses_b,
+      file: path.join("projects", "opencode", "ses_deleted.jsonl"),
+    };
+    await saveManifest(outDir, manifest);
+
+    const report = await runVerify({ outDir, openCodeDir: dataDir, verbose: false });
+    expect(report.counts).toEqual({
+      "token-mismatch": 1,
+      malformed: 1,
+      extra: 1,
+      missing: 1,
+      orphaned: 1,
+      "duplicate-request": 1,
+    });
+    expect(report.issues.find((i) => i.kind === "token-mismatch")?.detail).toBe(
+      "output_tokens 70 (expected 7)"
+    );
+    expect(report.issues.find((i) => i.kind === "missing")?.requestId).toBe(
+      "opencode:ses_a:msg_a2"
+    );
+
+    const output = renderVerifyReport(report, outDir);
+    expect(output).toContain("[malformed] projects/opencode/ses_a.jsonl:2 invalid JSON");
+    expect(output).toContain("[orphaned] projects/opencode/ses_deleted.jsonl");
+    expect(output).toContain("against 2 sessions: 6 issues");
+  });
+
+  it("doesn't flag files the manifest doesn't attribute to a scanned root", async () => {
+    const lineB = await readFile(path.join(exportedDir, "ses_b.jsonl"), "utf-8");
+    await writeFile(path.join(exportedDir, "ses_converted.jsonl"), lineB.replace(/ses_b/g, "x"));
+    await writeFile(path.join(exportedDir, "ses_other.jsonl"), lineB.replace(/ses_b/g, "y"));
+    const manifest = await loadManifest(outDir);
+    manifest.sessions.ses_other = {
+      ...manifest.sessions.ses_b,
+      file: path.join("projects", "opencode", "ses_other.jsonl"),
+      root: path.resolve(testDir, "other", "storage"),
+    };
+    await saveManifest(outDir, manifest);
+
+    const report = await runVerify({ outDir, openCodeDir: dataDir, verbose: false });
+    expect(report.issues).toEqual([]);
+  });
+
+  it("refuses to verify w/o any sessions in storage", async () => {
+    await expect(
+      runVerify({ outDir, openCodeDir: path.join(testDir, "empty"), verbose: false })
+    ).rejects.toThrow("No OpenCode sessions found in storage");
+  });
+});
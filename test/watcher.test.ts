@@ -0,0 +1,159 @@
+// test/watcher.test.ts
+// tests for watch mode storage change detection & re-export
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import os from "node:os";
+import { createExportOptions } from "../src/exporter.js";
+import { loadManifest } from "../src/manifest.js";
+import { parseStorageChange, watchExport } from "../src/watcher.js";
+import { fileExists } from "../src/utils.js";
+
+describe("parseStorageChange", () => {
+  const storageDir = path.join("/data", "storage");
+
+  it("maps session files to their session id", () => {
+    const change = parseStorageChange(
+      storageDir,
+      path.join("session", "project1", "ses_abc.json")
+    );
+    expect(change).toEqual({
+      kind: "session",
+      sessionId: "ses_abc",
+      filePath: path.join(storageDir, "session", "project1", "ses_abc.json"),
+    });
+  });
+
+  it("maps message files to their session id", () => {
+    const change = parseStorageChange(
+      storageDir,
+      path.join("message", "ses_abc", "msg_001.json")
+    );
+    expect(change).toEqual({ kind: "message", sessionId: "ses_abc", messageId: "msg_001" });
+  });
+
+  it("maps part files to their message id", () => {
+    const change = parseStorageChange(
+      storageDir,
+      path.join("part", "msg_001", "prt_001.json")
+    );
+    expect(change).toEqual({
+      kind: "part",
+      messageId: "msg_001",
+      filePath: path.join(storageDir, "part", "msg_001", "prt_001.json"),
+    });
+  });
+
+  it("ignores directories, non-JSON files & unknown kinds", () => {
+    expect(parseStorageChange(storageDir, path.join("message", "ses_abc"))).toBeNull();
+    expect(parseStorageChange(storageDir, path.join("message", "ses_abc", "x.tmp"))).toBeNull();
+    expect(parseStorageChange(storageDir, path.join("project", "p1", "x.json"))).toBeNull();
+  });
+});
+
+describe("watchExport", () => {
+  const testDir = path.join(os.tmpdir(), "watch-test-" + Date.now());
+  const dataDir = path.join(testDir, "data");
+  const storageDir = path.join(dataDir, "storage");
+  const outDir = path.join(testDir, "out");
+  let logSpy: ReturnType<typeof vi.spyOn>;
+
+  beforeEach(async () => {
+    logSpy = vi.spyOn(console, "log").mockImplementation(() => {});
+    await mkdir(path.join(storageDir, "session", "project1"), { recursive: true });
+    await mkdir(path.join(storageDir, "message", "ses_w"), { recursive: true });
+    await writeFile(
+      path.join(storageDir, "session", "project1", "ses_w.json"),
+      JSON.stringify({
+        id: "ses_w",
+        version: "1.0.0",
+        title: "Watched",
+        time: { created: 1703980800000, updated: 1703980900000 },
+        projectID: "project1",
+        directory: "/nonexistent/project",
+      })
+    );
+  });
+
+  afterEach(async () => {
+    logSpy.mockRestore();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it("throws when storage directory does not exist", async () => {
+    const options = createExportOptions(outDir, {
+      openCodeDir: path.join(testDir, "missing"),
+    });
+    await expect(watchExport(options)).rejects.toThrow("OpenCode storage not found");
+  });
+
+  it("re-exports a session when one of its messages changes", async () => {
+    const options = createExportOptions(outDir, { openCodeDir: dataDir, source: "storage" });
+    const handle = await watchExport(options, { debounceMs: 50 });
+    const outFile = path.join(outDir, "projects", "opencode", "ses_w.jsonl");
+
+    try {
+      await writeFile(
+        path.join(storageDir, "message", "ses_w", "msg_w1.json"),
+        JSON.stringify({
+          id: "msg_w1",
+          sessionID: "ses_w",
+          role: "assistant",
+          time: { created: 1703980850000 },
+          modelID: "claude-sonnet-4",
+          tokens: { input: 3, output: 4, reasoning: 0, cache: { read: 0, write: 0 } },
+        })
+      );
+
+      // wait for debounced re-export
+      for (let i = 0; i < 50 && !(await fileExists(outFile)); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+    } finally {
+      await handle.close();
+    }
+
+    const line = JSON.parse((await readFile(outFile, "utf-8")).trim());
+    expect(line.requestId).toBe("opencode:ses_w:msg_w1");
+
+    // manifest tracks re-exported sessions
+    const manifest = await loadManifest(outDir);
+    expect(manifest.sessions.ses_w).toMatchObject({ lines: 1 });
+  }, 10000);
+
+  it("re-exports a session when a part of an existing message changes", async () => {
+    await writeFile(
+      path.join(storageDir, "message", "ses_w", "msg_w1.json"),
+      JSON.stringify({
+        id: "msg_w1",
+        sessionID: "ses_w",
+        role: "assistant",
+        time: { created: 1703980850000 },
+        modelID: "claude-sonnet-4",
+        tokens: { input: 3, output: 4, reasoning: 0, cache: { read: 0, write: 0 } },
+      })
+    );
+    await mkdir(path.join(storageDir, "part", "msg_w1"), { recursive: true });
+
+    const options = createExportOptions(outDir, { openCodeDir: dataDir, source: "storage" });
+    const handle = await watchExport(options, { debounceMs: 50 });
+    const outFile = path.join(outDir, "projects", "opencode", "ses_w.jsonl");
+
+    try {
+      // part w/o sessionID: session found via its message file
+      await writeFile(
+        path.join(storageDir, "part", "msg_w1", "prt_w1.json"),
+        JSON.stringify({ id: "prt_w1", messageID: "msg_w1", type: "text", text: "hi" })
+      );
+
+      for (let i = 0; i < 50 && !(await fileExists(outFile)); i++) {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+      }
+    } finally {
+      await handle.close();
+    }
+
+    expect(await fileExists(outFile)).toBe(true);
+  }, 10000);
+});